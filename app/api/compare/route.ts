@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExtractionProvider } from "@/app/lib/provider";
+import { readExtractionForm, runComparisonPipeline } from "@/app/lib/pipeline";
+import { BudgetExceededError } from "@/app/lib/budget";
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes (max for Vercel Pro)
+
+/**
+ * Extract the same fields from an original (`before`) and revised (`after`)
+ * document and return a per-field diff. Takes the same fields, template,
+ * model, force and classify parameters as /api/extract.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const before = await readExtractionForm(formData, 'before');
+    if (!before.request) {
+      return NextResponse.json({ error: before.error }, { status: 400 });
+    }
+    const after = await readExtractionForm(formData, 'after');
+    if (!after.request) {
+      return NextResponse.json({ error: after.error }, { status: 400 });
+    }
+
+    const comparison = await runComparisonPipeline(before.request, after.request, getExtractionProvider());
+
+    return NextResponse.json(comparison);
+
+  } catch (error) {
+    console.error("Error comparing contracts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: error instanceof BudgetExceededError ? 429 : 500 }
+    );
+  }
+}
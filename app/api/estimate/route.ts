@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSupportedFile, MAX_FILE_SIZE, resolveFieldSelection } from "@/app/lib/pipeline";
+import { CostEstimate, estimateExtractionCost, summarizeEstimates } from "@/app/lib/estimate";
+
+export const runtime = 'nodejs';
+
+/**
+ * Project the cost of extracting the uploaded files, before running them.
+ * Accepts the same form as /api/jobs (or a single `file`) and calls no model.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const files = [...formData.getAll('files'), ...formData.getAll('file')]
+      .filter((f): f is File => typeof f !== 'string');
+    const model = (formData.get('model') as string | null) || "gpt-5";
+    const fieldsParam = formData.get('fields') as string | null;
+    const templateParam = formData.get('template') as string | null;
+    const force = formData.get('force') === 'true';
+    const classify = formData.get('classify') !== 'false';
+    const retry = formData.get('retry') !== 'false';
+    const keyDates = formData.get('keyDates') !== 'false';
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+
+    const invalid = files.filter(f => !isSupportedFile(f.name) || f.size > MAX_FILE_SIZE);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Only PDF, DOCX and TXT files up to ${MAX_FILE_SIZE / 1024 / 1024}MB are supported: ${invalid.map(f => f.name).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const selection = await resolveFieldSelection(fieldsParam, templateParam);
+    if (selection.error !== undefined) {
+      return NextResponse.json({ error: selection.error }, { status: 400 });
+    }
+
+    const estimates: CostEstimate[] = [];
+    for (const file of files) {
+      estimates.push(await estimateExtractionCost({
+        fileName: file.name,
+        buffer: Buffer.from(await file.arrayBuffer()),
+        model,
+        fields: selection.fields,
+        autoTemplate: selection.autoTemplate,
+        classify,
+        retry,
+        keyDates,
+        force,
+      }));
+    }
+
+    return NextResponse.json(summarizeEstimates(model, estimates));
+
+  } catch (error) {
+    console.error("Error estimating cost:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to estimate cost' },
+      { status: 500 }
+    );
+  }
+}
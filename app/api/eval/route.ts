@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  compareReports,
+  EVAL_PROVIDER_MODES,
+  EvalProviderMode,
+  formatEvalReport,
+  getEvalProvider,
+  getEvalReport,
+  listEvalReports,
+  loadEvalCases,
+  runEval,
+  saveEvalReport,
+} from "@/app/lib/eval";
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+type EvalRequest = {
+  provider?: EvalProviderMode; // Default "mock"
+  model?: string;
+  baseline?: string; // Id of an earlier report to compare against
+};
+
+// Eval runs can call the live provider, so they're off in production unless enabled
+function isEvalEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.ENABLE_EVAL === 'true';
+}
+
+export async function GET() {
+  if (!isEvalEnabled()) {
+    return NextResponse.json({ error: 'Evaluation is disabled' }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ reports: await listEvalReports() });
+  } catch (error) {
+    console.error("Error listing eval reports:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list eval reports' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isEvalEnabled()) {
+    return NextResponse.json({ error: 'Evaluation is disabled' }, { status: 404 });
+  }
+
+  let body: EvalRequest;
+  try {
+    body = await req.json();
+  } catch {
+    body = {};
+  }
+
+  const mode = body.provider || "mock";
+  if (!EVAL_PROVIDER_MODES.includes(mode)) {
+    return NextResponse.json({ error: `provider must be one of: ${EVAL_PROVIDER_MODES.join(', ')}` }, { status: 400 });
+  }
+
+  const baseline = body.baseline ? await getEvalReport(body.baseline) : null;
+  if (body.baseline && !baseline) {
+    return NextResponse.json({ error: 'Baseline report not found' }, { status: 404 });
+  }
+
+  try {
+    const cases = await loadEvalCases(process.env.EVAL_CASES_DIR);
+    const report = await runEval(cases, getEvalProvider(mode), { model: body.model || "gpt-5" });
+    await saveEvalReport(report);
+    console.log(formatEvalReport(report));
+
+    return NextResponse.json({
+      report,
+      ...(baseline ? { comparison: compareReports(baseline, report) } : {}),
+    });
+
+  } catch (error) {
+    console.error("Error running eval:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run eval' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExtractionProvider } from "@/app/lib/provider";
+import { readExtractionForm, runExtractionPipeline } from "@/app/lib/pipeline";
+import { PipelineEvent } from "@/app/lib/events";
+import { formatServerSentEvent } from "@/app/lib/sse";
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes (max for Vercel Pro)
+
+// Keeps proxies from closing the connection during long model calls
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const { request, error } = await readExtractionForm(formData);
+
+    if (!request) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const provider = getExtractionProvider();
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const startedAt = Date.now();
+        let closed = false;
+
+        const send = (event: PipelineEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+          } catch {
+            // Client disconnected; keep processing but stop writing
+            closed = true;
+          }
+        };
+
+        const heartbeat = setInterval(() => {
+          send({ type: "heartbeat", elapsedSeconds: Math.round((Date.now() - startedAt) / 1000) });
+        }, HEARTBEAT_INTERVAL_MS);
+
+        try {
+          const result = await runExtractionPipeline(request, provider, send);
+          send({ type: "result", result });
+        } catch (error) {
+          console.error("Error:", error);
+          send({ type: "error", error: error instanceof Error ? error.message : 'Unknown error occurred' });
+        } finally {
+          clearInterval(heartbeat);
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error) {
+    console.error("Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
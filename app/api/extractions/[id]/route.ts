@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExtractionView, reviewStoredExtraction } from "@/app/lib/history";
+import { ReviewAction } from "@/app/lib/review";
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const record = await getExtractionView(params.id);
+    if (!record) {
+      return NextResponse.json({ error: 'Extraction not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(record);
+
+  } catch (error) {
+    console.error("Error loading extraction:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load extraction' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a review decision for one field of a stored run. Edited quotes are
+ * re-validated against the stored document.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  let field: string;
+  let action: ReviewAction;
+  let reviewer: string | null;
+  try {
+    const body = await req.json();
+    ({ field, action } = body);
+    reviewer = body.reviewer ?? null;
+    if (typeof field !== 'string' || !isReviewAction(action) || (reviewer !== null && typeof reviewer !== 'string')) {
+      throw new Error();
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Body must be JSON with a field, an action ({ type: "accept" | "reject" | "reset" } or { type: "edit", quote }) and an optional reviewer' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await reviewStoredExtraction(params.id, field, action, reviewer);
+    if (!result) {
+      return NextResponse.json({ error: 'Extraction not found' }, { status: 404 });
+    }
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.record);
+
+  } catch (error) {
+    console.error("Error updating extraction:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update extraction' },
+      { status: 500 }
+    );
+  }
+}
+
+function isReviewAction(action: unknown): action is ReviewAction {
+  if (!action || typeof action !== 'object') return false;
+  const { type, quote } = action as { type?: unknown; quote?: unknown };
+  return type === 'edit' ? typeof quote === 'string' : type === 'accept' || type === 'reject' || type === 'reset';
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listExtractions } from "@/app/lib/history";
+
+export const runtime = 'nodejs';
+
+const MAX_LIST_LIMIT = 500;
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT)) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIST_LIMIT}` }, { status: 400 });
+    }
+
+    const extractions = await listExtractions({
+      search: searchParams.get('q') || undefined,
+      fileHash: searchParams.get('hash') || undefined,
+      templateId: searchParams.get('template') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ extractions });
+
+  } catch (error) {
+    console.error("Error listing extractions:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list extractions' },
+      { status: 500 }
+    );
+  }
+}
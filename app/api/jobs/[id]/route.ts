@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, resumeJobs, toJobView } from "@/app/lib/jobs";
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await resumeJobs();
+
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toJobView(job));
+
+  } catch (error) {
+    console.error("Error loading job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSupportedFile, MAX_FILE_SIZE, resolveFieldSelection } from "@/app/lib/pipeline";
+import { createJob, JobUpload, resumeJobs } from "@/app/lib/jobs";
+
+export const runtime = 'nodejs';
+
+const MAX_FILES_PER_JOB = 500;
+
+export async function POST(req: NextRequest) {
+  try {
+    await resumeJobs();
+
+    const formData = await req.formData();
+    const files = formData.getAll('files').filter((f): f is File => typeof f !== 'string');
+    const modelParam = formData.get('model') as string | null;
+    const fieldsParam = formData.get('fields') as string | null;
+    const templateParam = formData.get('template') as string | null;
+    const force = formData.get('force') === 'true';
+    const classify = formData.get('classify') !== 'false';
+    const retry = formData.get('retry') !== 'false';
+    const keyDates = formData.get('keyDates') !== 'false';
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    }
+
+    if (files.length > MAX_FILES_PER_JOB) {
+      return NextResponse.json(
+        { error: `A job can contain at most ${MAX_FILES_PER_JOB} files` },
+        { status: 400 }
+      );
+    }
+
+    const invalid = files.filter(f => !isSupportedFile(f.name) || f.size > MAX_FILE_SIZE);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Only PDF, DOCX and TXT files up to ${MAX_FILE_SIZE / 1024 / 1024}MB are supported: ${invalid.map(f => f.name).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const selection = await resolveFieldSelection(fieldsParam, templateParam);
+    if (selection.error !== undefined) {
+      return NextResponse.json({ error: selection.error }, { status: 400 });
+    }
+
+    const uploads: JobUpload[] = [];
+    for (const file of files) {
+      uploads.push({ fileName: file.name, buffer: Buffer.from(await file.arrayBuffer()) });
+    }
+
+    const job = await createJob(uploads, modelParam || "gpt-5", selection.fields, {
+      template: selection.template,
+      autoTemplate: selection.autoTemplate,
+      classify,
+      retry,
+      keyDates,
+      force,
+    });
+
+    return NextResponse.json({ id: job.id, status: job.status, fileCount: job.files.length }, { status: 202 });
+
+  } catch (error) {
+    console.error("Error creating job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create job' },
+      { status: 500 }
+    );
+  }
+}
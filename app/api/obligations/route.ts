@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getObligations } from "@/app/lib/portfolio";
+import { getExtraction } from "@/app/lib/history";
+import { listObligations, Obligation, obligationsToCSV, obligationsToICS } from "@/app/lib/key-dates";
+
+export const runtime = 'nodejs';
+
+const FORMATS = ["json", "csv", "ics"];
+
+/**
+ * Key dates and notice deadlines, for one run (`id`) or across the latest run
+ * of every stored contract, between `from` and `to` (YYYY-MM-DD, inclusive).
+ * `format=ics` returns a calendar feed and `format=csv` a spreadsheet.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+    const id = searchParams.get('id');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const format = searchParams.get('format') || 'json';
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return NextResponse.json({ error: `${name} must be a YYYY-MM-DD date` }, { status: 400 });
+      }
+    }
+
+    const range = { from: from || undefined, to: to || undefined };
+    let obligations: Obligation[];
+    if (id) {
+      const record = await getExtraction(id);
+      if (!record) {
+        return NextResponse.json({ error: 'Extraction not found' }, { status: 404 });
+      }
+      obligations = listObligations([record], range);
+    } else {
+      obligations = await getObligations(range);
+    }
+
+    if (format === 'json') {
+      return NextResponse.json({ obligations });
+    }
+
+    const fileName = `key-dates${id ? `-${id.substring(0, 8)}` : ''}.${format}`;
+    return new Response(format === 'ics' ? obligationsToICS(obligations) : obligationsToCSV(obligations), {
+      headers: {
+        'Content-Type': format === 'ics' ? 'text/calendar; charset=utf-8' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error listing obligations:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list obligations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getOpenAIClient } from "@/app/lib/openai";
+import { ExtractionProvider, getExtractionProvider } from "@/app/lib/provider";
+import { createUsageMeter } from "@/app/lib/usage";
+import { BudgetExceededError, createBudgetedProvider } from "@/app/lib/budget";
+import { UsageStats } from "@/app/lib/cost";
 import { parseDOCX } from "@/app/lib/docx";
 import * as XLSX from 'xlsx';
 
@@ -82,10 +85,8 @@ async function parseExcelFile(buffer: Buffer): Promise<KeyTermField[]> {
   }
 }
 
-async function parseWithLLM(text: string): Promise<KeyTermField[]> {
-  const client = getOpenAIClient();
-  
-  const response = await client.chat.completions.create({
+async function parseWithLLM(provider: ExtractionProvider, text: string): Promise<KeyTermField[]> {
+  const response = await provider.complete({
     model: "o3-mini",
     messages: [
       { role: "system", content: PARSE_SYSTEM_PROMPT },
@@ -94,12 +95,12 @@ async function parseWithLLM(text: string): Promise<KeyTermField[]> {
         content: `Parse this document and extract all key terms with their descriptions:\n\n${text}` 
       }
     ],
-    response_format: { type: "json_object" },
+    responseFormat: { type: "json_object" },
   });
   
-  const content = response.choices[0]?.message?.content;
+  const content = response.content;
   if (!content) {
-    throw new Error("No response from OpenAI");
+    throw new Error("No response from the model");
   }
   
   const parsed = JSON.parse(content);
@@ -155,6 +156,7 @@ export async function POST(req: NextRequest) {
     const buffer = Buffer.from(bytes);
     
     let fields: KeyTermField[] = [];
+    let usage: UsageStats | undefined;
     
     if (isExcel) {
       // Parse Excel directly
@@ -172,7 +174,10 @@ export async function POST(req: NextRequest) {
       }
       
       console.log(`Parsing text with LLM (${text.length} characters)...`);
-      fields = await parseWithLLM(text.substring(0, 50000)); // Limit to 50k chars
+      // Checked against the budgets and recorded in the spend ledger like extraction calls
+      const meter = createUsageMeter(createBudgetedProvider(getExtractionProvider(), { fileName: file.name, template: null, jobId: null }));
+      fields = await parseWithLLM(meter.provider, text.substring(0, 50000)); // Limit to 50k chars
+      usage = meter.usage();
       console.log(`Extracted ${fields.length} fields via LLM`);
     }
     
@@ -194,14 +199,15 @@ export async function POST(req: NextRequest) {
     
     return NextResponse.json({ 
       fields: validFields,
-      count: validFields.length 
+      count: validFields.length,
+      ...(usage ? { usage } : {}),
     });
     
   } catch (error) {
     console.error("Error parsing fields:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to parse key terms file' },
-      { status: 500 }
+      { status: error instanceof BudgetExceededError ? 429 : 500 }
     );
   }
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPlaybook, PlaybookInput, savePlaybook } from "@/app/lib/playbook-store";
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getPlaybook());
+
+  } catch (error) {
+    console.error("Error loading playbook:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load playbook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the playbook's rules; later extractions are checked against the new version
+ */
+export async function PUT(req: NextRequest) {
+  let input: PlaybookInput;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const result = await savePlaybook(input);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.playbook);
+
+  } catch (error) {
+    console.error("Error saving playbook:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save playbook' },
+      { status: 500 }
+    );
+  }
+}
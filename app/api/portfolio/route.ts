@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPortfolio, parseTermFilter, PORTFOLIO_SORT_KEYS, TermFilter } from "@/app/lib/portfolio";
+import { CONTRACT_TYPES, ContractType } from "@/app/lib/templates";
+import type { RiskLevel } from "@/app/lib/playbook";
+
+export const runtime = 'nodejs';
+
+const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high"];
+
+/**
+ * The latest run of every stored contract as a table, with per-field
+ * coverage. Repeat `where=field:op[:value]` to combine filters.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = req.nextUrl;
+
+    const type = searchParams.get('type');
+    if (type && !CONTRACT_TYPES.includes(type as ContractType)) {
+      return NextResponse.json({ error: `type must be one of: ${CONTRACT_TYPES.join(', ')}` }, { status: 400 });
+    }
+
+    const risk = searchParams.get('risk');
+    if (risk && !RISK_LEVELS.includes(risk as RiskLevel)) {
+      return NextResponse.json({ error: `risk must be one of: ${RISK_LEVELS.join(', ')}` }, { status: 400 });
+    }
+
+    const sort = searchParams.get('sort');
+    if (sort && !PORTFOLIO_SORT_KEYS.includes(sort) && !sort.startsWith('field:')) {
+      return NextResponse.json({ error: `sort must be one of: ${PORTFOLIO_SORT_KEYS.join(', ')}, or field:<name>` }, { status: 400 });
+    }
+
+    const order = searchParams.get('order');
+    if (order && order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: 'order must be asc or desc' }, { status: 400 });
+    }
+
+    const filters: TermFilter[] = [];
+    for (const where of searchParams.getAll('where')) {
+      const parsed = parseTermFilter(where);
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      filters.push(parsed.filter);
+    }
+
+    const portfolio = await getPortfolio({
+      search: searchParams.get('q') || undefined,
+      contractType: (type as ContractType) || undefined,
+      templateId: searchParams.get('template') || undefined,
+      risk: (risk as RiskLevel) || undefined,
+      filters,
+      sort: sort || undefined,
+      order: (order as "asc" | "desc") || undefined,
+      allRuns: searchParams.get('all') === 'true',
+    });
+
+    return NextResponse.json(portfolio);
+
+  } catch (error) {
+    console.error("Error building portfolio:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build portfolio' },
+      { status: 500 }
+    );
+  }
+}
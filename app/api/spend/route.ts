@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { summarizeSpend } from "@/app/lib/budget";
+
+export const runtime = 'nodejs';
+
+const MAX_DAYS = 366;
+
+/**
+ * Spend from the ledger over the last `days` days (default 30), by day,
+ * model and template, with the daily and monthly budget status
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const daysParam = req.nextUrl.searchParams.get('days');
+    const days = daysParam === null ? 30 : parseInt(daysParam, 10);
+
+    if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    return NextResponse.json(await summarizeSpend(days));
+
+  } catch (error) {
+    console.error("Error summarizing spend:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to summarize spend' },
+      { status: 500 }
+    );
+  }
+}
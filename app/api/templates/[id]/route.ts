@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteTemplate, getTemplate, TemplateInput, updateTemplate } from "@/app/lib/template-store";
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const template = await getTemplate(params.id);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+
+  } catch (error) {
+    console.error("Error loading template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Edit a template; new fields are saved as a new version
+ */
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  let input: TemplateInput;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const result = await updateTemplate(params.id, input);
+    if (!result) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.template);
+
+  } catch (error) {
+    console.error("Error updating template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await deleteTemplate(params.id);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (!result.deleted) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTemplate, listTemplates, TemplateInput } from "@/app/lib/template-store";
+import { CONTRACT_TYPES, ContractType } from "@/app/lib/templates";
+
+export const runtime = 'nodejs';
+
+export async function GET(req: NextRequest) {
+  try {
+    const type = req.nextUrl.searchParams.get('type');
+    if (type && !CONTRACT_TYPES.includes(type as ContractType)) {
+      return NextResponse.json({ error: `type must be one of: ${CONTRACT_TYPES.join(', ')}` }, { status: 400 });
+    }
+
+    const templates = await listTemplates((type as ContractType) || undefined);
+    return NextResponse.json({ templates });
+
+  } catch (error) {
+    console.error("Error listing templates:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let input: TemplateInput;
+  try {
+    input = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const result = await createTemplate(input);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result.template, { status: 201 });
+
+  } catch (error) {
+    console.error("Error creating template:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { ComparedTerm, comparisonToCSV, ContractComparison, FieldChange, FieldComparison, formatLocation } from "../lib/compare";
+
+const CHANGE_BADGES: Record<FieldChange, { label: string; className: string }> = {
+  unchanged: { label: "Unchanged", className: "bg-gray-100 text-gray-600" },
+  changed: { label: "Changed", className: "bg-yellow-100 text-yellow-800" },
+  added: { label: "Added", className: "bg-green-100 text-green-700" },
+  removed: { label: "Removed", className: "bg-red-100 text-red-700" },
+};
+
+type ComparisonViewProps = {
+  comparison: ContractComparison;
+};
+
+/**
+ * Key terms of an original and a revised document side by side, with the
+ * wording that changed marked up between them
+ */
+export default function ComparisonView({ comparison }: ComparisonViewProps) {
+  const { before, after, summary } = comparison;
+  const baseName = `${before.fileName.replace(/\.[^/.]+$/, "")}-vs-${after.fileName.replace(/\.[^/.]+$/, "")}`;
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${baseName}-comparison.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Changed terms first, in field order
+  const order: FieldChange[] = ["changed", "added", "removed", "unchanged"];
+  const fields = [...comparison.fields].sort((a, b) => order.indexOf(a.change) - order.indexOf(b.change));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Comparison</h2>
+          <p className="text-xs text-gray-500">
+            {summary.changed} changed · {summary.added} added · {summary.removed} removed · {summary.unchanged} unchanged
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => download(comparisonToCSV(comparison), "text/csv", "csv")}
+            className="px-3 py-1 text-sm bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => download(JSON.stringify(comparison, null, 2), "application/json", "json")}
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-xs font-medium text-gray-500">
+        <span className="truncate" title={before.fileName}>Original: {before.fileName}</span>
+        <span className="truncate" title={after.fileName}>Revised: {after.fileName}</span>
+      </div>
+
+      <div className="grid gap-4">
+        {fields.map(field => <ComparisonCard key={field.field} comparison={field} />)}
+      </div>
+    </div>
+  );
+}
+
+function ComparisonCard({ comparison }: { comparison: FieldComparison }) {
+  const badge = CHANGE_BADGES[comparison.change];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-900">{comparison.field}</h3>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded ${badge.className}`}>{badge.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <TermColumn term={comparison.before} />
+        <TermColumn term={comparison.after} />
+      </div>
+
+      {comparison.change === "changed" && (
+        <div className="p-2 bg-gray-50 rounded text-sm leading-relaxed whitespace-pre-wrap">
+          {comparison.diff.map((part, idx) => (
+            <span
+              key={idx}
+              className={
+                part.type === "insert" ? "bg-green-100 text-green-800"
+                : part.type === "delete" ? "bg-red-100 text-red-700 line-through"
+                : "text-gray-700"
+              }
+            >
+              {part.text}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TermColumn({ term }: { term: ComparedTerm }) {
+  if (term.quotes.length === 0) {
+    return <p className="text-sm text-gray-400 italic">Not found</p>;
+  }
+
+  return (
+    <div className="space-y-1 min-w-0">
+      {term.quotes.map((quote, idx) => (
+        <p key={idx} className="text-sm text-gray-700 break-words">&ldquo;{quote}&rdquo;</p>
+      ))}
+      {term.value && <p className="text-xs text-gray-600">Value: {term.value}</p>}
+      <p className="text-xs text-gray-400">{term.locations.map(formatLocation).join("; ")}</p>
+    </div>
+  );
+}
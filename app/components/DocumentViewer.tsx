@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Extraction } from "../lib/schema";
+import { buildHighlightedPages, FieldColor } from "../lib/highlight";
+
+type DocumentViewerProps = {
+  text: string;
+  pages: number[];
+  paginated: boolean; // false for DOCX, which has no reliable page breaks
+  extractions: Extraction[];
+  fieldColors: Map<string, FieldColor>;
+  activeField: string | null;
+  onSelectField: (field: string) => void;
+  pdfUrl?: string | null;
+};
+
+export default function DocumentViewer({
+  text,
+  pages,
+  paginated,
+  extractions,
+  fieldColors,
+  activeField,
+  onSelectField,
+  pdfUrl,
+}: DocumentViewerProps) {
+  const [view, setView] = useState<"text" | "pdf">("text");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const highlightedPages = useMemo(
+    () => buildHighlightedPages(text, pages, extractions),
+    [text, pages, extractions]
+  );
+
+  const activeExtraction = extractions.find(e => e.field === activeField) || null;
+
+  // Scroll the selected field's span into view within the viewer pane
+  useEffect(() => {
+    if (view !== "text" || !activeField || !containerRef.current) return;
+    const target = containerRef.current.querySelector(`[data-start="${activeExtraction?.start}"]`)
+      || containerRef.current.querySelector(`[data-fields~="${CSS.escape(fieldKey(activeField))}"]`);
+    target?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeField, activeExtraction, view]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 flex flex-col h-[75vh]">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-900">Document</h2>
+        {pdfUrl && (
+          <div className="flex gap-1 text-xs">
+            <button
+              onClick={() => setView("text")}
+              className={`px-2 py-1 rounded ${view === "text" ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"}`}
+            >
+              Highlighted text
+            </button>
+            <button
+              onClick={() => setView("pdf")}
+              className={`px-2 py-1 rounded ${view === "pdf" ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"}`}
+            >
+              Original PDF
+            </button>
+          </div>
+        )}
+      </div>
+
+      {view === "pdf" && pdfUrl ? (
+        // The browser's PDF viewer opens at the cited page of the selected field
+        <iframe
+          key={activeExtraction?.page ?? 1}
+          src={`${pdfUrl}#page=${activeExtraction?.page ?? 1}`}
+          className="flex-1 w-full rounded-b-lg"
+          title="Original PDF"
+        />
+      ) : (
+        <div ref={containerRef} className="flex-1 overflow-y-auto p-4 space-y-6">
+          {highlightedPages.map(page => (
+            <div key={page.page}>
+              {paginated && (
+                <div className="text-xs font-medium text-gray-400 border-b border-gray-100 mb-2 pb-1">
+                  Page {page.page}
+                </div>
+              )}
+              <p className="text-sm font-mono text-gray-800 whitespace-pre-wrap break-words">
+                {page.segments.map(segment => {
+                  const content = text.substring(segment.start, segment.end);
+                  if (segment.fields.length === 0) {
+                    return <span key={segment.start}>{content}</span>;
+                  }
+
+                  // The selected field wins where spans overlap
+                  const field = activeField && segment.fields.includes(activeField) ? activeField : segment.fields[0];
+                  const isActive = field === activeField;
+
+                  return (
+                    <mark
+                      key={segment.start}
+                      data-start={segment.start}
+                      data-fields={segment.fields.map(fieldKey).join(' ')}
+                      onClick={() => onSelectField(field)}
+                      title={segment.fields.join(', ')}
+                      className={`${fieldColors.get(field)?.mark ?? "bg-yellow-200"} cursor-pointer rounded-sm ${
+                        isActive ? "ring-2 ring-blue-500" : ""
+                      }`}
+                    >
+                      {content}
+                    </mark>
+                  );
+                })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Field names may contain spaces, which data-fields uses as a separator
+function fieldKey(field: string): string {
+  return encodeURIComponent(field);
+}
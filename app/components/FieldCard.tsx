@@ -1,6 +1,9 @@
 "use client";
 
 import { Extraction } from "../lib/schema";
+import { FieldColor } from "../lib/highlight";
+import { getReviewStatus, ReviewAction } from "../lib/review";
+import { formatNormalizedValue } from "../lib/normalize";
 import { useState } from "react";
 
 // Format field name for display (e.g., "sales_tax" -> "Sales Tax", "SLA Terms" -> "SLA Terms")
@@ -17,12 +20,56 @@ function formatFieldName(field: string): string {
     .join(' ');
 }
 
-export default function FieldCard({ extraction }: { extraction: Extraction }) {
+type FieldCardProps = {
+  extraction: Extraction;
+  color?: FieldColor; // Highlight color of this field in the document viewer
+  isActive?: boolean;
+  onSelect?: (field: string) => void;
+  onReview?: (action: ReviewAction) => string | null; // Returns an error message if the review was refused
+};
+
+const REVIEW_BADGES = {
+  pending: null,
+  accepted: { label: "Accepted", className: "bg-green-100 text-green-700" },
+  edited: { label: "Edited", className: "bg-purple-100 text-purple-700" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-700" },
+} as const;
+
+const VALIDATION_BADGES = {
+  exact: { label: "Verbatim", className: "bg-gray-100 text-gray-600", title: "Quote appears word for word in the document" },
+  whitespace: { label: "Normalized", className: "bg-sky-100 text-sky-700", title: "Quote matched after normalizing spacing, quotes and dashes" },
+  fuzzy: { label: "Auto-corrected", className: "bg-orange-100 text-orange-700", title: "Quote was not verbatim and was replaced with the closest source text" },
+  failed: { label: "Unverified", className: "bg-red-100 text-red-700", title: "The model's quote could not be found in the document" },
+} as const;
+
+export default function FieldCard({ extraction, color, isActive = false, onSelect, onReview }: FieldCardProps) {
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftQuote, setDraftQuote] = useState("");
+  const [reviewError, setReviewError] = useState<string | null>(null);
 
-  const handleCopy = () => {
+  const reviewStatus = getReviewStatus(extraction);
+  const reviewBadge = REVIEW_BADGES[reviewStatus];
+  const isRejected = reviewStatus === "rejected";
+  const original = extraction.review?.original;
+
+  const handleReview = (action: ReviewAction) => {
+    if (!onReview) return;
+    const error = onReview(action);
+    setReviewError(error);
+    if (!error) setIsEditing(false);
+  };
+
+  const startEditing = () => {
+    setDraftQuote(extraction.quote);
+    setReviewError(null);
+    setIsEditing(true);
+  };
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
     if (extraction.quote) {
-      navigator.clipboard.writeText(extraction.quote);
+      navigator.clipboard.writeText(extraction.values ? extraction.values.map(v => v.quote).join("\n\n") : extraction.quote);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -31,17 +78,30 @@ export default function FieldCard({ extraction }: { extraction: Extraction }) {
   const isFound = extraction.status === "found" && extraction.quote.trim().length > 0;
   const isInferred = extraction.status === "inferred";
   const hasReasoning = extraction.reasoning && extraction.reasoning.trim().length > 0;
+  const hasSpan = extraction.start !== null && extraction.end !== null;
+  const isSelectable = Boolean(onSelect) && hasSpan && (isFound || isInferred);
+  const values = extraction.values && extraction.values.length > 1 ? extraction.values : null;
+  // Reviewer edits are verified on save, so only the model's quotes get a badge
+  const validation = reviewStatus === "edited" ? undefined : extraction.validation;
+  const validationBadge = validation ? VALIDATION_BADGES[validation.method] : null;
 
   return (
     <div
+      onClick={isSelectable ? () => onSelect!(extraction.field) : undefined}
       className={`rounded-lg border p-4 ${
         isFound || isInferred
           ? "bg-white border-gray-200"
           : "bg-gray-50 border-gray-200"
+      } ${isSelectable ? "cursor-pointer hover:border-blue-300" : ""} ${
+        isActive ? "ring-2 ring-blue-500" : ""
       }`}
+      title={isSelectable ? "Show in document" : undefined}
     >
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-2">
+          {color && hasSpan && (isFound || isInferred) && (
+            <span className={`w-3 h-3 rounded-full ${color.dot}`} />
+          )}
           <h3 className="font-semibold text-gray-900">
             {formatFieldName(extraction.field)}
           </h3>
@@ -50,6 +110,18 @@ export default function FieldCard({ extraction }: { extraction: Extraction }) {
               Inferred
             </span>
           )}
+          {reviewBadge && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${reviewBadge.className}`}>
+              {reviewBadge.label}
+            </span>
+          )}
+          {validation && validationBadge && (
+            <span className={`text-xs px-2 py-0.5 rounded-full ${validationBadge.className}`} title={validationBadge.title}>
+              {validationBadge.label}
+              {validation.method === "fuzzy" && validation.similarity !== null && ` · ${Math.round(validation.similarity * 100)}% match`}
+              {validation.retried && " · on retry"}
+            </span>
+          )}
         </div>
         {(isFound || isInferred) && extraction.quote.trim().length > 0 && (
           <button
@@ -64,16 +136,68 @@ export default function FieldCard({ extraction }: { extraction: Extraction }) {
 
       {isFound || isInferred ? (
         <>
-          {extraction.quote.trim().length > 0 && (
+          {values ? (
+            <ol className="mb-3 space-y-2">
+              {values.map((value, idx) => (
+                <li key={`${value.start}-${idx}`} className="p-3 rounded border bg-gray-50 border-gray-200">
+                  <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                    <span>Occurrence {idx + 1} of {values.length}</span>
+                    {value.page !== null && <span>Page {value.page}</span>}
+                  </div>
+                  <p className={`text-sm font-mono whitespace-pre-wrap break-words ${
+                    isRejected ? "text-gray-400 line-through" : "text-gray-800"
+                  }`}>
+                    {value.quote}
+                  </p>
+                  {value.normalizedValue && !isRejected && (
+                    <span className="inline-block mt-2 px-2 py-0.5 rounded bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm font-medium">
+                      {formatNormalizedValue(value.normalizedValue)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : extraction.quote.trim().length > 0 && (
             <div className={`mb-3 p-3 rounded border ${
               isInferred ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-200'
             }`}>
-              <p className="text-sm font-mono text-gray-800 whitespace-pre-wrap break-words">
+              <p className={`text-sm font-mono whitespace-pre-wrap break-words ${
+                isRejected ? "text-gray-400 line-through" : "text-gray-800"
+              }`}>
                 {extraction.quote}
               </p>
             </div>
           )}
 
+          {extraction.normalizedValue && !values && !isRejected && (
+            <div className="mb-3 flex items-center gap-2 text-sm">
+              <span className="text-xs font-medium text-gray-500 uppercase">{extraction.normalizedValue.type}</span>
+              <span className="px-2 py-0.5 rounded bg-emerald-50 border border-emerald-200 text-emerald-800 font-medium">
+                {formatNormalizedValue(extraction.normalizedValue)}
+              </span>
+            </div>
+          )}
+
+          {validation?.correctedQuote && (
+            <details className="mb-3 text-xs text-gray-600" onClick={e => e.stopPropagation()}>
+              <summary className="cursor-pointer">
+                Model&apos;s quote{validation.confidenceAdjustment < 0 && ` (confidence ${Math.round(validation.confidenceAdjustment * 100)} pts)`}
+              </summary>
+              <p className="mt-1 p-2 bg-orange-50 rounded border border-orange-200 font-mono whitespace-pre-wrap break-words">
+                {validation.originalQuote}
+              </p>
+            </details>
+          )}
+
+          {reviewStatus === "edited" && original && original.quote !== extraction.quote && (
+            <details className="mb-3 text-xs text-gray-600" onClick={e => e.stopPropagation()}>
+              <summary className="cursor-pointer">Original model output</summary>
+              <p className="mt-1 p-2 bg-gray-50 rounded border border-gray-200 font-mono whitespace-pre-wrap break-words">
+                {original.quote || "(not found)"}
+              </p>
+            </details>
+          )}
+
           {hasReasoning && (
             <div className="mb-3 p-3 bg-blue-50 rounded border border-blue-200">
               <p className="text-xs font-medium text-blue-900 mb-1">💡 AI Reasoning:</p>
@@ -116,6 +240,11 @@ export default function FieldCard({ extraction }: { extraction: Extraction }) {
             </svg>
             <div className="flex-1">
               <p className="text-sm font-medium text-gray-700 mb-1">Not found in contract</p>
+              {validation?.method === "failed" && (
+                <p className="text-xs text-red-700 mb-1">
+                  The model quoted text that isn&apos;t in the document: <span className="font-mono">&ldquo;{validation.originalQuote}&rdquo;</span>
+                </p>
+              )}
               {hasReasoning && (
                 <p className="text-sm text-gray-600 whitespace-pre-wrap">
                   {extraction.reasoning}
@@ -125,6 +254,79 @@ export default function FieldCard({ extraction }: { extraction: Extraction }) {
           </div>
         </div>
       )}
+
+      {onReview && (
+        <div className="mt-3 pt-3 border-t border-gray-100" onClick={e => e.stopPropagation()}>
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draftQuote}
+                onChange={e => setDraftQuote(e.target.value)}
+                rows={4}
+                className="w-full text-sm font-mono p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Paste the exact clause from the contract"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleReview({ type: "edit", quote: draftQuote })}
+                  className="text-xs px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => { setIsEditing(false); setReviewError(null); }}
+                  className="text-xs px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex gap-2">
+                {(isFound || isInferred) && reviewStatus !== "accepted" && (
+                  <button
+                    onClick={() => handleReview({ type: "accept" })}
+                    className="text-xs px-2 py-1 rounded bg-green-100 hover:bg-green-200 text-green-700 transition-colors"
+                  >
+                    Accept
+                  </button>
+                )}
+                <button
+                  onClick={startEditing}
+                  className="text-xs px-2 py-1 rounded bg-purple-100 hover:bg-purple-200 text-purple-700 transition-colors"
+                >
+                  Edit
+                </button>
+                {(isFound || isInferred) && !isRejected && (
+                  <button
+                    onClick={() => handleReview({ type: "reject" })}
+                    className="text-xs px-2 py-1 rounded bg-red-100 hover:bg-red-200 text-red-700 transition-colors"
+                  >
+                    Reject
+                  </button>
+                )}
+                {reviewStatus !== "pending" && (
+                  <button
+                    onClick={() => handleReview({ type: "reset" })}
+                    className="text-xs px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors"
+                  >
+                    Undo
+                  </button>
+                )}
+              </div>
+              {extraction.review?.reviewedAt && (
+                <span className="text-xs text-gray-500">
+                  {extraction.review.reviewer || "Unknown reviewer"} · {new Date(extraction.review.reviewedAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+          )}
+          {reviewError && (
+            <p className="mt-2 text-xs text-red-600">{reviewError}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
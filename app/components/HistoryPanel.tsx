@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExtractionSummary } from "../lib/history";
+import Spinner from "./Spinner";
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function HistoryPanel({ onOpen }: { onOpen: (id: string) => void }) {
+  const [search, setSearch] = useState("");
+  const [extractions, setExtractions] = useState<ExtractionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (search.trim()) params.set("q", search.trim());
+
+        const response = await fetch(`/api/extractions?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load history");
+        }
+
+        setExtractions(data.extractions);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      } finally {
+        setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">History</h2>
+        {isLoading && <Spinner size="sm" />}
+      </div>
+
+      <input
+        type="search"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        placeholder="Search file names, fields and quotes"
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!isLoading && !error && extractions.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-8 text-center">
+          <p className="text-gray-500">
+            {search.trim() ? "No saved extractions match your search" : "No saved extractions yet"}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y">
+          {extractions.map(extraction => (
+            <button
+              key={extraction.id}
+              onClick={() => onOpen(extraction.id)}
+              className="w-full text-left p-4 hover:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <span className="font-medium text-gray-900 break-all">{extraction.fileName}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(extraction.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {extraction.foundCount} of {extraction.fieldCount} terms found · {extraction.model}
+                {extraction.template && ` · ${extraction.template.name} v${extraction.template.version}`}
+                {extraction.reviewedCount > 0 && ` · ${extraction.reviewedCount} reviewed`}
+                {` · $${extraction.estimatedUSD.toFixed(4)}`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
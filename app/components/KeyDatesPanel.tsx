@@ -0,0 +1,79 @@
+"use client";
+
+import type { KeyDateKind, KeyDates } from "../lib/key-dates";
+
+const KIND_LABELS: Record<KeyDateKind, string> = {
+  effective: "Effective",
+  term_end: "Term ends",
+  renewal: "Renewal",
+  notice_deadline: "Notice",
+  termination_deadline: "Termination",
+  obligation: "Obligation",
+};
+
+const KIND_STYLES: Record<KeyDateKind, string> = {
+  effective: "bg-gray-100 text-gray-700",
+  term_end: "bg-blue-100 text-blue-800",
+  renewal: "bg-blue-100 text-blue-800",
+  notice_deadline: "bg-red-100 text-red-800",
+  termination_deadline: "bg-yellow-100 text-yellow-800",
+  obligation: "bg-purple-100 text-purple-800",
+};
+
+type KeyDatesPanelProps = {
+  keyDates: KeyDates;
+  extractionId?: string; // Enables the calendar download once the run is saved
+};
+
+/**
+ * The contract's key dates and the deadlines counted back from them, with
+ * how each was worked out and the quotes it came from
+ */
+export default function KeyDatesPanel({ keyDates, extractionId }: KeyDatesPanelProps) {
+  const today = new Date().toISOString().substring(0, 10);
+
+  if (keyDates.dates.length === 0 && keyDates.notes.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Key dates</h3>
+        {extractionId && keyDates.dates.length > 0 && (
+          <div className="flex gap-3 text-xs">
+            <a href={`/api/obligations?id=${extractionId}&format=ics`} className="text-blue-600 hover:text-blue-800">
+              Add to calendar (.ics)
+            </a>
+            <a href={`/api/obligations?id=${extractionId}&format=csv`} className="text-blue-600 hover:text-blue-800">
+              CSV
+            </a>
+          </div>
+        )}
+      </div>
+
+      {keyDates.dates.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {keyDates.dates.map((date, index) => (
+            <li key={`${date.kind}-${index}`} className={`text-sm ${date.date < today ? "opacity-60" : ""}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-gray-900">{date.date}</span>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded ${KIND_STYLES[date.kind]}`}>
+                  {KIND_LABELS[date.kind]}
+                </span>
+                <span className="text-gray-700">{date.title}</span>
+              </div>
+              <span className="block text-xs text-gray-500" title={date.quotes.join("\n\n")}>
+                {date.basis}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {keyDates.notes.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-500">
+          {keyDates.notes.map(note => <li key={note}>{note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
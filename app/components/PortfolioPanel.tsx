@@ -0,0 +1,396 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FieldCoverage, Portfolio, PortfolioRow, TermFilter, TermFilterOp } from "../lib/portfolio";
+import type { Obligation } from "../lib/key-dates";
+import { CONTRACT_TYPE_LABELS, CONTRACT_TYPES } from "../lib/templates";
+import Spinner from "./Spinner";
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Field columns shown before the user picks any
+const DEFAULT_COLUMN_COUNT = 3;
+
+const OP_LABELS: Record<TermFilterOp, string> = {
+  found: "is found",
+  missing: "is missing",
+  contains: "contains",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+// How far ahead the deadlines list looks, in days
+const DEADLINE_WINDOWS = [30, 90, 365];
+
+const RISK_STYLES = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+} as const;
+
+/**
+ * Every stored contract in one table, for questions across the whole set
+ * ("which contracts auto-renew", "which pay later than Net 45")
+ */
+export default function PortfolioPanel({ onOpen }: { onOpen: (id: string) => void }) {
+  const [search, setSearch] = useState("");
+  const [contractType, setContractType] = useState("");
+  const [risk, setRisk] = useState("");
+  const [filters, setFilters] = useState<TermFilter[]>([]);
+  const [sort, setSort] = useState<{ key: string; order: "asc" | "desc" } | null>(null);
+  const [columns, setColumns] = useState<string[] | null>(null);
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [draftField, setDraftField] = useState("");
+  const [draftOp, setDraftOp] = useState<TermFilterOp>("found");
+  const [draftValue, setDraftValue] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams();
+        if (search.trim()) params.set("q", search.trim());
+        if (contractType) params.set("type", contractType);
+        if (risk) params.set("risk", risk);
+        filters.forEach(filter => params.append("where", [filter.field, filter.op, ...(filter.value ? [filter.value] : [])].join(":")));
+        if (sort) {
+          params.set("sort", sort.key);
+          params.set("order", sort.order);
+        }
+
+        const response = await fetch(`/api/portfolio?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load portfolio");
+        }
+
+        setPortfolio(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load portfolio");
+      } finally {
+        setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [search, contractType, risk, filters, sort]);
+
+  // Filtered fields are always shown so the matching values are visible
+  const chosen = columns ?? portfolio?.fields.slice(0, DEFAULT_COLUMN_COUNT) ?? [];
+  const visibleColumns = [...chosen, ...filters.map(f => f.field).filter(field => !chosen.includes(field))];
+
+  const needsValue = draftOp !== "found" && draftOp !== "missing";
+  const canAddFilter = draftField && (!needsValue || draftValue.trim());
+
+  const handleAddFilter = () => {
+    if (!canAddFilter) return;
+    setFilters([...filters, { field: draftField, op: draftOp, ...(needsValue ? { value: draftValue.trim() } : {}) }]);
+    setDraftValue("");
+  };
+
+  const toggleColumn = (field: string) => {
+    setColumns(chosen.includes(field) ? chosen.filter(c => c !== field) : [...chosen, field]);
+  };
+
+  const toggleSort = (key: string) => {
+    setSort(sort?.key === key ? { key, order: sort.order === "asc" ? "desc" : "asc" } : { key, order: "asc" });
+  };
+
+  const sortIndicator = (key: string) => sort?.key === key ? (sort.order === "asc" ? " ▲" : " ▼") : "";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Portfolio</h2>
+        <div className="flex items-center gap-2">
+          {isLoading && <Spinner size="sm" />}
+          {portfolio && (
+            <span className="text-sm text-gray-500">
+              {portfolio.rows.length} of {portfolio.contractCount} contract{portfolio.contractCount === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <input
+        type="search"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        placeholder="Search extracted quotes"
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={contractType}
+          onChange={e => setContractType(e.target.value)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="">All contract types</option>
+          {CONTRACT_TYPES.map(type => (
+            <option key={type} value={type}>{CONTRACT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value={risk}
+          onChange={e => setRisk(e.target.value)}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="">Any risk</option>
+          <option value="high">High risk</option>
+          <option value="medium">Medium risk</option>
+          <option value="low">Low risk</option>
+        </select>
+      </div>
+
+      {/* Conditions on individual terms, all of which must hold */}
+      <div className="bg-white rounded-lg border border-gray-200 p-3 space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={draftField}
+            onChange={e => setDraftField(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">Field...</option>
+            {portfolio?.fields.map(field => <option key={field} value={field}>{field}</option>)}
+          </select>
+          <select
+            value={draftOp}
+            onChange={e => setDraftOp(e.target.value as TermFilterOp)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            {(Object.keys(OP_LABELS) as TermFilterOp[]).map(op => <option key={op} value={op}>{OP_LABELS[op]}</option>)}
+          </select>
+          {needsValue && (
+            <input
+              type="text"
+              value={draftValue}
+              onChange={e => setDraftValue(e.target.value)}
+              onKeyDown={e => e.key === "Enter" && handleAddFilter()}
+              placeholder={draftOp === "contains" ? "text, or a|b" : "days, amount or %"}
+              className="w-32 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+          )}
+          <button
+            onClick={handleAddFilter}
+            disabled={!canAddFilter}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            Add filter
+          </button>
+        </div>
+        {filters.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {filters.map((filter, idx) => (
+              <span key={idx} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-50 text-blue-800 rounded">
+                {filter.field} {OP_LABELS[filter.op]} {filter.value}
+                <button onClick={() => setFilters(filters.filter((_, i) => i !== idx))} className="text-blue-500 hover:text-blue-800">
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {portfolio && portfolio.coverage.length > 0 && (
+        <CoverageTable coverage={portfolio.coverage} columns={visibleColumns} onToggleColumn={toggleColumn} />
+      )}
+
+      <UpcomingDeadlines onOpen={onOpen} />
+
+      {portfolio && !isLoading && portfolio.rows.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-8 text-center">
+          <p className="text-gray-500">
+            {portfolio.contractCount === 0 ? "No saved extractions yet" : "No contracts match these filters"}
+          </p>
+        </div>
+      ) : portfolio && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-600">
+              <tr>
+                <SortHeader label="File" onClick={() => toggleSort("fileName")} indicator={sortIndicator("fileName")} />
+                <SortHeader label="Type" onClick={() => toggleSort("contractType")} indicator={sortIndicator("contractType")} />
+                <SortHeader label="Risk" onClick={() => toggleSort("risk")} indicator={sortIndicator("risk")} />
+                {visibleColumns.map(field => (
+                  <SortHeader key={field} label={field} onClick={() => toggleSort(`field:${field}`)} indicator={sortIndicator(`field:${field}`)} />
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {portfolio.rows.map(row => (
+                <PortfolioTableRow key={row.id} row={row} columns={visibleColumns} onOpen={onOpen} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SortHeader({ label, onClick, indicator }: { label: string; onClick: () => void; indicator: string }) {
+  return (
+    <th className="px-3 py-2 text-left font-medium whitespace-nowrap">
+      <button onClick={onClick} className="hover:text-gray-900">{label}{indicator}</button>
+    </th>
+  );
+}
+
+function PortfolioTableRow({ row, columns, onOpen }: { row: PortfolioRow; columns: string[]; onOpen: (id: string) => void }) {
+  return (
+    <tr className="align-top">
+      <td className="px-3 py-2">
+        <button onClick={() => onOpen(row.id)} className="text-blue-600 hover:text-blue-800 text-left break-all">
+          {row.fileName}
+        </button>
+        {row.matches.slice(0, 2).map(match => (
+          <p key={match.field} className="text-xs text-gray-500 mt-1 line-clamp-2">
+            <span className="font-medium">{match.field}:</span> {match.quote}
+          </p>
+        ))}
+      </td>
+      <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+        {row.contractType ? CONTRACT_TYPE_LABELS[row.contractType] : "—"}
+      </td>
+      <td className="px-3 py-2">
+        {row.risk ? (
+          <span className={`px-2 py-0.5 text-xs font-medium rounded ${RISK_STYLES[row.risk]}`}>{row.risk}</span>
+        ) : "—"}
+      </td>
+      {columns.map(field => {
+        const term = Object.entries(row.terms).find(([name]) => name.toLowerCase() === field.toLowerCase())?.[1];
+        return (
+          <td key={field} className="px-3 py-2 text-gray-700 min-w-[10rem]">
+            {!term ? (
+              <span className="text-gray-300">n/a</span>
+            ) : term.status === "not_found" ? (
+              <span className="text-gray-400 italic">Not found</span>
+            ) : (
+              <span title={term.quote} className="line-clamp-3">
+                {term.value ?? term.quote}
+                {term.status === "inferred" && <span className="text-xs text-gray-400"> (inferred)</span>}
+              </span>
+            )}
+          </td>
+        );
+      })}
+    </tr>
+  );
+}
+
+function CoverageTable({ coverage, columns, onToggleColumn }: {
+  coverage: FieldCoverage[];
+  columns: string[];
+  onToggleColumn: (field: string) => void;
+}) {
+  const percent = (count: number, total: number) => total > 0 ? `${Math.round((count / total) * 100)}%` : "—";
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <h3 className="px-4 py-2 text-sm font-medium text-gray-700 border-b">Coverage</h3>
+      <table className="w-full text-sm">
+        <thead className="text-xs text-gray-500">
+          <tr>
+            <th className="px-4 py-1 text-left font-medium">Field</th>
+            <th className="px-4 py-1 text-right font-medium">Found</th>
+            <th className="px-4 py-1 text-right font-medium">Inferred</th>
+            <th className="px-4 py-1 text-right font-medium">Not found</th>
+            <th className="px-4 py-1 text-right font-medium">Column</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {coverage.map(field => (
+            <tr key={field.field}>
+              <td className="px-4 py-1 text-gray-900">{field.field}</td>
+              <td className="px-4 py-1 text-right text-gray-600">{percent(field.found, field.total)}</td>
+              <td className="px-4 py-1 text-right text-gray-600">{percent(field.inferred, field.total)}</td>
+              <td className="px-4 py-1 text-right text-gray-600">{percent(field.notFound, field.total)}</td>
+              <td className="px-4 py-1 text-right">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(field.field)}
+                  onChange={() => onToggleColumn(field.field)}
+                  className="rounded border-gray-300"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Key dates across the portfolio from today to the end of the chosen
+ * window, with the same range as a calendar feed or spreadsheet
+ */
+function UpcomingDeadlines({ onOpen }: { onOpen: (id: string) => void }) {
+  const [days, setDays] = useState(DEADLINE_WINDOWS[1]);
+  const [obligations, setObligations] = useState<Obligation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = new Date().toISOString().substring(0, 10);
+  const to = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+  const range = `from=${from}&to=${to}`;
+
+  useEffect(() => {
+    fetch(`/api/obligations?${range}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load deadlines");
+        setObligations(data.obligations);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load deadlines"));
+  }, [range]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <div className="px-4 py-2 flex items-center justify-between border-b">
+        <h3 className="text-sm font-medium text-gray-700">Upcoming deadlines</h3>
+        <div className="flex items-center gap-3 text-xs">
+          <select value={days} onChange={e => setDays(parseInt(e.target.value))} className="px-1 py-0.5 border border-gray-300 rounded">
+            {DEADLINE_WINDOWS.map(window => <option key={window} value={window}>Next {window} days</option>)}
+          </select>
+          <a href={`/api/obligations?${range}&format=ics`} className="text-blue-600 hover:text-blue-800">.ics</a>
+          <a href={`/api/obligations?${range}&format=csv`} className="text-blue-600 hover:text-blue-800">CSV</a>
+          <a href={`/api/obligations?${range}`} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800">JSON</a>
+        </div>
+      </div>
+
+      {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+      {obligations && obligations.length === 0 && (
+        <p className="px-4 py-2 text-sm text-gray-500">No key dates in the next {days} days</p>
+      )}
+      {obligations && obligations.length > 0 && (
+        <table className="w-full text-sm">
+          <tbody className="divide-y">
+            {obligations.map((obligation, index) => (
+              <tr key={`${obligation.extractionId}-${obligation.kind}-${index}`}>
+                <td className="px-4 py-1 font-mono text-gray-900 whitespace-nowrap">{obligation.date}</td>
+                <td className="px-4 py-1">
+                  <button onClick={() => onOpen(obligation.extractionId)} className="text-blue-600 hover:text-blue-800 text-left break-all">
+                    {obligation.fileName}
+                  </button>
+                </td>
+                <td className="px-4 py-1 text-gray-700" title={obligation.basis}>{obligation.title}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
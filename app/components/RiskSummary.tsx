@@ -0,0 +1,68 @@
+"use client";
+
+import type { ComplianceFinding, ComplianceReport, RiskLevel } from "../lib/playbook";
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+const FINDING_STYLES: Record<ComplianceFinding["status"], string> = {
+  pass: "text-green-700",
+  warn: "text-yellow-700",
+  fail: "text-red-700",
+};
+
+type RiskSummaryProps = {
+  report: ComplianceReport;
+  onSelectField?: (field: string) => void;
+};
+
+/**
+ * How the extracted terms compare with the playbook: the overall risk, then
+ * every finding that needs attention with the standard it was held to
+ */
+export default function RiskSummary({ report, onSelectField }: RiskSummaryProps) {
+  const { summary } = report;
+  const issues = report.findings
+    .filter(f => f.status !== "pass")
+    .sort((a, b) => (a.status === b.status ? 0 : a.status === "fail" ? -1 : 1));
+
+  if (report.findings.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-gray-900">Playbook compliance</h3>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded ${RISK_STYLES[summary.risk]}`}>
+            {summary.risk} risk
+          </span>
+        </div>
+        <p className="text-xs text-gray-500" title={`${report.playbook.name} v${report.playbook.version}`}>
+          {summary.pass} pass · {summary.warn} warn · {summary.fail} fail
+        </p>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {issues.map(finding => (
+            <li key={finding.ruleId} className="text-sm">
+              <button
+                onClick={() => onSelectField?.(finding.field)}
+                disabled={!onSelectField}
+                className="text-left w-full"
+              >
+                <span className={`font-medium uppercase text-xs mr-2 ${FINDING_STYLES[finding.status]}`}>{finding.status}</span>
+                <span className="font-medium text-gray-900">{finding.field}</span>
+                <span className="text-gray-600">: {finding.explanation}</span>
+                <span className="block text-xs text-gray-500">Standard: {finding.standard}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
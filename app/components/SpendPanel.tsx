@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { BudgetStatus, SpendBucket, SpendSummary } from "../lib/budget";
+import { formatCost } from "../lib/cost";
+import Spinner from "./Spinner";
+
+const PERIODS = [7, 30, 90];
+
+export default function SpendPanel() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<SpendSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/spend?days=${days}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load spend");
+        }
+
+        setSummary(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load spend");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [days]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Spend</h2>
+        <div className="flex items-center gap-2">
+          {isLoading && <Spinner size="sm" />}
+          <select
+            value={days}
+            onChange={e => setDays(parseInt(e.target.value, 10))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+          >
+            {PERIODS.map(period => (
+              <option key={period} value={period}>Last {period} days</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <BudgetCard label="Today" status={summary.today} />
+            <BudgetCard label="This month" status={summary.month} />
+          </div>
+
+          <p className="text-sm text-gray-600">
+            {formatCost(summary.total.estimatedUSD)} across {summary.total.calls.toLocaleString()} model call{summary.total.calls === 1 ? "" : "s"} from {summary.from} to {summary.to}
+            {summary.limits.perRequestUSD !== null && ` · $${summary.limits.perRequestUSD.toFixed(2)} per document`}
+            {summary.limits.perBatchUSD !== null && ` · $${summary.limits.perBatchUSD.toFixed(2)} per batch`}
+          </p>
+
+          <SpendTable title="By day" buckets={summary.byDay} />
+          <SpendTable title="By model" buckets={summary.byModel} />
+          <SpendTable title="By template" buckets={summary.byTemplate} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function BudgetCard({ label, status }: { label: string; status: BudgetStatus }) {
+  const used = status.limitUSD ? Math.min(1, status.spentUSD / status.limitUSD) : 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-xl font-semibold text-gray-900">{formatCost(status.spentUSD)}</p>
+      {status.limitUSD !== null ? (
+        <>
+          <div className="mt-2 h-2 bg-gray-100 rounded">
+            <div
+              className={`h-2 rounded ${used >= 0.9 ? "bg-red-500" : used >= 0.7 ? "bg-yellow-500" : "bg-green-500"}`}
+              style={{ width: `${used * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            of ${status.limitUSD.toFixed(2)} · {formatCost(status.remainingUSD ?? 0)} left
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500 mt-1">No limit set</p>
+      )}
+    </div>
+  );
+}
+
+function SpendTable({ title, buckets }: { title: string; buckets: SpendBucket[] }) {
+  if (buckets.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200">
+      <h3 className="px-4 py-2 text-sm font-medium text-gray-700 border-b">{title}</h3>
+      <table className="w-full text-sm">
+        <tbody className="divide-y">
+          {buckets.map(bucket => (
+            <tr key={bucket.key}>
+              <td className="px-4 py-2 text-gray-900 break-all">{bucket.key}</td>
+              <td className="px-4 py-2 text-gray-500 text-right whitespace-nowrap">
+                {bucket.calls.toLocaleString()} call{bucket.calls === 1 ? "" : "s"}
+              </td>
+              <td className="px-4 py-2 text-gray-500 text-right whitespace-nowrap">
+                {(bucket.inputTokens + bucket.outputTokens).toLocaleString()} tokens
+              </td>
+              <td className="px-4 py-2 text-gray-900 text-right whitespace-nowrap">{formatCost(bucket.estimatedUSD)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
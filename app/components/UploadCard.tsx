@@ -1,45 +1,31 @@
 "use client";
 
-import { useState, useRef, DragEvent } from "react";
+import { useEffect, useState, useRef, DragEvent } from "react";
 import Spinner from "./Spinner";
-import { formatCost } from "../lib/cost";
-
-type KeyTermField = {
-  name: string;
-  description: string;
-};
+import { formatCost, UsageStats } from "../lib/cost";
+import type { BatchEstimate } from "../lib/estimate";
+import { FIELD_TYPES, FieldType, KeyTermField } from "../lib/schema";
+import { AUTO_TEMPLATE, CONTRACT_TYPE_LABELS, DEFAULT_FIELDS, DEFAULT_TEMPLATE_ID, formatTemplateRef, TemplateSummary } from "../lib/templates";
 
+// templateRef ("id@version") is set when the fields are an unmodified saved template
 type UploadCardProps = {
-  onExtract: (file: File, model: string, customFields?: KeyTermField[]) => Promise<void>;
-  onBulkExtract: (files: File[], model: string, customFields?: KeyTermField[]) => Promise<void>;
+  onExtract: (file: File, model: string, customFields?: KeyTermField[], force?: boolean, templateRef?: string) => Promise<void>;
+  onBulkExtract: (files: File[], model: string, customFields?: KeyTermField[], force?: boolean, templateRef?: string) => Promise<void>;
+  onCompare: (before: File, after: File, model: string, customFields?: KeyTermField[], force?: boolean, templateRef?: string) => Promise<void>;
   isProcessing: boolean;
   fileName?: string;
   pageCount?: number | null;
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-    totalTokens: number;
-    estimatedUSD: number;
-  };
+  usage?: UsageStats;
   logs: string[];
 };
 
 // Always use GPT-5 - no model selection needed
 const DEFAULT_MODEL = "gpt-5";
 
-const DEFAULT_FIELDS: KeyTermField[] = [
-  { name: "Sales tax", description: "Any clauses about tax responsibilities, exemptions, or obligations" },
-  { name: "Shipping", description: "Delivery terms, shipping responsibilities, freight costs" },
-  { name: "Cancellation policy", description: "Termination clauses, cancellation procedures, notice periods" },
-  { name: "Renewal terms", description: "Auto-renewal clauses, renewal processes, term extensions" },
-  { name: "Discounts", description: "Price reductions, promotional terms, volume discounts" },
-  { name: "Ramp up", description: "Implementation schedules, onboarding timelines, phase-in periods" },
-  { name: "Payment", description: "Payment terms, schedules, amounts, invoicing procedures" },
-];
-
 export default function UploadCard({
   onExtract,
   onBulkExtract,
+  onCompare,
   isProcessing,
   fileName,
   pageCount,
@@ -51,12 +37,122 @@ export default function UploadCard({
   const [customFields, setCustomFields] = useState<KeyTermField[]>(DEFAULT_FIELDS);
   const [newFieldName, setNewFieldName] = useState("");
   const [newFieldDescription, setNewFieldDescription] = useState("");
+  const [newFieldType, setNewFieldType] = useState<FieldType>("text");
+  const [newFieldOptions, setNewFieldOptions] = useState("");
+  const [newFieldMultiple, setNewFieldMultiple] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [isParsingFields, setIsParsingFields] = useState(false);
   const [fieldsFileName, setFieldsFileName] = useState<string | null>(null);
+  const [forceRerun, setForceRerun] = useState(false);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [baseTemplate, setBaseTemplate] = useState<TemplateSummary | null>(null);
+  const [fieldsModified, setFieldsModified] = useState(false);
+  const [autoTemplate, setAutoTemplate] = useState(false);
+  const [newTemplateName, setNewTemplateName] = useState("");
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [estimate, setEstimate] = useState<BatchEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const fieldsFileInputRef = useRef<HTMLInputElement>(null);
 
+  const loadTemplates = async (): Promise<TemplateSummary[]> => {
+    try {
+      const response = await fetch("/api/templates");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load templates");
+      setTemplates(data.templates);
+      return data.templates;
+    } catch (err) {
+      console.error("Failed to load templates:", err);
+      return [];
+    }
+  };
+
+  // Start from the latest version of the default template
+  useEffect(() => {
+    loadTemplates().then(loaded => {
+      const defaults = loaded.find(t => t.id === DEFAULT_TEMPLATE_ID);
+      if (defaults) selectTemplate(defaults);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectTemplate = (template: TemplateSummary) => {
+    setAutoTemplate(false);
+    setBaseTemplate(template);
+    setCustomFields(template.fields);
+    setFieldsModified(false);
+  };
+
+  // Any manual change detaches the fields from the saved template version
+  const editFields = (fields: KeyTermField[]) => {
+    setAutoTemplate(false);
+    setCustomFields(fields);
+    setFieldsModified(true);
+  };
+
+  const saveTemplate = async (asNewVersion: boolean) => {
+    setIsSavingTemplate(true);
+    try {
+      const response = asNewVersion && baseTemplate
+        ? await fetch(`/api/templates/${baseTemplate.id}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ fields: customFields }),
+          })
+        : await fetch("/api/templates", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name: newTemplateName.trim(), contractType: baseTemplate?.contractType, fields: customFields }),
+          });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save template");
+
+      const saved = (await loadTemplates()).find(t => t.id === data.id);
+      if (saved) selectTemplate(saved);
+      setNewTemplateName("");
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : "Failed to save template"}`);
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const templateRef = autoTemplate
+    ? AUTO_TEMPLATE
+    : baseTemplate && !fieldsModified
+    ? formatTemplateRef({ id: baseTemplate.id, version: baseTemplate.latestVersion })
+    : undefined;
+
+  // A projection is only good for the files and fields it was made with
+  useEffect(() => {
+    setEstimate(null);
+  }, [selectedFiles, customFields, templateRef, forceRerun]);
+
+  const handleEstimate = async () => {
+    setIsEstimating(true);
+    try {
+      const formData = new FormData();
+      selectedFiles.forEach(file => formData.append("files", file));
+      formData.append("model", DEFAULT_MODEL);
+      if (forceRerun) formData.append("force", "true");
+      if (templateRef) {
+        formData.append("template", templateRef);
+      } else {
+        formData.append("fields", JSON.stringify(customFields));
+      }
+
+      const response = await fetch("/api/estimate", { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to estimate cost");
+      setEstimate(data);
+    } catch (err) {
+      alert(`Error: ${err instanceof Error ? err.message : "Failed to estimate cost"}`);
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
@@ -74,13 +170,14 @@ export default function UploadCard({
     const validFiles = files.filter(file => 
       file.type === "application/pdf" || file.name.endsWith(".pdf") ||
       file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-      file.name.endsWith(".docx")
+      file.name.endsWith(".docx") ||
+      file.type === "text/plain" || file.name.endsWith(".txt")
     );
 
     if (validFiles.length > 0) {
       setSelectedFiles(validFiles);
     } else {
-      alert("Please upload PDF or DOCX files");
+      alert("Please upload PDF, DOCX or TXT files");
     }
   };
 
@@ -98,29 +195,51 @@ export default function UploadCard({
     }
 
     if (selectedFiles.length === 1) {
-      await onExtract(selectedFiles[0], DEFAULT_MODEL, customFields);
+      await onExtract(selectedFiles[0], DEFAULT_MODEL, customFields, forceRerun, templateRef);
     } else {
-      await onBulkExtract(selectedFiles, DEFAULT_MODEL, customFields);
+      await onBulkExtract(selectedFiles, DEFAULT_MODEL, customFields, forceRerun, templateRef);
     }
   };
 
+  // The first selected file is treated as the original, the second as the revision
+  const handleCompare = async () => {
+    if (selectedFiles.length !== 2) return;
+    await onCompare(selectedFiles[0], selectedFiles[1], DEFAULT_MODEL, customFields, forceRerun, templateRef);
+  };
+
+  // Enum fields need at least one option
+  const newFieldOptionList = newFieldOptions.split(',').map(o => o.trim()).filter(Boolean);
+  const canAddField = newFieldName.trim().length > 0 && (newFieldType !== "enum" || newFieldOptionList.length > 0);
+
   const handleAddField = () => {
-    if (newFieldName.trim()) {
-      setCustomFields([...customFields, { 
+    if (canAddField) {
+      editFields([...customFields, { 
         name: newFieldName.trim(), 
-        description: newFieldDescription.trim() || "Extract relevant information about this term"
+        description: newFieldDescription.trim() || "Extract relevant information about this term",
+        ...(newFieldType !== "text" ? { type: newFieldType } : {}),
+        ...(newFieldType === "enum" ? { options: newFieldOptionList } : {}),
+        ...(newFieldMultiple ? { multiple: true } : {}),
       }]);
       setNewFieldName("");
       setNewFieldDescription("");
+      setNewFieldType("text");
+      setNewFieldOptions("");
+      setNewFieldMultiple(false);
     }
   };
 
   const handleRemoveField = (index: number) => {
-    setCustomFields(customFields.filter((_, i) => i !== index));
+    editFields(customFields.filter((_, i) => i !== index));
   };
 
   const handleResetFields = () => {
-    setCustomFields(DEFAULT_FIELDS);
+    const defaults = templates.find(t => t.id === DEFAULT_TEMPLATE_ID);
+    if (defaults) {
+      selectTemplate(defaults);
+    } else {
+      setBaseTemplate(null);
+      editFields(DEFAULT_FIELDS);
+    }
   };
 
   const handleClear = () => {
@@ -158,7 +277,7 @@ export default function UploadCard({
       const data = await response.json();
       
       if (data.fields && data.fields.length > 0) {
-        setCustomFields(data.fields);
+        editFields(data.fields);
         alert(`✓ Successfully loaded ${data.fields.length} key terms from ${file.name}`);
       } else {
         throw new Error('No fields found in the file');
@@ -193,7 +312,7 @@ export default function UploadCard({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".pdf,.docx"
+          accept=".pdf,.docx,.txt"
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -239,7 +358,7 @@ export default function UploadCard({
               </label>
               {" "}or drag and drop
             </p>
-            <p className="text-sm text-gray-500">PDF or DOCX up to 20MB each</p>
+            <p className="text-sm text-gray-500">PDF, DOCX or TXT up to 20MB each</p>
             <p className="text-xs text-gray-400">Select multiple files for bulk processing</p>
           </div>
         )}
@@ -322,6 +441,71 @@ export default function UploadCard({
             </details>
           </div>
 
+          {/* Templates */}
+          <div className="p-4 bg-white rounded-lg border border-gray-200 space-y-3">
+            <label htmlFor="template-select" className="block text-sm font-medium text-gray-700">
+              Template
+            </label>
+            <select
+              id="template-select"
+              value={autoTemplate ? AUTO_TEMPLATE : baseTemplate?.id ?? ""}
+              onChange={(e) => {
+                if (e.target.value === AUTO_TEMPLATE) {
+                  setAutoTemplate(true);
+                  return;
+                }
+                const template = templates.find(t => t.id === e.target.value);
+                if (template) selectTemplate(template);
+              }}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {!baseTemplate && <option value="">Custom fields</option>}
+              <option value={AUTO_TEMPLATE}>Auto-detect from contract type</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({CONTRACT_TYPE_LABELS[template.contractType]}, v{template.latestVersion})
+                </option>
+              ))}
+            </select>
+            {autoTemplate && (
+              <p className="text-xs text-gray-600">
+                Each document is classified first and extracted with the template for its type (NDA, MSA, SOW, order form); unrecognized documents use the default fields.
+              </p>
+            )}
+            {!autoTemplate && baseTemplate && fieldsModified && (
+              <p className="text-xs text-amber-700">
+                Fields changed from {baseTemplate.name} v{baseTemplate.latestVersion}; save them to keep a versioned record.
+              </p>
+            )}
+            {fieldsModified && (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newTemplateName}
+                  onChange={(e) => setNewTemplateName(e.target.value)}
+                  placeholder="New template name"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  onClick={() => saveTemplate(false)}
+                  disabled={isSavingTemplate || !newTemplateName.trim()}
+                  className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  Save as new
+                </button>
+                {baseTemplate && (
+                  <button
+                    onClick={() => saveTemplate(true)}
+                    disabled={isSavingTemplate}
+                    className="px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Save as v{baseTemplate.latestVersion + 1}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Custom Fields */}
           <div>
             <div className="flex items-center justify-between mb-3">
@@ -341,7 +525,19 @@ export default function UploadCard({
               {customFields.map((field, index) => (
                 <div key={index} className="bg-white p-3 rounded border border-gray-200">
                   <div className="flex items-start justify-between gap-2 mb-1">
-                    <span className="font-medium text-sm text-gray-900">{field.name}</span>
+                    <span className="font-medium text-sm text-gray-900">
+                      {field.name}
+                      {field.type && field.type !== "text" && (
+                        <span className="ml-2 text-xs font-normal px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                          {field.type}{field.options ? `: ${field.options.join(' / ')}` : ''}
+                        </span>
+                      )}
+                      {field.multiple && (
+                        <span className="ml-2 text-xs font-normal px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                          multiple
+                        </span>
+                      )}
+                    </span>
                     <button
                       onClick={() => handleRemoveField(index)}
                       className="text-red-500 hover:text-red-700 flex-shrink-0"
@@ -374,9 +570,39 @@ export default function UploadCard({
                 rows={2}
                 className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
               />
+              <div className="flex gap-2">
+                <select
+                  value={newFieldType}
+                  onChange={(e) => setNewFieldType(e.target.value as FieldType)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  title="Typed fields also return a normalized value"
+                >
+                  {FIELD_TYPES.map(type => (
+                    <option key={type} value={type}>{type === "text" ? "Free text" : type}</option>
+                  ))}
+                </select>
+                {newFieldType === "enum" && (
+                  <input
+                    type="text"
+                    value={newFieldOptions}
+                    onChange={(e) => setNewFieldOptions(e.target.value)}
+                    placeholder="Options, comma separated"
+                    className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={newFieldMultiple}
+                  onChange={(e) => setNewFieldMultiple(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Multiple values (return every occurrence, e.g. each payment milestone)
+              </label>
               <button
                 onClick={handleAddField}
-                disabled={!newFieldName.trim()}
+                disabled={!canAddField}
                 className="w-full px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
               >
                 Add Key Term
@@ -386,6 +612,51 @@ export default function UploadCard({
         </div>
       )}
 
+      {/* Previously extracted files are served from the cache unless forced */}
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={forceRerun}
+          onChange={e => setForceRerun(e.target.checked)}
+          disabled={isProcessing}
+          className="rounded border-gray-300"
+        />
+        Re-extract files already processed with these fields (ignore cached results)
+      </label>
+
+      {/* Projected cost, before committing to a bulk run */}
+      {selectedFiles.length > 0 && (
+        <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600">Projected cost:</span>
+            {estimate ? (
+              <span className="font-medium text-gray-900">
+                {formatCost(estimate.total.estimatedUSD)}
+                <span className="text-gray-500 font-normal">
+                  {` · ~${(estimate.total.inputTokens + estimate.total.outputTokens).toLocaleString()} tokens in ${estimate.total.calls} call${estimate.total.calls === 1 ? '' : 's'}`}
+                </span>
+              </span>
+            ) : (
+              <button
+                onClick={handleEstimate}
+                disabled={isEstimating || isProcessing}
+                className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                {isEstimating ? "Estimating..." : "Estimate"}
+              </button>
+            )}
+          </div>
+          {estimate && estimate.total.cachedFiles > 0 && (
+            <div className="text-xs text-gray-500">
+              {estimate.total.cachedFiles} file{estimate.total.cachedFiles === 1 ? '' : 's'} already extracted with these fields (no charge)
+            </div>
+          )}
+          {estimate?.notes.map((note, idx) => (
+            <div key={idx} className="text-xs text-gray-500">{note}</div>
+          ))}
+        </div>
+      )}
+
       {/* Extract Button */}
       <button
         onClick={handleExtract}
@@ -408,6 +679,18 @@ export default function UploadCard({
         )}
       </button>
 
+      {/* Two drafts of the same contract can be compared term by term */}
+      {selectedFiles.length === 2 && (
+        <button
+          onClick={handleCompare}
+          disabled={isProcessing}
+          className="w-full py-2 px-4 rounded-md text-sm font-medium border border-blue-600 text-blue-600 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed"
+          title={`${selectedFiles[0].name} is the original, ${selectedFiles[1].name} the revision`}
+        >
+          Compare {selectedFiles[1].name} against {selectedFiles[0].name}
+        </button>
+      )}
+
       {/* File Info */}
       {fileName && (
         <div className="p-4 bg-gray-50 rounded-lg space-y-2 text-sm">
@@ -435,6 +718,14 @@ export default function UploadCard({
                   {formatCost(usage.estimatedUSD)}
                 </span>
               </div>
+              {usage.byModel && usage.byModel.length > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Model Calls:</span>
+                  <span className="font-medium text-gray-900">
+                    {usage.byModel.map(m => `${m.model} × ${m.calls}`).join(', ')}
+                  </span>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -444,7 +735,7 @@ export default function UploadCard({
       {logs.length > 0 && (
         <div className="p-4 bg-gray-900 rounded-lg">
           <h3 className="text-sm font-medium text-gray-300 mb-2">Progress</h3>
-          <div className="space-y-1 max-h-32 overflow-y-auto">
+          <div className="space-y-1 max-h-48 overflow-y-auto">
             {logs.map((log, idx) => (
               <div key={idx} className="text-xs text-gray-400 font-mono">
                 {log}
@@ -0,0 +1,29 @@
+import { ApiResponse, Extraction } from '../schema';
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+/**
+ * A found extraction of `quote` on page 1, or a not_found one when the quote
+ * is empty
+ */
+export function extraction(field: string, quote: string, overrides: Partial<Extraction> = {}): Extraction {
+  return quote
+    ? { field, status: 'found', quote, reasoning: '', page: 1, start: 0, end: quote.length, confidence: 0.9, ...overrides }
+    : { field, status: 'not_found', quote: '', reasoning: '', page: null, start: null, end: null, confidence: 0, ...overrides };
+}
+
+/**
+ * A single-run response with no usage
+ */
+export function response(fileName: string, extractions: Extraction[], overrides: Partial<ApiResponse> = {}): ApiResponse {
+  return {
+    fileName,
+    pageCount: 3,
+    model: 'gpt-5',
+    extractions,
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedUSD: 0 },
+    ...overrides,
+  };
+}
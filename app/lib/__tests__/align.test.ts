@@ -0,0 +1,77 @@
+import { adjustConfidence, alignQuote, normalizeForAlignment } from '../align';
+import { Extraction, validateExtraction } from '../schema';
+
+const contract = 'Section 4.2 Renewal.\nThis Agreement shall “automatically renew” for successive twelve (12) month periods unless either party gives written notice of non-\nrenewal at least sixty (60) days prior to the end of the then–current term.\n\n' +
+  'Section 5 Payment. Payment terms are Net 30 from invoice date. The Licensee shall pay all undisputed invoices by wire transfer to the account designated by the Licensor in writing.';
+
+describe('normalizeForAlignment', () => {
+  test('should fold typography and map every character back to the original', () => {
+    const normalized = normalizeForAlignment('The “ﬁnal”  term—non-\nrenewal');
+
+    expect(normalized.text).toBe('the "final" term-nonrenewal');
+    expect(normalized.offsets).toHaveLength(normalized.text.length);
+    expect(normalized.offsets[normalized.text.indexOf('renewal')]).toBe('The “ﬁnal”  term—non-\n'.length);
+  });
+});
+
+describe('alignQuote', () => {
+  test('should match straight quotes, plain dashes and unhyphenated words', () => {
+    const quote = 'This Agreement shall "automatically renew" for successive twelve (12) month periods unless either party gives written notice of nonrenewal at least sixty (60) days prior to the end of the then-current term.';
+    const alignment = alignQuote(quote, contract)!;
+
+    expect(alignment.method).toBe('whitespace');
+    expect(alignment.text).toBe(contract.substring(contract.indexOf('This Agreement'), contract.indexOf('term.') + 5));
+  });
+
+  test('should find a long quote with a paraphrased word by edit distance', () => {
+    const alignment = alignQuote('The Licensee shall pay all undisputed invoices via wire transfer to the account designated by the Licensor in writing.', contract)!;
+
+    expect(alignment.method).toBe('fuzzy');
+    expect(alignment.text).toBe('The Licensee shall pay all undisputed invoices by wire transfer to the account designated by the Licensor in writing.');
+    expect(alignment.similarity).toBeGreaterThan(0.95);
+  });
+
+  test('should span the omitted text of an ellipsis quote', () => {
+    const alignment = alignQuote('Payment terms are Net 30 … designated by the Licensor in writing.', contract)!;
+
+    expect(alignment.start).toBe(contract.indexOf('Payment terms'));
+    expect(alignment.end).toBe(contract.length);
+  });
+
+  test('should find a fuzzy match in a long document by its distinctive words', () => {
+    const filler = Array.from({ length: 400 }, (_, i) => `Clause ${i + 1}. Each party shall comply with the terms of this Agreement and applicable law.`).join('\n\n');
+    const long = `${filler}\n\n${contract}\n\n${filler}`;
+    const alignment = alignQuote('The Licensee shall pay all undisputed invoices via wire transfer to the account designated by the Licensor in writing.', long)!;
+
+    expect(alignment.method).toBe('fuzzy');
+    expect(alignment.text).toBe('The Licensee shall pay all undisputed invoices by wire transfer to the account designated by the Licensor in writing.');
+    expect(alignQuote('Licensor may audit the Licensee once per calendar year on thirty days notice.', long)).toBeNull();
+  });
+
+  test('should not fuzzy match short quotes or unrelated text', () => {
+    expect(alignQuote('Net 60 from invoice date', contract)).toBeNull();
+    expect(alignQuote('Licensor may audit the Licensee once per calendar year on thirty days notice.', contract)).toBeNull();
+  });
+});
+
+describe('validateExtraction alignment', () => {
+  test('should correct the quote and scale confidence by similarity', () => {
+    const extraction: Extraction = {
+      field: 'Payment',
+      status: 'found',
+      quote: 'The Licensee shall pay all undisputed invoices via wire transfer to the account designated by the Licensor in writing.',
+      reasoning: '',
+      page: null,
+      start: null,
+      end: null,
+      confidence: 0.9,
+    };
+    const result = validateExtraction(extraction, contract);
+    const alignment = alignQuote(extraction.quote, contract)!;
+
+    expect(result.status).toBe('found');
+    expect(contract.substring(result.start!, result.end!)).toBe(result.quote);
+    expect(result.confidence).toBeCloseTo(adjustConfidence(0.9, alignment));
+    expect(result.confidence).toBeLessThan(0.9);
+  });
+});
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BudgetExceededError, BudgetLimits, createBudgetedProvider, estimateCallCost, readLedger, summarizeSpend } from '../budget';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { CompletionRequest, ExtractionProvider } from '../provider';
+
+const NO_LIMITS: BudgetLimits = { perRequestUSD: null, perBatchUSD: null, perDayUSD: null, perMonthUSD: null };
+
+// Each call uses 1M input and 100k output tokens: $2.25 at gpt-5 rates
+function fixedUsageProvider(calls: string[]): ExtractionProvider {
+  return {
+    name: 'fixed',
+    async complete(request) {
+      calls.push(request.model);
+      return { content: '{}', model: request.model, inputTokens: 1_000_000, outputTokens: 100_000 };
+    },
+  };
+}
+
+const request: CompletionRequest = {
+  model: 'gpt-5',
+  messages: [{ role: 'user', content: 'Classify this contract' }],
+  responseFormat: { type: 'json_object' },
+};
+
+describe('budgets', () => {
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-test-'));
+  });
+
+  test('should record every call in the ledger and summarize spend by model and template', async () => {
+    const calls: string[] = [];
+    const provider = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'a.pdf', template: 'nda@1', jobId: null }, NO_LIMITS);
+
+    await provider.complete(request);
+    await provider.complete({ ...request, model: 'gpt-4o' });
+
+    const entries = await readLedger(new Date().toISOString().substring(0, 7));
+    const summary = await summarizeSpend(7);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ fileName: 'a.pdf', template: 'nda@1', model: 'gpt-5', estimatedUSD: 2.25 });
+    expect(summary.total.calls).toBe(2);
+    expect(summary.today.spentUSD).toBeCloseTo(2.25 + 3.5);
+    expect(summary.byModel.map(b => b.key)).toEqual(['gpt-4o', 'gpt-5']);
+    expect(summary.byTemplate).toEqual([{ key: 'nda@1', calls: 2, inputTokens: 2_000_000, outputTokens: 200_000, estimatedUSD: 5.75 }]);
+  });
+
+  test('should refuse a call that would take the day past its limit without calling the model', async () => {
+    const calls: string[] = [];
+    // Room for one $2.25 call, but not the next call's estimate on top
+    const limits = { ...NO_LIMITS, perDayUSD: 2.26 };
+    const first = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'a.pdf', template: null, jobId: null }, limits);
+    const second = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'b.pdf', template: null, jobId: null }, limits);
+
+    await first.complete(request);
+    const error = await second.complete(request).catch(e => e);
+
+    expect(error instanceof BudgetExceededError).toBe(true);
+    expect(error.period).toBe('day');
+    expect(calls).toHaveLength(1);
+  });
+
+  test('should only count a batch limit against calls from the same job', async () => {
+    const calls: string[] = [];
+    const limits = { ...NO_LIMITS, perBatchUSD: 2.26 };
+    const jobA = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'a.pdf', template: null, jobId: 'job-a' }, limits);
+    const jobB = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'b.pdf', template: null, jobId: 'job-b' }, limits);
+
+    await jobA.complete(request);
+    await jobB.complete(request);
+    const error = await jobA.complete(request).catch(e => e);
+
+    expect(error.period).toBe('batch');
+    expect(calls).toHaveLength(2);
+  });
+
+  test('should count concurrent calls in flight against the per-request limit', async () => {
+    const calls: string[] = [];
+    // Room for one call's estimate, but not two at once
+    const limits = { ...NO_LIMITS, perRequestUSD: estimateCallCost(request) * 1.5 };
+    const provider = createBudgetedProvider(fixedUsageProvider(calls), { fileName: 'a.pdf', template: null, jobId: null }, limits);
+
+    const results = await Promise.all([provider.complete(request), provider.complete(request)].map(p => p.catch(e => e)));
+
+    expect(results.filter(r => r instanceof BudgetExceededError).map(r => r.period)).toEqual(['request']);
+    expect(calls).toHaveLength(1);
+  });
+
+  test('should count a job\'s spend from earlier months against its batch limit', async () => {
+    const calls: string[] = [];
+    const now = new Date();
+    const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 15)).toISOString();
+    fs.mkdirSync(path.join(process.env.DATA_DIR!, 'ledger'), { recursive: true });
+    fs.writeFileSync(path.join(process.env.DATA_DIR!, 'ledger', `${lastMonth.substring(0, 7)}.json`), JSON.stringify([{
+      id: 'earlier', at: lastMonth, fileName: 'a.pdf', template: null, jobId: 'job-a', model: 'gpt-5',
+      inputTokens: 1_000_000, outputTokens: 100_000, cachedInputTokens: 0, reasoningTokens: 0, estimatedUSD: 2.25,
+    }]));
+
+    const limits = { ...NO_LIMITS, perBatchUSD: 2.26 };
+    const scope = { fileName: 'b.pdf', template: null, jobId: 'job-a', jobCreatedAt: lastMonth };
+    const error = await createBudgetedProvider(fixedUsageProvider(calls), scope, limits).complete(request).catch(e => e);
+
+    expect(error.period).toBe('batch');
+    expect(error.spentUSD).toBe(2.25);
+    expect(calls).toHaveLength(0);
+  });
+
+  test('should neither check nor record calls to offline providers', async () => {
+    process.env.BUDGET_PER_REQUEST_USD = '0';
+    const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+    const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+
+    const result = await runExtractionPipeline({ fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: null }, provider);
+    delete process.env.BUDGET_PER_REQUEST_USD;
+
+    expect(result.extractions).toHaveLength(7);
+    expect(await readLedger(new Date().toISOString().substring(0, 7))).toEqual([]);
+  });
+
+  test('should fail an extraction that would exceed the per-request budget', async () => {
+    process.env.BUDGET_PER_REQUEST_USD = '0.0001';
+    const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+    // Mock answers are free, so present them as a live provider
+    const mock = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+    const provider: ExtractionProvider = { name: 'live', complete: request => mock.complete(request) };
+
+    const error = await runExtractionPipeline({ fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: null }, provider).catch(e => e);
+    delete process.env.BUDGET_PER_REQUEST_USD;
+
+    expect(error instanceof BudgetExceededError).toBe(true);
+    expect(error.period).toBe('request');
+  });
+});
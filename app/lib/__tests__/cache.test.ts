@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getCacheKey } from '../cache';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { PipelineEvent } from '../events';
+
+describe('result cache', () => {
+  const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+  const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+  const fields = [{ name: 'Payment', description: 'Payment terms' }];
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+  });
+
+  test('should normalize whitespace but not field order', () => {
+    const a = [{ name: 'Payment', description: 'Payment  terms ' }, { name: 'Shipping', description: 'Freight' }];
+    const b = [{ name: ' Payment', description: 'Payment terms' }, { name: 'Shipping', description: 'Freight' }];
+
+    expect(getCacheKey('hash', a, 'gpt-5')).toBe(getCacheKey('hash', b, 'gpt-5'));
+    expect(getCacheKey('hash', a, 'gpt-5')).not.toBe(getCacheKey('hash', [...a].reverse(), 'gpt-5'));
+    expect(getCacheKey('hash', a, 'gpt-5')).not.toBe(getCacheKey('hash', a, 'gpt-4o'));
+  });
+
+  test('should key on field type, options and multiplicity', () => {
+    const key = getCacheKey('hash', fields, 'gpt-5');
+
+    expect(getCacheKey('hash', [{ ...fields[0], type: 'text' }], 'gpt-5')).toBe(key);
+    expect(getCacheKey('hash', [{ ...fields[0], type: 'duration' }], 'gpt-5')).not.toBe(key);
+    expect(getCacheKey('hash', [{ ...fields[0], type: 'enum', options: ['Net 30'] }], 'gpt-5'))
+      .not.toBe(getCacheKey('hash', [{ ...fields[0], type: 'enum', options: ['Net 60'] }], 'gpt-5'));
+    expect(getCacheKey('hash', [{ ...fields[0], multiple: true }], 'gpt-5')).not.toBe(key);
+  });
+
+  test('should not serve a run that skipped a pass to a request that wants it', async () => {
+    const request = { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields };
+    const partial = await runExtractionPipeline({ ...request, keyDates: false }, provider);
+    const full = await runExtractionPipeline(request, provider);
+
+    expect(full.id).not.toBe(partial.id);
+    expect(full.keyDates).toBeDefined();
+    expect(getCacheKey('hash', fields, 'gpt-5', { retry: true, keyDates: true })).toBe(getCacheKey('hash', fields, 'gpt-5'));
+    expect(getCacheKey('hash', fields, 'gpt-5', { retry: false })).not.toBe(getCacheKey('hash', fields, 'gpt-5'));
+  });
+
+  test('should serve a repeat upload from the cache unless forced', async () => {
+    const request = { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields };
+    const first = await runExtractionPipeline(request, provider);
+
+    const events: PipelineEvent[] = [];
+    const second = await runExtractionPipeline({ ...request, fileName: 'copy.txt' }, provider, event => events.push(event));
+
+    expect(second.id).toBe(first.id);
+    expect(second.fileName).toBe('copy.txt');
+    expect(second.extractions).toEqual(first.extractions);
+    expect(second.usage.totalTokens).toBe(0);
+    expect(second.notes![0]).toMatch(/^Cached result from/);
+    expect(events.map(e => e.type)).toEqual(['cache_hit', 'document']);
+
+    const forced = await runExtractionPipeline({ ...request, force: true }, provider);
+
+    expect(forced.id).not.toBe(first.id);
+    expect(forced.usage.totalTokens).toBeGreaterThan(0);
+  });
+});
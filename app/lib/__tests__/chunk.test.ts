@@ -0,0 +1,134 @@
+import { chunkDocument, pageForOffset } from '../chunk';
+import { mergeChunkExtractions } from '../merge';
+import { extractFieldsChunked } from '../extract';
+import { createMockProvider } from '../mock-provider';
+import { ExtractionProvider } from '../provider';
+import { Extraction } from '../schema';
+
+describe('chunkDocument', () => {
+  const pageText = (n: number) => `Page ${n} text. `.repeat(10) + '\n';
+  const pagesText = [1, 2, 3, 4].map(pageText);
+  const text = pagesText.join('');
+  const pages = [0];
+  pagesText.forEach(p => pages.push(pages[pages.length - 1] + p.length));
+
+  test('should keep a short document in one chunk', () => {
+    const chunks = chunkDocument({ text, pages }, 10000, 0);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe(text);
+    expect(chunks[0].startPage).toBe(1);
+    expect(chunks[0].endPage).toBe(4);
+  });
+
+  test('should split on page boundaries', () => {
+    const chunks = chunkDocument({ text, pages }, pagesText[0].length * 2, 0);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[1].start).toBe(pages[2]);
+    expect(chunks[1].startPage).toBe(3);
+    expect(chunks.map(c => c.text).join('')).toBe(text);
+  });
+
+  test('should overlap consecutive chunks', () => {
+    const chunks = chunkDocument({ text, pages }, pagesText[0].length * 2, 20);
+
+    expect(chunks[1].start).toBe(pages[2] - 20);
+    expect(text.substring(chunks[1].start, chunks[1].end)).toBe(chunks[1].text);
+  });
+
+  test('should split a single oversized page', () => {
+    const longText = 'a'.repeat(250);
+    const chunks = chunkDocument({ text: longText, pages: [0, 250] }, 100, 0);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.every(c => c.text.length <= 100)).toBe(true);
+  });
+});
+
+describe('pageForOffset', () => {
+  test('should map offsets to 1-based pages', () => {
+    const pages = [0, 100, 200, 300];
+
+    expect(pageForOffset(pages, 0, 300)).toBe(1);
+    expect(pageForOffset(pages, 99, 300)).toBe(1);
+    expect(pageForOffset(pages, 100, 300)).toBe(2);
+    expect(pageForOffset(pages, 250, 300)).toBe(3);
+  });
+});
+
+describe('mergeChunkExtractions', () => {
+  const text = 'Intro clause. Payment is due in 30 days. Filler text here. Renewal is automatic.';
+  const split = text.indexOf('Filler');
+  const chunks = [
+    { index: 0, text: text.substring(0, split), start: 0, end: split, startPage: 1, endPage: 1 },
+    { index: 1, text: text.substring(split), start: split, end: text.length, startPage: 2, endPage: 2 },
+  ];
+
+  const extraction = (field: string, status: Extraction['status'], quote: string, confidence: number): Extraction => ({
+    field,
+    status,
+    quote,
+    reasoning: '',
+    page: 1,
+    start: 0,
+    end: 0,
+    confidence,
+  });
+
+  test('should pick the found candidate and rebase its offsets', () => {
+    const merged = mergeChunkExtractions(
+      [
+        { chunk: chunks[0], extractions: [extraction('Renewal', 'not_found', '', 0)] },
+        { chunk: chunks[1], extractions: [extraction('Renewal', 'found', 'Renewal is automatic.', 0.9)] },
+      ],
+      ['Renewal'],
+      text.length,
+      [0, split]
+    );
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].status).toBe('found');
+    expect(merged[0].start).toBe(text.indexOf('Renewal'));
+    expect(text.substring(merged[0].start!, merged[0].end!)).toBe('Renewal is automatic.');
+    expect(merged[0].page).toBe(2);
+  });
+
+  test('should return not_found for fields no chunk returned', () => {
+    const merged = mergeChunkExtractions(
+      [{ chunk: chunks[0], extractions: [extraction('Payment', 'found', 'Payment is due in 30 days.', 0.8)] }],
+      ['Payment', 'Discounts'],
+      text.length,
+      null
+    );
+
+    expect(merged.map(e => e.field)).toEqual(['Payment', 'Discounts']);
+    expect(merged[0].page).toBeNull();
+    expect(merged[1].status).toBe('not_found');
+  });
+});
+
+describe('extractFieldsChunked', () => {
+  test('should settle the GPT-5 fallback on the first chunk before the rest run concurrently', async () => {
+    const text = 'Payment terms are Net 30 from invoice date. '.repeat(20);
+    const chunks = chunkDocument({ text, pages: [0] }, 200, 0);
+    const mock = createMockProvider();
+    const models: string[] = [];
+    const provider: ExtractionProvider = {
+      name: 'fallback',
+      async complete(request) {
+        models.push(request.model);
+        if (request.model === 'gpt-5') throw new Error('The model gpt-5 does not exist');
+        return mock.complete(request);
+      },
+    };
+
+    const run = await extractFieldsChunked(provider, 'gpt-5', [{ name: 'Payment', description: 'Payment terms' }], chunks, text.length, null);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(models).toEqual(['gpt-5', ...chunks.map(() => 'gpt-4o')]);
+    expect(run.model).toBe('gpt-4o');
+    expect(run.usedFallback).toBe(true);
+  });
+});
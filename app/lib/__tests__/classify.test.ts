@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { canSelectTemplate, classifyContract } from '../classify';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider } from '../mock-provider';
+import { ExtractionProvider } from '../provider';
+
+const nda = 'MUTUAL NON-DISCLOSURE AGREEMENT\n\nThis Agreement is effective as of 2025-03-01. ' +
+  'The Receiving Party shall hold Confidential Information in confidence for three (3) years.';
+
+describe('classifyContract', () => {
+  test('should return the type, confidence and rationale', async () => {
+    const { classification } = await classifyContract(createMockProvider({ extractions: {} }), 'gpt-5', nda);
+
+    expect(classification!.contractType).toBe('nda');
+    expect(classification!.confidence).toBe(0.9);
+    expect(classification!.rationale).toMatch(/non-disclosure/);
+  });
+
+  test('should return null instead of throwing when the model fails', async () => {
+    const failing: ExtractionProvider = {
+      name: 'failing',
+      complete: async () => { throw new Error('model unavailable'); },
+    };
+
+    const run = await classifyContract(failing, 'gpt-5', nda);
+    expect(run.classification).toBeNull();
+    expect(run.inputTokens).toBe(0);
+  });
+
+  test('should only select a template for a confident, specific type', () => {
+    expect(canSelectTemplate({ contractType: 'nda', confidence: 0.9, rationale: '' })).toBe(true);
+    expect(canSelectTemplate({ contractType: 'nda', confidence: 0.4, rationale: '' })).toBe(false);
+    expect(canSelectTemplate({ contractType: 'other', confidence: 1, rationale: '' })).toBe(false);
+    expect(canSelectTemplate(null)).toBe(false);
+  });
+});
+
+describe('automatic template selection', () => {
+  const provider = createMockProvider({
+    extractions: {
+      'Confidentiality period': { quote: 'three (3) years', normalizedValue: '3 years' },
+    },
+  });
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'classify-test-'));
+  });
+
+  test('should extract with the template for the detected type', async () => {
+    const result = await runExtractionPipeline(
+      { fileName: 'nda.txt', buffer: Buffer.from(nda), model: 'gpt-5', fields: null, autoTemplate: true },
+      provider
+    );
+
+    expect(result.classification!.contractType).toBe('nda');
+    expect(result.template).toEqual({ id: 'nda', name: 'Non-disclosure agreement', version: 1 });
+    expect(result.extractions.find(e => e.field === 'Confidentiality period')!.status).toBe('found');
+    expect(result.notes).toContain('Used the Non-disclosure agreement template (v1) for this NDA');
+  });
+
+  test('should fall back to the default fields when no type matches', async () => {
+    const result = await runExtractionPipeline(
+      { fileName: 'letter.txt', buffer: Buffer.from('A short letter about lunch plans.'), model: 'gpt-5', fields: null, autoTemplate: true },
+      provider
+    );
+
+    expect(result.classification!.contractType).toBe('other');
+    expect(result.template).toBeUndefined();
+    expect(result.extractions).toHaveLength(7);
+  });
+});
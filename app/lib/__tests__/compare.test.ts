@@ -0,0 +1,66 @@
+import { compareResults, comparisonToCSV, diffWords } from '../compare';
+import { extraction, response } from '../__fixtures__/results';
+
+describe('contract comparison', () => {
+  test('should classify each field as unchanged, changed, added or removed', () => {
+    const comparison = compareResults(
+      response('v1.pdf', [
+        extraction('Payment', 'Invoices are due Net 30.'),
+        extraction('Shipping', 'Shipping is FOB origin.'),
+        extraction('Discounts', ''),
+        extraction('Sales tax', 'Customer pays all sales tax.'),
+      ]),
+      response('v2.pdf', [
+        extraction('Payment', 'Invoices are due Net 60.', { page: 2 }),
+        extraction('Shipping', 'Shipping is  FOB   origin.'),
+        extraction('Discounts', 'A 10% discount applies to annual prepayment.'),
+        extraction('Sales tax', ''),
+      ])
+    );
+
+    expect(comparison.fields.map(f => [f.field, f.change])).toEqual([
+      ['Payment', 'changed'],
+      ['Shipping', 'unchanged'],
+      ['Discounts', 'added'],
+      ['Sales tax', 'removed'],
+    ]);
+    expect(comparison.summary).toEqual({ unchanged: 1, changed: 1, added: 1, removed: 1 });
+    expect(comparison.fields[0].after.locations).toEqual([{ page: 2, start: 0, end: 24 }]);
+  });
+
+  test('should treat a rejected extraction as not found and compare typed values', () => {
+    const comparison = compareResults(
+      response('v1.pdf', [
+        extraction('Payment', 'Payment within thirty days.', { normalizedValue: { type: 'duration', amount: 30, unit: 'days' } }),
+        extraction('Shipping', 'Shipping is FOB origin.'),
+      ]),
+      response('v2.pdf', [
+        extraction('Payment', 'Payment within thirty days.', { normalizedValue: { type: 'duration', amount: 30, unit: 'days', businessDays: true } }),
+        extraction('Shipping', 'Shipping is FOB origin.', { review: { status: 'rejected', reviewer: null, reviewedAt: null } }),
+      ])
+    );
+
+    expect(comparison.fields.map(f => f.change)).toEqual(['changed', 'removed']);
+  });
+
+  test('should diff quotes word by word', () => {
+    expect(diffWords('Invoices are due Net 30 days.', 'Invoices are due Net 60 days.')).toEqual([
+      { type: 'equal', text: 'Invoices are due Net ' },
+      { type: 'delete', text: '30 ' },
+      { type: 'insert', text: '60 ' },
+      { type: 'equal', text: 'days.' },
+    ]);
+    expect(diffWords('', 'New clause')).toEqual([{ type: 'insert', text: 'New clause' }]);
+  });
+
+  test('should export one CSV row per field with both quotes and locations', () => {
+    const comparison = compareResults(
+      response('v1.pdf', [extraction('Payment', 'Due "Net 30".')]),
+      response('v2.pdf', [extraction('Payment', 'Due Net 45.')])
+    );
+    const lines = comparisonToCSV(comparison).split('\n');
+
+    expect(lines[0]).toContain('"Original (v1.pdf)"');
+    expect(lines[1]).toBe('"Payment","changed","Due ""Net 30"".","","p. 1, chars 0–13","Due Net 45.","","p. 1, chars 0–11"');
+  });
+});
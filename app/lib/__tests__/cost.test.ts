@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { calculateCost, getModelPricing } from '../cost';
+import { createUsageMeter } from '../usage';
+import { estimateExtractionCost } from '../estimate';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { ExtractionProvider } from '../provider';
+
+describe('pricing registry', () => {
+  test('should price cached input and reasoning tokens at their own rates', () => {
+    process.env.MODEL_PRICING_OVERRIDES = JSON.stringify({
+      'test-model': { input: 2, cachedInput: 1, output: 10, reasoning: 20 },
+    });
+
+    // 1M input with half cached, 1M output with a quarter reasoning
+    const cost = calculateCost('test-model', 1_000_000, 1_000_000, { cachedInputTokens: 500_000, reasoningTokens: 250_000 });
+
+    delete process.env.MODEL_PRICING_OVERRIDES;
+
+    expect(cost).toBeCloseTo(0.5 * 2 + 0.5 * 1 + 0.75 * 10 + 0.25 * 20);
+  });
+
+  test('should match dated model names by prefix and price unknown models at the default', () => {
+    expect(getModelPricing('gpt-4o-2024-08-06')).toEqual(getModelPricing('gpt-4o'));
+    expect(getModelPricing('gpt-4o-mini-2024-07-18')).toEqual(getModelPricing('gpt-4o-mini'));
+    expect(getModelPricing('some-new-model')).toEqual(getModelPricing('gpt-5'));
+  });
+});
+
+describe('usage meter', () => {
+  test('should sum every call made during a run by the model that answered', async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-test-'));
+    const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+    const mock = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+    // gpt-5 is unavailable, so the extraction falls back to gpt-4o
+    const provider: ExtractionProvider = {
+      name: 'fallback',
+      async complete(request) {
+        if (request.model === 'gpt-5' && request.responseFormat.type === 'json_schema' && request.responseFormat.json_schema.name === 'ContractKeyTerms') {
+          throw new Error('The model gpt-5 does not exist');
+        }
+        return mock.complete(request);
+      },
+    };
+
+    const result = await runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: [{ name: 'Payment', description: 'Payment terms' }], retry: false },
+      provider
+    );
+
+    expect(result.usage.calls).toBe(3); // Classification, extraction and key dates
+    expect(result.usage.byModel!.map(m => m.model).sort()).toEqual(['gpt-4o', 'gpt-5']);
+    expect(result.usage.estimatedUSD).toBeCloseTo(result.usage.byModel!.reduce((sum, m) => sum + m.estimatedUSD, 0));
+  });
+
+  test('should not count failed calls', async () => {
+    const meter = createUsageMeter({
+      name: 'failing',
+      async complete() { throw new Error('rate limited'); },
+    });
+
+    await meter.provider.complete({ model: 'gpt-5', messages: [], responseFormat: { type: 'json_object' } }).catch(() => null);
+
+    expect(meter.usage()).toMatchObject({ calls: 0, totalTokens: 0, estimatedUSD: 0 });
+  });
+});
+
+describe('estimateExtractionCost', () => {
+  const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+  const fields = [{ name: 'Payment', description: 'Payment terms' }];
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'estimate-test-'));
+  });
+
+  test('should project the calls and input tokens of a run', async () => {
+    const estimate = await estimateExtractionCost({ fileName: 'sample-contract.txt', buffer, model: 'gpt-4o', fields });
+
+    expect(estimate.cached).toBe(false);
+    expect(estimate.calls).toBe(3); // Classification, one extraction and key dates
+    expect(estimate.inputTokens).toBeGreaterThan(buffer.length / 4);
+    expect(estimate.reasoningTokens).toBe(0);
+    expect(estimate.estimatedUSD).toBeCloseTo(calculateCost('gpt-4o', estimate.inputTokens, estimate.outputTokens));
+  });
+
+  test('should charge nothing for a file the cache would answer', async () => {
+    const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+    await runExtractionPipeline({ fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields }, provider);
+
+    const estimate = await estimateExtractionCost({ fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields });
+
+    expect(estimate).toMatchObject({ cached: true, calls: 0, estimatedUSD: 0 });
+  });
+});
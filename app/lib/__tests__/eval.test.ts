@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { calibrate, compareReports, getEvalProvider, loadEvalCases, runEval, scoreField, summarizeScores } from '../eval';
+import { createRecordingProvider, createReplayProvider } from '../recorded-provider';
+import { createMockProvider } from '../mock-provider';
+import { extraction } from '../__fixtures__/results';
+
+const text = 'Payment terms are Net 30 from invoice date. Late fees apply.';
+
+describe('scoreField', () => {
+  const field = { name: 'Payment', description: 'Payment terms', type: 'duration' as const };
+  const expected = { status: 'found' as const, quote: 'Payment terms are Net 30 from invoice date.', normalizedValue: '30 days' };
+
+  test('should score an exact quote, span and value', () => {
+    const score = scoreField(field, expected, extraction('Payment', 'Payment terms are Net 30 from invoice date.', {
+      normalizedValue: { type: 'duration', amount: 30, unit: 'days' },
+    }), text);
+
+    expect(score.statusCorrect).toBe(true);
+    expect(score.exactMatch).toBe(true);
+    expect(score.offsetExact).toBe(true);
+    expect(score.offsetIoU).toBe(1);
+    expect(score.valueCorrect).toBe(true);
+  });
+
+  test('should count a partial quote as a fuzzy match with partial overlap', () => {
+    const score = scoreField(field, expected, extraction('Payment', 'Payment terms are Net 30'), text);
+
+    expect(score.exactMatch).toBe(false);
+    expect(score.fuzzyMatch).toBe(true);
+    expect(score.offsetExact).toBe(false);
+    expect(score.offsetIoU).toBeCloseTo(24 / 43);
+    expect(score.valueCorrect).toBe(false);
+  });
+
+  test('should mark a missed field as a false negative', () => {
+    const score = scoreField(field, expected, extraction('Payment', ''), text);
+    const metrics = summarizeScores([score]);
+
+    expect(score.statusCorrect).toBe(false);
+    expect(score.similarity).toBeNull();
+    expect(metrics.falseNegatives).toBe(1);
+    expect(metrics.recall).toBe(0);
+    expect(metrics.precision).toBeNull();
+  });
+});
+
+describe('calibrate', () => {
+  test('should bin confidence against correctness', () => {
+    const base = { field: 'x', expectedStatus: 'found' as const, actualStatus: 'found' as const, statusCorrect: true, exactMatch: null, similarity: 1, offsetExact: null, offsetIoU: null, valueCorrect: null };
+    const calibration = calibrate([
+      { ...base, fuzzyMatch: true, confidence: 0.95 },
+      { ...base, fuzzyMatch: false, confidence: 0.95 },
+      { ...base, fuzzyMatch: true, confidence: 0.55 },
+    ]);
+
+    expect(calibration.bins.map(b => b.count)).toEqual([1, 2]);
+    expect(calibration.expectedCalibrationError).toBeCloseTo((1 / 3) * 0.45 + (2 / 3) * 0.45);
+    expect(calibration.brierScore).toBeCloseTo((0.05 ** 2 + 0.95 ** 2 + 0.45 ** 2) / 3);
+  });
+});
+
+describe('runEval', () => {
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'eval-test-'));
+  });
+
+  test('should score the gold cases with the mock provider', async () => {
+    const cases = await loadEvalCases();
+    const report = await runEval(cases, getEvalProvider('mock'), { model: 'gpt-5' });
+
+    expect(report.cases).toHaveLength(2);
+    expect(report.cases.every(c => c.errors.length === 0)).toBe(true);
+    expect(report.byField['Security deposit'].statusAccuracy).toBe(1);
+    // The eval fixture only knows the NDA's governing law clause
+    expect(report.byField['Governing law'].recall).toBe(0.5);
+    // A partial quote still matches; ones covering under half the clause don't
+    expect(report.byField['Cancellation policy'].exactMatchRate).toBe(0);
+    expect(report.byField['Cancellation policy'].f1).toBe(1);
+    expect(report.byField['Exclusions'].f1).toBe(0);
+    expect(report.overall.valueAccuracy).toBe(1);
+    expect(fs.readdirSync(process.env.DATA_DIR!)).not.toContain('extractions');
+  });
+
+  test('should replay recorded responses and report missing ones', async () => {
+    const recordings = fs.mkdtempSync(path.join(os.tmpdir(), 'eval-recordings-'));
+    const cases = (await loadEvalCases()).slice(0, 1);
+    const recorded = await runEval(cases, createRecordingProvider(createMockProvider(), recordings), { model: 'gpt-5' });
+    const replayed = await runEval(cases, createReplayProvider(recordings), { model: 'gpt-5' });
+
+    expect(replayed.overall).toEqual(recorded.overall);
+    expect(compareReports(recorded, replayed).regressions).toEqual([]);
+
+    const missing = await runEval(cases, createReplayProvider(recordings), { model: 'gpt-4o' });
+    expect(missing.cases[0].errors[0]).toMatch(/No recorded response/);
+  });
+});
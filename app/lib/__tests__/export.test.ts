@@ -0,0 +1,73 @@
+import * as XLSX from 'xlsx';
+import { buildExportWorkbook, getTermFlag, resultsToCSV, writeExportWorkbook } from '../export';
+import { BulkResult } from '../schema';
+import { extraction, response } from '../__fixtures__/results';
+
+const RESULTS: BulkResult[] = [
+  {
+    fileName: 'msa.pdf',
+    success: true,
+    result: response('msa.pdf', [
+      extraction('Payment', 'Payment quote', { normalizedValue: { type: 'duration', amount: 30, unit: 'days' } }),
+      extraction('Shipping', 'Shipping quote', { status: 'inferred', confidence: 0.7 }),
+      extraction('Discounts', '', { reasoning: 'No discount clause' }),
+      extraction('Ramp up', 'Ramp up quote', { confidence: 0.3 }),
+    ], {
+      usage: { inputTokens: 1000, outputTokens: 200, totalTokens: 1200, estimatedUSD: 0.01 },
+      notes: ['Used the MSA template'],
+    }),
+  },
+  { fileName: 'broken.pdf', success: false, error: 'Failed to parse PDF' },
+];
+
+function rows(workbook: XLSX.WorkBook, sheet: string) {
+  return XLSX.utils.sheet_to_json<(string | number)[]>(workbook.Sheets[sheet], { header: 1, defval: '' });
+}
+
+describe('workbook export', () => {
+  test('should flag inferred, low-confidence, missing and rejected terms', () => {
+    expect(getTermFlag(extraction('Payment', 'Payment quote'))).toBe('found');
+    expect(getTermFlag(extraction('Payment', 'Payment quote', { status: 'inferred' }))).toBe('inferred');
+    expect(getTermFlag(extraction('Payment', 'Payment quote', { confidence: 0.3 }))).toBe('low_confidence');
+    expect(getTermFlag(extraction('Payment', 'Payment quote', { confidence: 0.3, review: { status: 'accepted', reviewer: 'Sam', reviewedAt: null } }))).toBe('found');
+    expect(getTermFlag(extraction('Payment', 'Payment quote', { review: { status: 'rejected', reviewer: null, reviewedAt: null } }))).toBe('rejected');
+  });
+
+  test('should lay out the summary, details, notes, failures and usage sheets', () => {
+    const workbook = buildExportWorkbook(RESULTS);
+
+    expect(workbook.SheetNames).toEqual(['Summary', 'Details', 'Notes', 'Failures', 'Usage', 'Flags']);
+    expect(rows(workbook, 'Summary')[0]).toEqual(['Contract', 'Status', 'Contract type', 'Template', 'Risk', 'Payment', 'Payment (value)', 'Shipping', 'Discounts', 'Ramp up']);
+    expect(rows(workbook, 'Summary')[1].slice(5)).toEqual(['Payment quote', '30 days', 'Shipping quote', '(not found)', 'Ramp up quote']);
+    expect(rows(workbook, 'Summary')[2].slice(0, 2)).toEqual(['broken.pdf', 'failed']);
+
+    const discounts = rows(workbook, 'Details').find(row => row[1] === 'Discounts')!;
+    expect(discounts.slice(3, 5)).toEqual(['not_found', 'not_found']);
+    expect(discounts[18]).toBe('No discount clause');
+
+    expect(rows(workbook, 'Notes')[1]).toEqual(['msa.pdf', 'Run', 'Used the MSA template']);
+    expect(rows(workbook, 'Failures')).toEqual([['Contract', 'Error'], ['broken.pdf', 'Failed to parse PDF']]);
+    expect(rows(workbook, 'Usage').pop()).toEqual(['Total', '', 0, 1000, 0, 200, 0, 0.01]);
+  });
+
+  test('should write conditional formats, highlight styles and a hidden flags sheet', () => {
+    const data = writeExportWorkbook(RESULTS);
+    const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+    const text = (path: string) => Buffer.from(XLSX.CFB.find(zip, path).content).toString('utf-8');
+
+    expect(text('/xl/styles.xml')).toContain('<dxfs count="3">');
+    expect(text('/xl/worksheets/sheet1.xml')).toContain('<conditionalFormatting sqref="F2:J3"><cfRule type="expression" dxfId="0" priority="2"><formula>Flags!F2=&quot;low_confidence&quot;</formula>');
+    expect(text('/xl/worksheets/sheet2.xml')).toContain('state="frozen"');
+
+    const workbook = XLSX.read(data, { type: 'array' });
+    expect(workbook.Workbook!.Sheets![5]).toMatchObject({ name: 'Flags', Hidden: 1 });
+    expect(rows(workbook, 'Flags')[1].slice(5)).toEqual(['found', 'found', 'inferred', 'not_found', 'low_confidence']);
+  });
+
+  test('should export the summary matrix as CSV', () => {
+    const [header, msa] = resultsToCSV(RESULTS).split('\n');
+
+    expect(header).toBe('"Contract","Status","Contract type","Template","Risk","Payment","Payment (value)","Shipping","Discounts","Ramp up"');
+    expect(msa).toBe('"msa.pdf","completed","","","","Payment quote","30 days","Shipping quote","(not found)","Ramp up quote"');
+  });
+});
@@ -0,0 +1,41 @@
+import { buildHighlightedPages, getFieldColors, FIELD_HIGHLIGHT_COLORS } from '../highlight';
+import { extraction } from '../__fixtures__/results';
+
+describe('buildHighlightedPages', () => {
+  const text = 'aaaa bbbb cccc dddd';
+
+  test('should split pages and mark overlapping spans', () => {
+    const pages = buildHighlightedPages(text, [0, 10, text.length], [
+      extraction('A', 'x', { start: 0, end: 9 }),
+      extraction('B', 'x', { start: 5, end: 14 }),
+      extraction('Missing', ''),
+    ]);
+
+    expect(pages.map(p => [p.page, p.start, p.end])).toEqual([[1, 0, 10], [2, 10, 19]]);
+    expect(pages[0].segments).toEqual([
+      { start: 0, end: 5, fields: ['A'] },
+      { start: 5, end: 9, fields: ['A', 'B'] },
+      { start: 9, end: 10, fields: ['B'] },
+    ]);
+    expect(pages[1].segments).toEqual([
+      { start: 10, end: 14, fields: ['B'] },
+      { start: 14, end: 19, fields: [] },
+    ]);
+  });
+
+  test('should treat unpaginated text as one page', () => {
+    const pages = buildHighlightedPages(text, [0, text.length], []);
+
+    expect(pages).toEqual([{ page: 1, start: 0, end: 19, segments: [{ start: 0, end: 19, fields: [] }] }]);
+  });
+});
+
+describe('getFieldColors', () => {
+  test('should cycle through the palette in field order', () => {
+    const fields = Array.from({ length: FIELD_HIGHLIGHT_COLORS.length + 1 }, (_, i) => extraction(`F${i}`, ''));
+    const colors = getFieldColors(fields);
+
+    expect(colors.get('F0')).toBe(FIELD_HIGHLIGHT_COLORS[0]);
+    expect(colors.get(`F${FIELD_HIGHLIGHT_COLORS.length}`)).toBe(FIELD_HIGHLIGHT_COLORS[0]);
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getExtractionView, hashFile, listExtractions, reviewStoredExtraction, saveExtraction, updateExtractions } from '../history';
+import { ApiResponse } from '../schema';
+
+describe('extraction history', () => {
+  const text = 'Payment is due within 30 days of invoice.';
+  const document = { text, pages: [0, text.length], paginated: true };
+  const fields = [{ name: 'Payment', description: 'Payment terms' }];
+
+  const response = (fileName: string): ApiResponse => ({
+    fileName,
+    pageCount: 1,
+    model: 'gpt-5',
+    extractions: [{
+      field: 'Payment',
+      status: 'found',
+      quote: text,
+      reasoning: '',
+      page: 1,
+      start: 0,
+      end: text.length,
+      confidence: 0.9,
+    }],
+    usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120, estimatedUSD: 0.001 },
+  });
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+  });
+
+  test('should save a run with its document and file hash', async () => {
+    const buffer = Buffer.from(text);
+    const record = await saveExtraction(buffer, fields, response('a.txt'), document);
+    const view = await getExtractionView(record.id);
+
+    expect(view!.fileHash).toBe(hashFile(buffer));
+    expect(view!.fields).toEqual(fields);
+    expect(view!.document).toEqual(document);
+    expect(await getExtractionView('../etc')).toBeNull();
+  });
+
+  test('should list newest first and filter by search and hash', async () => {
+    await saveExtraction(Buffer.from('one'), fields, response('msa-acme.pdf'), document);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await saveExtraction(Buffer.from('two'), fields, response('nda-globex.pdf'), document);
+
+    expect((await listExtractions()).map(e => e.fileName)).toEqual(['nda-globex.pdf', 'msa-acme.pdf']);
+    expect((await listExtractions({ search: 'ACME' })).map(e => e.fileName)).toEqual(['msa-acme.pdf']);
+    expect((await listExtractions({ search: '30 days' }))).toHaveLength(2);
+    expect((await listExtractions({ fileHash: hashFile(Buffer.from('two')) })).map(e => e.fileName)).toEqual(['nda-globex.pdf']);
+  });
+
+  test('should save reviewed extractions and reject unknown fields', async () => {
+    const record = await saveExtraction(Buffer.from(text), fields, response('a.txt'), document);
+    const reviewed = { ...record.extractions[0], review: { status: 'accepted' as const, reviewer: 'Dana', reviewedAt: new Date().toISOString() } };
+
+    const updated = await updateExtractions(record.id, [reviewed]);
+
+    expect(updated!.extractions[0].review!.status).toBe('accepted');
+    expect((await listExtractions())[0].reviewedCount).toBe(1);
+    await expect(updateExtractions(record.id, [{ ...reviewed, field: 'Other' }])).rejects.toThrow('Unknown field(s): Other');
+  });
+
+  test('should re-validate edited quotes against the stored document', async () => {
+    const record = await saveExtraction(Buffer.from(text), fields, response('a.txt'), document);
+
+    const edited = await reviewStoredExtraction(record.id, 'Payment', { type: 'edit', quote: 'due within 30 days' }, 'Dana');
+    expect(edited!.record!.extractions[0]).toMatchObject({ quote: 'due within 30 days', start: 11, end: 29, page: 1 });
+    expect(edited!.record!.extractions[0].review).toMatchObject({ status: 'edited', reviewer: 'Dana' });
+
+    const invented = await reviewStoredExtraction(record.id, 'Payment', { type: 'edit', quote: 'due within 90 days' }, null);
+    expect(invented!.error).toBe('The edited quote does not appear in the source document');
+    expect((await getExtractionView(record.id))!.extractions[0].quote).toBe('due within 30 days');
+
+    expect((await reviewStoredExtraction(record.id, 'Other', { type: 'accept' }, null))!.error).toBe('Unknown field(s): Other');
+    expect(await reviewStoredExtraction('missing', 'Payment', { type: 'accept' }, null)).toBeNull();
+  });
+
+  test('should keep every review when fields are reviewed concurrently', async () => {
+    const base = response('a.txt');
+    const twoFields = { ...base, extractions: [...base.extractions, { ...base.extractions[0], field: 'Term' }] };
+    const record = await saveExtraction(Buffer.from(text), [...fields, { name: 'Term', description: 'Contract term' }], twoFields, document);
+
+    await Promise.all([
+      reviewStoredExtraction(record.id, 'Payment', { type: 'accept' }, 'Dana'),
+      reviewStoredExtraction(record.id, 'Term', { type: 'reject' }, 'Dana'),
+    ]);
+
+    const view = await getExtractionView(record.id);
+    expect(view!.extractions.map(e => e.review?.status)).toEqual(['accepted', 'rejected']);
+  });
+});
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJob, getJob, toJobView } from '../jobs';
+
+describe('batch jobs', () => {
+  const contract = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-'));
+    process.env.LLM_PROVIDER = 'mock';
+  });
+
+  const waitForJob = async (id: string) => {
+    for (let i = 0; i < 100; i++) {
+      const job = await getJob(id);
+      if (job && (job.status === 'completed' || job.status === 'completed_with_errors')) {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('Job did not finish');
+  };
+
+  test('should persist and process every file', async () => {
+    const created = await createJob(
+      [
+        { fileName: 'a.txt', buffer: contract },
+        { fileName: 'b.txt', buffer: contract },
+      ],
+      'gpt-5',
+      [{ name: 'Payment', description: 'Payment terms' }]
+    );
+
+    expect(created.files).toHaveLength(2);
+
+    const job = await waitForJob(created.id);
+    const view = toJobView(job);
+
+    expect(job.status).toBe('completed');
+    expect(view.progress).toEqual({ total: 2, completed: 2, failed: 0 });
+    expect(view.results.map(r => r.fileName)).toEqual(['a.txt', 'b.txt']);
+    expect(view.results[0].result!.extractions[0].status).toBe('found');
+  });
+
+  test('should return null for unknown or malformed ids', async () => {
+    expect(await getJob('00000000-0000-0000-0000-000000000000')).toBeNull();
+    expect(await getJob('../etc')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { addPeriod, computeKeyDates, extractKeyDateFacts, KeyDateFact, listObligations, obligationsToCSV, obligationsToICS } from '../key-dates';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { ExtractionRecord } from '../history';
+
+function fact(kind: KeyDateFact['kind'], value: KeyDateFact['value'], description: string = kind): KeyDateFact {
+  return { kind, value, description, quote: `${kind} quote`, page: null, start: null, end: null };
+}
+
+const TERM_FACTS: KeyDateFact[] = [
+  fact('effective_date', { type: 'date', value: '2025-01-31' }),
+  fact('initial_term', { type: 'duration', amount: 12, unit: 'months' }),
+  fact('auto_renewal', { type: 'boolean', value: true }),
+  fact('non_renewal_notice', { type: 'duration', amount: 60, unit: 'days' }),
+];
+
+describe('key dates', () => {
+  test('should extract facts from the sample contract with offsets into the text', async () => {
+    const text = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'), 'utf-8');
+    const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+
+    const facts = (await extractKeyDateFacts(provider, 'gpt-5', { text, pages: [0], paginated: false }))!;
+    const effective = facts.find(f => f.kind === 'effective_date')!;
+
+    expect(facts.map(f => f.kind)).toContain('non_renewal_notice');
+    expect(effective.value).toEqual({ type: 'date', value: '2025-01-01' });
+    expect(text.substring(effective.start!, effective.end!)).toBe(effective.quote);
+    expect(effective.page).toBe(null);
+  });
+
+  test('should roll an auto-renewing term forward and count the notice deadline back from it', () => {
+    const keyDates = computeKeyDates(TERM_FACTS, new Date('2026-03-15T00:00:00Z'));
+
+    expect(keyDates.dates.map(d => [d.kind, d.date])).toEqual([
+      ['effective', '2025-01-31'],
+      ['notice_deadline', '2026-12-02'],
+      ['renewal', '2027-01-31'],
+    ]);
+    expect(keyDates.dates[2].basis).toBe('2025-01-31 + 12 months initial term, renewed 1 time by 12 months');
+    expect(keyDates.notes).toEqual([]);
+  });
+
+  test('should move to the next renewal once the notice deadline has passed', () => {
+    const keyDates = computeKeyDates(TERM_FACTS, new Date('2026-12-10T00:00:00Z'));
+
+    expect(keyDates.dates.map(d => [d.kind, d.date])).toEqual([
+      ['effective', '2025-01-31'],
+      ['renewal', '2027-01-31'],
+      ['notice_deadline', '2027-12-02'],
+      ['renewal', '2028-01-31'],
+    ]);
+    expect(keyDates.dates[3].basis).toBe('2025-01-31 + 12 months initial term, renewed 2 times by 12 months');
+  });
+
+  test('should report no past dates once renewals pass the cap', () => {
+    const weekly = [
+      fact('effective_date', { type: 'date', value: '2000-01-03' }),
+      fact('initial_term', { type: 'duration', amount: 7, unit: 'days' }),
+      fact('auto_renewal', { type: 'boolean', value: true }),
+      fact('non_renewal_notice', { type: 'duration', amount: 2, unit: 'days' }),
+    ];
+
+    const keyDates = computeKeyDates(weekly, new Date('2026-03-15T00:00:00Z'));
+
+    expect(keyDates.dates.map(d => d.kind)).toEqual(['effective']);
+    expect(keyDates.notes).toEqual(['The agreement has renewed more than 200 times, so its current term couldn\'t be worked out']);
+  });
+
+  test('should count renewals from the effective date so month ends do not drift', () => {
+    const monthly = [
+      fact('effective_date', { type: 'date', value: '2024-01-31' }),
+      fact('initial_term', { type: 'duration', amount: 1, unit: 'months' }),
+      fact('auto_renewal', { type: 'boolean', value: true }),
+    ];
+
+    expect(computeKeyDates(monthly, new Date('2024-03-01T00:00:00Z')).dates.map(d => d.date)).toEqual(['2024-01-31', '2024-03-31']);
+    expect(computeKeyDates(monthly, new Date('2024-04-15T00:00:00Z')).dates.map(d => d.date)).toEqual(['2024-01-31', '2024-04-30']);
+  });
+
+  test('should clamp month ends, skip weekends for business days and explain missing facts', () => {
+    expect(addPeriod('2025-01-31', { type: 'duration', amount: 1, unit: 'months' }, 1)).toBe('2025-02-28');
+    expect(addPeriod('2025-06-09', { type: 'duration', amount: 5, unit: 'days', businessDays: true }, -1)).toBe('2025-06-02');
+
+    const keyDates = computeKeyDates([TERM_FACTS[1], TERM_FACTS[3]]);
+    expect(keyDates.dates).toEqual([]);
+    expect(keyDates.notes).toHaveLength(2);
+  });
+
+  test('should filter obligations by range and export them as calendar events', () => {
+    const record = {
+      id: 'abc', fileName: 'msa.pdf', keyDates: { facts: TERM_FACTS, dates: [], notes: [] },
+    } as unknown as ExtractionRecord;
+
+    const obligations = listObligations([record], { from: '2026-01-01', to: '2026-12-31' }, new Date('2026-03-15T00:00:00Z'));
+    expect(obligations.map(o => o.kind)).toEqual(['notice_deadline']);
+
+    const ics = obligationsToICS(obligations, new Date('2026-03-15T00:00:00Z'));
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261202\r\nDTEND;VALUE=DATE:20261203');
+    expect(ics).toContain('UID:abc-notice_deadline@contract-key-terms');
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+
+  test('should give obligations with the same title distinct calendar UIDs', () => {
+    const record = {
+      id: 'abc',
+      fileName: 'msa.pdf',
+      keyDates: {
+        facts: [
+          fact('obligation', { type: 'date', value: '2026-04-30' }, 'Quarterly report'),
+          fact('obligation', { type: 'date', value: '2026-07-31' }, 'Quarterly report'),
+        ],
+        dates: [],
+        notes: [],
+      },
+    } as unknown as ExtractionRecord;
+
+    const obligations = listObligations([record], {}, new Date('2026-03-15T00:00:00Z'));
+    const uids = obligationsToICS(obligations).split('\r\n').filter(line => line.startsWith('UID:'));
+
+    expect(uids).toHaveLength(2);
+    expect(new Set(uids).size).toBe(2);
+  });
+
+  test('should keep CSV cells from being read as spreadsheet formulas', () => {
+    const [obligation] = listObligations([{
+      id: 'abc', fileName: '=HYPERLINK("http://example.com")', keyDates: { facts: [fact('obligation', { type: 'date', value: '2026-04-30' }, '@SUM(A1)')], dates: [], notes: [] },
+    } as unknown as ExtractionRecord], {}, new Date('2026-03-15T00:00:00Z'));
+
+    const [, row] = obligationsToCSV([obligation]).split('\n');
+
+    expect(row).toBe('"2026-04-30","\'=HYPERLINK(""http://example.com"")","obligation","\'@SUM(A1)","Stated due date","obligation quote"');
+  });
+
+  test('should fold calendar lines at 75 octets without splitting characters', () => {
+    const [obligation] = listObligations([{
+      id: 'abc', fileName: 'Liefervertrag München 🚚 Ärztekammer Straße Überprüfung.pdf', keyDates: { facts: TERM_FACTS, dates: [], notes: [] },
+    } as unknown as ExtractionRecord], { from: '2026-01-01', to: '2026-12-31' }, new Date('2026-03-15T00:00:00Z'));
+
+    const ics = obligationsToICS([obligation], new Date('2026-03-15T00:00:00Z'));
+    const lines = ics.split('\r\n');
+
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain('SUMMARY:Liefervertrag München 🚚 Ärztekammer Straße Überprüfung.pdf: ');
+    expect(ics).not.toContain('\uFFFD');
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mergeChunkExtractions } from '../merge';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider } from '../mock-provider';
+import { getReviewedQuote } from '../review';
+import { Extraction, validateExtraction } from '../schema';
+
+const text = 'Milestone one: 30% on signing. Other terms apply. Milestone two: 70% on delivery.';
+
+const multiValue = (quotes: string[]): Extraction => ({
+  field: 'Milestones',
+  status: 'found',
+  quote: quotes[0],
+  reasoning: '',
+  page: null,
+  start: null,
+  end: null,
+  confidence: 0.9,
+  values: quotes.map(quote => ({ quote, page: null, start: null, end: null })),
+});
+
+describe('validateExtraction with multiple values', () => {
+  test('should locate each value and drop the ones not in the text', () => {
+    const result = validateExtraction(
+      multiValue(['30% on signing', 'Milestone three: 0% ever', '70% on delivery']),
+      text
+    );
+
+    expect(result.status).toBe('found');
+    expect(result.values!.map(v => v.quote)).toEqual(['30% on signing', '70% on delivery']);
+    expect(result.values![1].start).toBe(text.indexOf('70% on delivery'));
+    expect(result.quote).toBe('30% on signing');
+    expect(result.start).toBe(text.indexOf('30% on signing'));
+    expect(getReviewedQuote(result)).toBe('30% on signing\n\n70% on delivery');
+  });
+
+  test('should be not_found when no value can be located', () => {
+    const result = validateExtraction(multiValue(['nothing like this', 'nor this']), text);
+    expect(result.status).toBe('not_found');
+  });
+});
+
+describe('mergeChunkExtractions with multiple values', () => {
+  test('should combine values found in different chunks', () => {
+    const split = text.indexOf('Other');
+    const chunks = [
+      { index: 0, text: text.substring(0, split), start: 0, end: split, startPage: 1, endPage: 1 },
+      { index: 1, text: text.substring(split), start: split, end: text.length, startPage: 2, endPage: 2 },
+    ];
+    const pages = [0, split, text.length];
+
+    const merged = mergeChunkExtractions(
+      [
+        { chunk: chunks[0], extractions: [multiValue(['30% on signing'])] },
+        { chunk: chunks[1], extractions: [multiValue(['70% on delivery'])] },
+      ],
+      ['Milestones'],
+      text.length,
+      pages
+    );
+
+    expect(merged[0].values!.map(v => [v.quote, v.start, v.page])).toEqual([
+      ['30% on signing', text.indexOf('30% on signing'), 1],
+      ['70% on delivery', text.indexOf('70% on delivery'), 2],
+    ]);
+  });
+});
+
+describe('multi-valued extraction', () => {
+  test('should return every occurrence with its own normalized value', async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'multivalue-test-'));
+
+    const result = await runExtractionPipeline(
+      {
+        fileName: 'milestones.txt',
+        buffer: Buffer.from(text),
+        model: 'gpt-5',
+        fields: [
+          { name: 'Milestones', description: 'Payment milestones', type: 'percentage', multiple: true },
+          { name: 'Single', description: 'Only the first milestone', type: 'percentage' },
+        ],
+      },
+      createMockProvider({
+        extractions: {
+          Milestones: {
+            quote: '30% on signing',
+            normalizedValue: '30',
+            additionalValues: [{ quote: '70% on delivery', normalizedValue: '70' }],
+          },
+          Single: {
+            quote: '30% on signing',
+            normalizedValue: '30',
+            additionalValues: [{ quote: '70% on delivery', normalizedValue: '70' }],
+          },
+        },
+      })
+    );
+
+    const milestones = result.extractions.find(e => e.field === 'Milestones')!;
+    expect(milestones.values!.map(v => v.normalizedValue)).toEqual([
+      { type: 'percentage', value: 30 },
+      { type: 'percentage', value: 70 },
+    ]);
+    expect(result.extractions.find(e => e.field === 'Single')!.values).toBeUndefined();
+  });
+});
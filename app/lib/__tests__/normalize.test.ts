@@ -0,0 +1,65 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkFieldDefinitions, formatNormalizedValue, parseNormalizedValue } from '../normalize';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { KeyTermField } from '../schema';
+
+describe('parseNormalizedValue', () => {
+  const field = (type: KeyTermField['type'], options?: string[]): KeyTermField => ({ name: 'F', description: '', type, options });
+
+  test('should parse each type from its canonical format', () => {
+    expect(parseNormalizedValue('2024-02-29', field('date')).value).toEqual({ type: 'date', value: '2024-02-29' });
+    expect(parseNormalizedValue('USD 1,500.00', field('currency')).value).toEqual({ type: 'currency', amount: 1500, currency: 'USD' });
+    expect(parseNormalizedValue('$250', field('currency')).value).toEqual({ type: 'currency', amount: 250, currency: 'USD' });
+    expect(parseNormalizedValue('30 days', field('duration')).value).toEqual({ type: 'duration', amount: 30, unit: 'days' });
+    expect(parseNormalizedValue('10 business days', field('duration')).value).toEqual({ type: 'duration', amount: 10, unit: 'days', businessDays: true });
+    expect(parseNormalizedValue('15%', field('percentage')).value).toEqual({ type: 'percentage', value: 15 });
+    expect(parseNormalizedValue('net 60', field('enum', ['Net 30', 'Net 60'])).value).toEqual({ type: 'enum', value: 'Net 60' });
+    expect(parseNormalizedValue('TRUE', field('boolean')).value).toEqual({ type: 'boolean', value: true });
+  });
+
+  test('should reject values that do not fit the type', () => {
+    expect(parseNormalizedValue('2023-02-29', field('date')).error).toBe('"2023-02-29" is not a valid YYYY-MM-DD date');
+    expect(parseNormalizedValue('thirty days', field('duration')).error).toBeDefined();
+    expect(parseNormalizedValue('Net 45', field('enum', ['Net 30'])).error).toBeDefined();
+    expect(parseNormalizedValue('1500', field('currency')).error).toBeDefined();
+  });
+
+  test('should ignore free text fields', () => {
+    expect(parseNormalizedValue('anything', field(undefined))).toEqual({ value: null });
+  });
+});
+
+describe('checkFieldDefinitions', () => {
+  test('should reject unknown types and enums without options', () => {
+    expect(checkFieldDefinitions([{ name: 'A', description: '', type: 'duration' }])).toBeNull();
+    expect(checkFieldDefinitions([{ name: 'A', description: '', type: 'money' as never }])).toMatch(/unknown type "money"/);
+    expect(checkFieldDefinitions([{ name: 'A', description: '', type: 'enum' }])).toBe('Enum field "A" needs a list of options');
+  });
+});
+
+describe('typed extraction', () => {
+  test('should return normalized values for typed fields only', async () => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'normalize-test-'));
+    const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+
+    const result = await runExtractionPipeline(
+      {
+        fileName: 'sample-contract.txt',
+        buffer,
+        model: 'gpt-5',
+        fields: [
+          { name: 'Payment', description: 'Payment terms', type: 'duration' },
+          { name: 'Renewal terms', description: 'Renewal' },
+        ],
+      },
+      createMockProvider(loadMockFixture('fixtures/mock-extractions.json'))
+    );
+
+    expect(result.extractions[0].normalizedValue).toEqual({ type: 'duration', amount: 30, unit: 'days' });
+    expect(formatNormalizedValue(result.extractions[0].normalizedValue!)).toBe('30 days');
+    expect(result.extractions[1].normalizedValue).toBeNull();
+  });
+});
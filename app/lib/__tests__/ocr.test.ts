@@ -0,0 +1,100 @@
+import { findSparsePages, OcrEngine, parseTesseractTsv } from '../ocr';
+import { parsePDF } from '../pdf';
+
+// Two blank pages, i.e. what a scan without a text layer looks like to pdf-parse
+function buildBlankPdf(pageCount: number): Buffer {
+  const kids = Array.from({ length: pageCount }, (_, i) => `${i + 3} 0 R`).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`,
+    ...Array.from({ length: pageCount }, () => '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>'),
+  ];
+
+  // pdf.js misplaces object offsets in tiny files, so pad with a header comment
+  let pdf = `%PDF-1.4\n%${'x'.repeat(4096)}\n`;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf);
+}
+
+const BLANK_PDF = buildBlankPdf(2);
+
+describe('findSparsePages', () => {
+  test('should flag pages below the character threshold', () => {
+    const pages = ['A'.repeat(100), '   \n  ', 'short', 'B'.repeat(60)];
+
+    expect(findSparsePages(pages, 50)).toEqual([2, 3]);
+  });
+});
+
+describe('parseTesseractTsv', () => {
+  const header = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+  const word = (block: number, par: number, line: number, conf: number, text: string) =>
+    `5\t1\t${block}\t${par}\t${line}\t1\t0\t0\t10\t10\t${conf}\t${text}`;
+
+  test('should rebuild lines and paragraphs and average confidence', () => {
+    const tsv = [
+      header,
+      '1\t1\t0\t0\t0\t0\t0\t0\t100\t100\t-1\t',
+      word(1, 1, 1, 90, 'Payment'),
+      word(1, 1, 1, 80, 'terms'),
+      word(1, 1, 2, 70, 'Net'),
+      word(2, 1, 1, 100, '30'),
+    ].join('\n');
+
+    const result = parseTesseractTsv(tsv);
+
+    expect(result.text).toBe('Payment terms\nNet\n\n30');
+    expect(result.confidence).toBeCloseTo(0.85);
+  });
+
+  test('should return empty text for an empty page', () => {
+    expect(parseTesseractTsv(header)).toEqual({ text: '', confidence: 0 });
+  });
+});
+
+describe('parsePDF OCR fallback', () => {
+  test('should OCR sparse pages and record real page offsets', async () => {
+    const engine: OcrEngine = {
+      name: 'stub',
+      recognize: async (_pdf, pages) => pages.map(page => ({ page, text: `Scanned text of page ${page}`, confidence: 0.9 })),
+    };
+
+    const doc = await parsePDF(BLANK_PDF, engine);
+
+    expect(doc.pageCount).toBe(2);
+    expect(doc.ocr!.pages).toEqual([{ page: 1, confidence: 0.9 }, { page: 2, confidence: 0.9 }]);
+    expect(doc.text.substring(doc.pages[1], doc.pages[2]).trim()).toBe('Scanned text of page 2');
+  });
+
+  test('should build page offsets from each page render without OCR', async () => {
+    const doc = await parsePDF(BLANK_PDF, null);
+
+    expect(doc.pageCount).toBe(2);
+    expect(doc.pages).toEqual([0, 2, 4]);
+    expect(doc.ocr).toBeUndefined();
+  });
+
+  test('should keep the text layer and report failure when OCR throws', async () => {
+    const engine: OcrEngine = {
+      name: 'stub',
+      recognize: async () => { throw new Error('tesseract is not installed'); },
+    };
+
+    const doc = await parsePDF(BLANK_PDF, engine);
+
+    expect(doc.ocr!.failedPages).toEqual([1, 2]);
+    expect(doc.ocr!.error).toBe('tesseract is not installed');
+  });
+});
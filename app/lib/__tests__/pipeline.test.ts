@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runExtractionPipeline } from '../pipeline';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { ExtractionProvider } from '../provider';
+import { PipelineEvent } from '../events';
+import { formatServerSentEvent, parseServerSentEvent } from '../sse';
+
+describe('runExtractionPipeline', () => {
+  const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+  const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+  });
+
+  test('should extract the default fields from the sample contract', async () => {
+    const result = await runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: null },
+      provider
+    );
+
+    expect(result.fileName).toBe('sample-contract.txt');
+    expect(result.extractions).toHaveLength(7);
+    expect(result.extractions.every(e => e.status === 'found')).toBe(true);
+    expect(result.usage.totalTokens).toBeGreaterThan(0);
+    expect(result.id).toBeDefined();
+  });
+
+  test('should emit progress events in pipeline order', async () => {
+    const events: PipelineEvent[] = [];
+
+    await runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: [{ name: 'Payment', description: 'Payment terms' }] },
+      provider,
+      event => events.push(event)
+    );
+
+    expect(events.map(e => e.type)).toEqual(['parsed', 'document', 'classification', 'prompt', 'model_call', 'extraction', 'validation', 'usage']);
+  });
+
+  test('should derive pages from validated offsets', async () => {
+    const paged = Buffer.from(`Cover page\f${buffer.toString('utf-8')}`);
+
+    const result = await runExtractionPipeline(
+      { fileName: 'paged.txt', buffer: paged, model: 'gpt-5', fields: [{ name: 'Payment', description: 'Payment terms' }] },
+      provider
+    );
+    const [payment] = result.extractions;
+
+    expect(result.pageCount).toBe(2);
+    expect(payment.page).toBe(2);
+    expect(paged.toString('utf-8').substring(payment.start!, payment.end!)).toBe(payment.quote);
+  });
+
+  test('should fail the run when every extraction call fails', async () => {
+    const failing: ExtractionProvider = {
+      name: 'failing',
+      async complete() { throw new Error('Service unavailable'); },
+    };
+
+    await expect(runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer, model: 'gpt-4o', fields: [{ name: 'Payment', description: 'Payment terms' }], classify: false },
+      failing
+    )).rejects.toThrow('every model call failed');
+  });
+});
+
+describe('server-sent events', () => {
+  test('should round-trip an event', () => {
+    const event: PipelineEvent = { type: 'heartbeat', elapsedSeconds: 30 };
+    const wire = formatServerSentEvent(event);
+
+    expect(wire).toBe('event: heartbeat\ndata: {"type":"heartbeat","elapsedSeconds":30}\n\n');
+    expect(parseServerSentEvent(wire.trim())).toEqual(event);
+  });
+});
@@ -0,0 +1,90 @@
+import { checkPlaybookRules, DEFAULT_PLAYBOOK, evaluatePlaybook, Playbook } from '../playbook';
+import { PlaybookInput, savePlaybook } from '../playbook-store';
+import { extraction } from '../__fixtures__/results';
+
+function findingFor(report: ReturnType<typeof evaluatePlaybook>, field: string) {
+  return report.findings.find(f => f.field === field)!;
+}
+
+describe('playbook compliance', () => {
+  test('should check payment terms parsed from the quote against the net-days limit', () => {
+    const pass = evaluatePlaybook(DEFAULT_PLAYBOOK, [extraction('Payment', 'Payment is due Net 30 from the invoice date.')]);
+    const fail = evaluatePlaybook(DEFAULT_PLAYBOOK, [extraction('Payment', 'Invoices are payable within sixty (60) days of receipt.')]);
+
+    expect(findingFor(pass, 'Payment').status).toBe('pass');
+    expect(findingFor(fail, 'Payment')).toMatchObject({ status: 'fail', explanation: '60 days is more than the 45 days maximum' });
+    expect(fail.summary).toEqual({ pass: 0, warn: 0, fail: 1, risk: 'high' });
+  });
+
+  test('should prefer the typed value and pick the period nearest the rule keyword', () => {
+    const report = evaluatePlaybook(DEFAULT_PLAYBOOK, [
+      extraction('Renewal terms', 'The term renews for successive one (1) year periods unless either party gives thirty (30) days notice.'),
+      extraction('Termination for convenience', 'Either party may terminate on notice.', {
+        normalizedValue: { type: 'duration', amount: 3, unit: 'months' },
+      }),
+    ]);
+
+    expect(findingFor(report, 'Renewal terms')).toMatchObject({ status: 'warn', explanation: '30 days is less than the 60 days minimum' });
+    expect(findingFor(report, 'Termination for convenience').status).toBe('pass');
+    expect(report.summary.risk).toBe('medium');
+  });
+
+  test('should fail unlimited liability and skip rules for fields the run did not extract', () => {
+    const report = evaluatePlaybook(DEFAULT_PLAYBOOK, [
+      extraction('Limitation of liability', "Supplier's liability for data breaches shall be unlimited."),
+    ]);
+
+    expect(report.findings).toHaveLength(1);
+    expect(findingFor(report, 'Limitation of liability')).toMatchObject({ status: 'fail', explanation: 'Mentions "unlimited"' });
+  });
+
+  test('should warn when a term is missing, rejected or a low-confidence pass', () => {
+    const report = evaluatePlaybook(DEFAULT_PLAYBOOK, [
+      extraction('Payment', ''),
+      extraction('Cancellation policy', 'Terminate on 30 days notice.', { confidence: 0.3 }),
+      extraction('Limitation of liability', 'Liability is unlimited.', {
+        review: { status: 'rejected', reviewer: 'sam', reviewedAt: '2025-01-01T00:00:00.000Z' },
+      }),
+    ]);
+
+    expect(report.findings.map(f => f.status)).toEqual(['warn', 'warn', 'warn']);
+    expect(findingFor(report, 'Cancellation policy').explanation).toContain('low confidence');
+  });
+
+  test('should check multi-valued fields against every value', () => {
+    const playbook: Playbook = {
+      ...DEFAULT_PLAYBOOK,
+      rules: [{ id: 'fee-cap', field: 'Fees', standard: 'No fee above $10,000', severity: 'fail', check: { type: 'amount', max: 10000, currency: 'USD' } }],
+    };
+    const report = evaluatePlaybook(playbook, [extraction('Fees', 'Setup fee of $2,500', {
+      values: [
+        { quote: 'Setup fee of $2,500', page: 1, start: 0, end: 19 },
+        { quote: 'Annual fee of $12,000', page: 2, start: 0, end: 21 },
+      ],
+    })]);
+
+    expect(findingFor(report, 'Fees')).toMatchObject({ status: 'fail', quote: 'Annual fee of $12,000' });
+  });
+
+  test('should reject invalid rules', () => {
+    const rule = DEFAULT_PLAYBOOK.rules[0];
+
+    expect(checkPlaybookRules(DEFAULT_PLAYBOOK.rules)).toBe(null);
+    expect(checkPlaybookRules([rule, rule])).toContain('more than once');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'duration', unit: 'days' } }])).toContain('min or max');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'excludes', pattern: '(' } }])).toContain('invalid pattern');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'duration', min: '60' as unknown as number, unit: 'days' } }])).toContain('must be numbers');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'amount', min: 10, max: 5 } }])).toContain('more than its max');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'includes', pattern: '(a+)+$' } }])).toContain('too complex');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'includes', pattern: '((\\w+\\s?)x)*' } }])).toContain('too complex');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'includes', pattern: '(a|a)*$' } }])).toContain('too complex');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'includes', pattern: '(\\w|\\d)+$' } }])).toContain('too complex');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'excludes', pattern: 'x'.repeat(201) } }])).toContain('longer than');
+    expect(checkPlaybookRules([{ ...rule, check: { type: 'includes', pattern: '(net|due)\\s+\\d+ days' } }])).toBe(null);
+  });
+
+  test('should reject a playbook body that is not an object', async () => {
+    expect(await savePlaybook(null as unknown as PlaybookInput)).toEqual({ error: 'Body must be an object with a rules array' });
+    expect(await savePlaybook([] as unknown as PlaybookInput)).toEqual({ error: 'Body must be an object with a rules array' });
+  });
+});
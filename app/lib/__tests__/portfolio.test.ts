@@ -0,0 +1,77 @@
+import { buildPortfolio, parseTermFilter } from '../portfolio';
+import { ExtractionRecord } from '../history';
+import { Extraction } from '../schema';
+import { extraction } from '../__fixtures__/results';
+
+function record(id: string, fileName: string, extractions: Extraction[], overrides: Partial<ExtractionRecord> = {}): ExtractionRecord {
+  return {
+    id,
+    fileHash: `hash-${fileName}`,
+    fileName,
+    fields: extractions.map(e => ({ name: e.field, description: '' })),
+    model: 'gpt-5',
+    pageCount: 1,
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedUSD: 0 },
+    extractions,
+    createdAt: `2025-01-0${id.slice(-1)}T00:00:00.000Z`,
+    updatedAt: `2025-01-0${id.slice(-1)}T00:00:00.000Z`,
+    ...overrides,
+  };
+}
+
+const records = [
+  record('run-1', 'acme.pdf', [
+    extraction('Payment', 'Payment is due Net 60.'),
+    extraction('Renewal terms', 'This Agreement renews automatically for one year.'),
+  ]),
+  record('run-2', 'globex.pdf', [
+    extraction('Payment', 'Invoices are payable within 30 days.'),
+    extraction('Renewal terms', ''),
+  ], { classification: { contractType: 'msa', confidence: 0.9, rationale: '' } }),
+  record('run-3', 'initech.pdf', [
+    extraction('Payment', 'Net 90', { normalizedValue: { type: 'duration', amount: 3, unit: 'months' } }),
+    extraction('Renewal terms', 'Auto-renews unless cancelled.', { status: 'inferred' }),
+  ]),
+  // An older run of acme.pdf, superseded by run-1
+  record('run-0', 'acme.pdf', [extraction('Payment', 'Payment is due Net 15.')]),
+];
+
+describe('portfolio', () => {
+  test('should keep the latest run per file and report per-field coverage', () => {
+    const portfolio = buildPortfolio(records);
+
+    expect(portfolio.contractCount).toBe(3);
+    expect(portfolio.rows.map(r => r.id)).toEqual(['run-3', 'run-2', 'run-1']);
+    expect(portfolio.rows[2].terms['Payment'].measure).toBe(60);
+    expect(portfolio.coverage).toEqual([
+      { field: 'Payment', total: 3, found: 3, inferred: 0, notFound: 0 },
+      { field: 'Renewal terms', total: 3, found: 1, inferred: 1, notFound: 1 },
+    ]);
+  });
+
+  test('should filter on term text and on payment days', () => {
+    const autoRenew = buildPortfolio(records, { filters: [{ field: 'renewal terms', op: 'contains', value: 'automatically|auto-renew' }] });
+    const slowPayers = buildPortfolio(records, { filters: [{ field: 'Payment', op: 'gt', value: '45' }], sort: 'field:Payment', order: 'desc' });
+
+    expect(autoRenew.rows.map(r => r.fileName)).toEqual(['initech.pdf', 'acme.pdf']);
+    expect(slowPayers.rows.map(r => r.fileName)).toEqual(['initech.pdf', 'acme.pdf']);
+    expect(slowPayers.coverage[0]).toEqual({ field: 'Payment', total: 2, found: 2, inferred: 0, notFound: 0 });
+  });
+
+  test('should search across quotes and return the matching ones', () => {
+    const portfolio = buildPortfolio(records, { search: 'payable' });
+
+    expect(portfolio.rows).toHaveLength(1);
+    expect(portfolio.rows[0].matches).toEqual([{ field: 'Payment', quote: 'Invoices are payable within 30 days.' }]);
+  });
+
+  test('should sort missing values last and parse filters from query strings', () => {
+    const byType = buildPortfolio(records, { sort: 'contractType', order: 'desc' });
+
+    expect(byType.rows[0].fileName).toBe('globex.pdf');
+    expect(parseTermFilter('Renewal terms:contains:a:b')).toEqual({ filter: { field: 'Renewal terms', op: 'contains', value: 'a:b' } });
+    expect(parseTermFilter('Payment:missing')).toEqual({ filter: { field: 'Payment', op: 'missing', value: undefined } });
+    expect(parseTermFilter('Payment:gt:soon').error).toContain('number');
+    expect(parseTermFilter('Payment').error).toContain('field:op');
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+import { createOpenAIProvider } from '../provider';
+import { extractFields } from '../extract';
+import { validateExtractions } from '../schema';
+
+describe('mock provider', () => {
+  const contract = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'), 'utf-8');
+  const provider = createMockProvider(loadMockFixture('fixtures/mock-extractions.json'));
+
+  test('should extract fixture quotes that exist in the document', async () => {
+    const run = await extractFields(provider, 'gpt-5', [
+      { name: 'Payment', description: 'Payment terms' },
+      { name: 'Renewal terms', description: 'Auto-renewal clauses' },
+    ], contract);
+
+    expect(run.model).toBe('gpt-5');
+    expect(run.usedFallback).toBe(false);
+    expect(run.inputTokens).toBeGreaterThan(0);
+
+    const validated = validateExtractions(run.extractions, contract);
+
+    expect(validated.map(e => e.status)).toEqual(['found', 'found']);
+    expect(contract.substring(validated[0].start!, validated[0].end!)).toBe('Payment terms are Net 30 from invoice date.');
+  });
+
+  test('should return not_found for fields without fixtures', async () => {
+    const run = await extractFields(provider, 'gpt-5', [
+      { name: 'Governing law', description: 'Which law governs' },
+    ], contract);
+
+    expect(run.extractions).toHaveLength(1);
+    expect(run.extractions[0].status).toBe('not_found');
+  });
+
+  test('should return not_found when the fixture quote is not in the document', async () => {
+    const run = await extractFields(provider, 'gpt-5', [
+      { name: 'Payment', description: 'Payment terms' },
+    ], 'An unrelated document.');
+
+    expect(run.extractions[0].status).toBe('not_found');
+  });
+
+  test('should parse field lists', async () => {
+    const response = await provider.complete({
+      model: 'o3-mini',
+      messages: [
+        { role: 'user', content: 'Parse this document:\n\n1. Payment: Payment terms and schedules\n2. Term: Length of the agreement' },
+      ],
+      responseFormat: { type: 'json_object' },
+    });
+
+    expect(JSON.parse(response.content!).fields).toEqual([
+      { name: 'Payment', description: 'Payment terms and schedules' },
+      { name: 'Term', description: 'Length of the agreement' },
+    ]);
+  });
+});
+
+describe('OpenAI provider', () => {
+  test('should send mapped deployment names and report the model that answered', async () => {
+    const sent: string[] = [];
+    const client = {
+      chat: {
+        completions: {
+          async create(body: { model: string }) {
+            sent.push(body.model);
+            return { model: 'gpt-4o-2024-08-06', choices: [{ message: { content: '{}' } }], usage: { prompt_tokens: 10, completion_tokens: 5 } };
+          },
+        },
+      },
+    } as unknown as OpenAI;
+    const provider = createOpenAIProvider('azure', client, undefined, { 'gpt-4o': 'contracts-gpt-4o' });
+
+    const result = await provider.complete({ model: 'gpt-4o', messages: [], responseFormat: { type: 'json_object' } });
+
+    expect(sent).toEqual(['contracts-gpt-4o']);
+    expect(result.model).toBe('gpt-4o-2024-08-06');
+    expect(result.inputTokens).toBe(10);
+  });
+});
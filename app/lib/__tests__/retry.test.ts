@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findCandidatePassages, retryFailedQuotes } from '../retry';
+import { runExtractionPipeline } from '../pipeline';
+import { CompletionRequest, ExtractionProvider } from '../provider';
+import { Extraction, validateExtractions } from '../schema';
+
+const contract = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'), 'utf-8');
+const paraphrase = 'Invoices are payable net thirty days from the invoice date by wire or ACH.';
+const verbatim = 'Payment terms are Net 30 from invoice date.';
+
+/**
+ * Answers every extraction request for "Payment" with the next quote in `quotes`
+ */
+function scriptedProvider(quotes: string[]): ExtractionProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    async complete(request) {
+      requests.push(request);
+      const quote = quotes[Math.min(requests.length - 1, quotes.length - 1)];
+      const content = JSON.stringify({
+        extractions: [{ field: 'Payment', status: 'found', quote, reasoning: 'Section 2.2', page: null, start: null, end: null, confidence: 0.9, normalizedValue: null, additionalValues: [] }],
+      });
+      return { content, model: request.model, inputTokens: 100, outputTokens: 20 };
+    },
+  };
+}
+
+const fields = [{ name: 'Payment', description: 'Payment terms, schedules, invoicing procedures' }];
+
+function failedPayment(): Extraction[] {
+  return validateExtractions([{ field: 'Payment', status: 'found', quote: paraphrase, reasoning: '', page: null, start: null, end: null, confidence: 0.9 }], contract);
+}
+
+describe('findCandidatePassages', () => {
+  test('should rank the paragraph sharing the most distinctive words first', () => {
+    const [best] = findCandidatePassages(contract, `${paraphrase} Payment invoice`);
+
+    expect(best.text).toMatch(/^2\.2 Payment Terms/);
+    expect(contract.substring(best.start, best.end)).toBe(best.text);
+  });
+});
+
+describe('retryFailedQuotes', () => {
+  test('should recover a paraphrased quote with feedback and candidate passages', async () => {
+    const provider = scriptedProvider([verbatim]);
+    const run = await retryFailedQuotes(provider, 'gpt-5', fields, failedPayment(), contract, { budget: { maxFields: 5, maxAttempts: 1 } });
+    const [payment] = run.extractions;
+
+    expect(run.recovered).toEqual(['Payment']);
+    expect(payment.status).toBe('found');
+    expect(contract.substring(payment.start!, payment.end!)).toBe(verbatim);
+    expect(payment.confidence).toBeCloseTo(0.8);
+    expect(payment.validation).toMatchObject({ method: 'exact', retried: true });
+    expect(run.inputTokens).toBe(100);
+
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain(`"Payment": "${paraphrase}"`);
+    expect(prompt).toContain('[Passage 1');
+    expect(prompt).not.toContain('SOFTWARE LICENSE AND SERVICE AGREEMENT');
+  });
+
+  test('should stop at the attempt budget when the model keeps paraphrasing', async () => {
+    const provider = scriptedProvider([paraphrase]);
+    const run = await retryFailedQuotes(provider, 'gpt-5', fields, failedPayment(), contract, { budget: { maxFields: 5, maxAttempts: 2 } });
+
+    expect(run.attempts).toBe(2);
+    expect(run.recovered).toEqual([]);
+    expect(run.extractions[0].status).toBe('not_found');
+    expect(provider.requests).toHaveLength(2);
+
+    const disabled = await retryFailedQuotes(provider, 'gpt-5', fields, failedPayment(), contract, { budget: { maxFields: 0, maxAttempts: 2 } });
+    expect(disabled.attempted).toEqual([]);
+  });
+});
+
+describe('pipeline retry pass', () => {
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-test-'));
+  });
+
+  test('should report the retry and include its tokens in usage', async () => {
+    const result = await runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer: Buffer.from(contract), model: 'gpt-5', fields, classify: false, keyDates: false },
+      scriptedProvider([paraphrase, verbatim])
+    );
+
+    expect(result.extractions[0].status).toBe('found');
+    expect(result.retry).toEqual({ attempted: ['Payment'], recovered: ['Payment'], attempts: 1, inputTokens: 100, outputTokens: 20 });
+    expect(result.usage.inputTokens).toBe(200);
+    expect(result.notes).toContain('Re-asked for 1 field(s) whose quotes could not be verified; recovered Payment');
+  });
+});
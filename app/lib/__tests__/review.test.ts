@@ -0,0 +1,58 @@
+import { getReviewedQuote, reviewExtraction, summarizeReviews } from '../review';
+import { Extraction } from '../schema';
+
+describe('reviewExtraction', () => {
+  const text = 'Cover page\fPayment is due within 30 days of invoice. Either party may terminate on 60 days notice.';
+  const source = { text, pages: [0, 11, text.length] };
+
+  const extraction: Extraction = {
+    field: 'Payment',
+    status: 'found',
+    quote: 'Either party may terminate on 60 days notice.',
+    reasoning: 'Wrong clause',
+    page: 2,
+    start: text.indexOf('Either'),
+    end: text.length,
+    confidence: 0.7,
+  };
+
+  test('should accept and keep the original model output', () => {
+    const { extraction: accepted } = reviewExtraction(extraction, { type: 'accept' }, 'Dana', source);
+
+    expect(accepted!.review!.status).toBe('accepted');
+    expect(accepted!.review!.reviewer).toBe('Dana');
+    expect(accepted!.review!.reviewedAt).not.toBeNull();
+    expect(accepted!.review!.original).toEqual(extraction);
+  });
+
+  test('should re-validate an edited quote and locate it', () => {
+    const { extraction: edited } = reviewExtraction(
+      extraction,
+      { type: 'edit', quote: 'Payment is due within 30 days of invoice.' },
+      'Dana',
+      source
+    );
+
+    expect(edited!.review!.status).toBe('edited');
+    expect(edited!.start).toBe(11);
+    expect(text.substring(edited!.start!, edited!.end!)).toBe('Payment is due within 30 days of invoice.');
+    expect(edited!.page).toBe(2);
+    expect(edited!.review!.original!.quote).toBe(extraction.quote);
+  });
+
+  test('should refuse an edited quote that is not in the source', () => {
+    const result = reviewExtraction(extraction, { type: 'edit', quote: 'Payment is due on receipt.' }, 'Dana', source);
+
+    expect(result.extraction).toBeUndefined();
+    expect(result.error).toBe('The edited quote does not appear in the source document');
+  });
+
+  test('should restore the model output on reset', () => {
+    const { extraction: rejected } = reviewExtraction(extraction, { type: 'reject' }, null, source);
+    const { extraction: reset } = reviewExtraction(rejected!, { type: 'reset' }, null, source);
+
+    expect(getReviewedQuote(rejected!)).toBe('');
+    expect(reset).toEqual({ ...extraction, review: { status: 'pending', reviewer: null, reviewedAt: null } });
+    expect(summarizeReviews([rejected!, reset!])).toEqual({ pending: 1, accepted: 0, edited: 0, rejected: 1 });
+  });
+});
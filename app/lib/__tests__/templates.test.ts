@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTemplate, deleteTemplate, getTemplate, listTemplates, resolveTemplate, updateTemplate } from '../template-store';
+import { DEFAULT_FIELDS, parseTemplateRef } from '../templates';
+import { runExtractionPipeline } from '../pipeline';
+import { listExtractions } from '../history';
+import { createMockProvider, loadMockFixture } from '../mock-provider';
+
+describe('template store', () => {
+  beforeEach(() => {
+    process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-test-'));
+  });
+
+  test('should parse template references', () => {
+    expect(parseTemplateRef('msa@2')).toEqual({ id: 'msa', version: 2 });
+    expect(parseTemplateRef('msa')).toEqual({ id: 'msa', version: null });
+    expect(parseTemplateRef('../etc@1')).toBeNull();
+  });
+
+  test('should add a version when the fields change', async () => {
+    const { template } = await createTemplate({
+      name: 'Vendor MSA',
+      contractType: 'msa',
+      fields: [{ name: 'Payment', description: 'Payment terms' }],
+    });
+
+    const renamed = await updateTemplate(template!.id, { name: 'Vendor MSA (2025)' });
+    expect(renamed!.template!.versions).toHaveLength(1);
+
+    const updated = await updateTemplate(template!.id, {
+      fields: [{ name: 'Payment', description: 'Payment terms', type: 'duration' }],
+    });
+    expect(updated!.template!.versions.map(v => v.version)).toEqual([1, 2]);
+
+    const v1 = await resolveTemplate(`${template!.id}@1`);
+    expect(v1.fields![0].type).toBeUndefined();
+    expect(v1.template).toEqual({ id: template!.id, name: 'Vendor MSA (2025)', version: 1 });
+    expect((await resolveTemplate(template!.id)).template!.version).toBe(2);
+    expect((await resolveTemplate(`${template!.id}@3`)).error).toMatch(/has no version 3/);
+  });
+
+  test('should reject invalid templates', async () => {
+    expect((await createTemplate({ name: '', fields: DEFAULT_FIELDS })).error).toBe('Template name is required');
+    expect((await createTemplate({ name: 'Empty', fields: [] })).error).toBe('A template needs at least one field');
+    expect((await createTemplate({
+      name: 'Dupes',
+      fields: [{ name: 'A', description: '' }, { name: 'a', description: '' }],
+    })).error).toBe('Field names must be unique');
+  });
+
+  test('should version built-in templates but never delete them', async () => {
+    expect((await listTemplates()).map(t => t.id)).toEqual(['default', 'nda', 'msa', 'sow', 'order-form']);
+    expect((await listTemplates('nda')).map(t => t.id)).toEqual(['nda']);
+
+    await updateTemplate('default', { fields: DEFAULT_FIELDS.slice(0, 2) });
+    expect((await getTemplate('default'))!.versions).toHaveLength(2);
+    expect((await deleteTemplate('default')).error).toBe('Built-in templates cannot be deleted');
+  });
+
+  test('should record the template version on extraction results', async () => {
+    const buffer = fs.readFileSync(path.join(process.cwd(), 'fixtures/sample-contract.txt'));
+    const { fields, template } = await resolveTemplate('default@1');
+
+    const result = await runExtractionPipeline(
+      { fileName: 'sample-contract.txt', buffer, model: 'gpt-5', fields: fields!, template },
+      createMockProvider(loadMockFixture('fixtures/mock-extractions.json'))
+    );
+
+    expect(result.template).toEqual({ id: 'default', name: 'Commercial terms', version: 1 });
+    const [saved] = await listExtractions({ templateId: 'default' });
+    expect(saved.template).toEqual(result.template);
+  });
+});
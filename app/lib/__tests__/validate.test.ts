@@ -1,5 +1,4 @@
-import { validateExtraction, validateExtractions, generateValidationReport } from '../validate';
-import { Extraction } from '../schema';
+import { Extraction, validateExtraction, validateExtractions, generateValidationReport } from '../schema';
 
 describe('validateExtraction', () => {
   const sampleText = `
@@ -17,6 +16,7 @@ describe('validateExtraction', () => {
       field: 'Payment',
       status: 'found',
       quote: 'All payments shall be made within 30 days of invoice date.',
+      reasoning: '',
       page: 1,
       start: null,
       end: null,
@@ -36,6 +36,7 @@ describe('validateExtraction', () => {
       field: 'Tax',
       status: 'found',
       quote: 'This text does not exist in the contract.',
+      reasoning: '',
       page: 1,
       start: null,
       end: null,
@@ -56,6 +57,7 @@ describe('validateExtraction', () => {
       field: 'Shipping',
       status: 'found',
       quote: 'Products   will   be   shipped   FOB   origin.',
+      reasoning: '',
       page: 1,
       start: null,
       end: null,
@@ -73,6 +75,7 @@ describe('validateExtraction', () => {
       field: 'Discount',
       status: 'not_found',
       quote: '',
+      reasoning: '',
       page: null,
       start: null,
       end: null,
@@ -86,6 +89,58 @@ describe('validateExtraction', () => {
   });
 });
 
+describe('validation records', () => {
+  const text = 'The Licensee shall pay all undisputed invoices by wire transfer to the account designated by the Licensor.';
+  const extraction = (quote: string): Extraction => ({
+    field: 'Payment',
+    status: 'found',
+    quote,
+    reasoning: '',
+    page: null,
+    start: null,
+    end: null,
+    confidence: 0.9
+  });
+
+  test('should record an exact match without adjustment', () => {
+    const result = validateExtraction(extraction('pay all undisputed invoices'), text);
+
+    expect(result.validation).toEqual({
+      method: 'exact',
+      similarity: 1,
+      originalQuote: 'pay all undisputed invoices',
+      correctedQuote: null,
+      confidenceAdjustment: 0
+    });
+  });
+
+  test('should record the model quote, the correction and the confidence change', () => {
+    const quote = 'The Licensee shall pay all undisputed invoices via wire transfer to the account designated by the Licensor.';
+    const result = validateExtraction(extraction(quote), text);
+
+    expect(result.validation!.method).toBe('fuzzy');
+    expect(result.validation!.originalQuote).toBe(quote);
+    expect(result.validation!.correctedQuote).toBe(text);
+    expect(result.validation!.confidenceAdjustment).toBeCloseTo(result.confidence - 0.9);
+    expect(generateValidationReport([extraction(quote)], [result]).correctedFields).toEqual(['Payment']);
+  });
+
+  test('should keep the unverifiable quote of a failed extraction', () => {
+    const result = validateExtraction(extraction('Payment is due upon receipt.'), text);
+
+    expect(result.status).toBe('not_found');
+    expect(result.validation).toMatchObject({ method: 'failed', similarity: null, originalQuote: 'Payment is due upon receipt.', confidenceAdjustment: -0.9 });
+  });
+
+  test('should keep the chunk-level record when the corrected quote is re-validated', () => {
+    const corrected = validateExtraction(extraction('the  Licensee shall pay'), text);
+    const revalidated = validateExtraction(corrected, text);
+
+    expect(corrected.validation!.method).toBe('whitespace');
+    expect(revalidated.validation).toEqual(corrected.validation);
+  });
+});
+
 describe('validateExtractions', () => {
   const sampleText = 'Payment is due in 30 days. Shipping is free.';
 
@@ -95,6 +150,7 @@ describe('validateExtractions', () => {
         field: 'Payment',
         status: 'found',
         quote: 'Payment is due in 30 days.',
+        reasoning: '',
         page: 1,
         start: null,
         end: null,
@@ -104,6 +160,7 @@ describe('validateExtractions', () => {
         field: 'Shipping',
         status: 'found',
         quote: 'Shipping is free.',
+        reasoning: '',
         page: 1,
         start: null,
         end: null,
@@ -113,6 +170,7 @@ describe('validateExtractions', () => {
         field: 'Tax',
         status: 'found',
         quote: 'This does not exist.',
+        reasoning: '',
         page: 1,
         start: null,
         end: null,
@@ -136,6 +194,7 @@ describe('generateValidationReport', () => {
         field: 'Payment',
         status: 'found',
         quote: 'Valid quote',
+        reasoning: '',
         page: 1,
         start: 0,
         end: 10,
@@ -145,6 +204,7 @@ describe('generateValidationReport', () => {
         field: 'Tax',
         status: 'found',
         quote: 'Invalid quote',
+        reasoning: '',
         page: 1,
         start: 0,
         end: 10,
@@ -157,6 +217,7 @@ describe('generateValidationReport', () => {
         field: 'Payment',
         status: 'found',
         quote: 'Valid quote',
+        reasoning: '',
         page: 1,
         start: 0,
         end: 10,
@@ -166,6 +227,7 @@ describe('generateValidationReport', () => {
         field: 'Tax',
         status: 'not_found',
         quote: '',
+        reasoning: '',
         page: null,
         start: null,
         end: null,
@@ -0,0 +1,334 @@
+import { distance } from "fastest-levenshtein";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How a quote was located in the source text:
+ * - exact: verbatim
+ * - whitespace: equal once whitespace, case, quotes, dashes, ligatures and
+ *   line-break hyphenation are normalized
+ * - fuzzy: the closest window by edit distance, or ellipsis-separated parts
+ */
+export type AlignmentMethod = "exact" | "whitespace" | "fuzzy";
+
+export type QuoteAlignment = {
+  start: number; // Offsets into the original text
+  end: number;
+  text: string; // The original text at those offsets
+  method: AlignmentMethod;
+  similarity: number; // 0..1; 1 unless the match is fuzzy
+};
+
+/**
+ * Text after alignment normalization, with the original offset of every
+ * normalized character so matches can be mapped back exactly
+ */
+export type NormalizedText = {
+  text: string;
+  offsets: number[];
+};
+
+// Fuzzy matches below this similarity are treated as not found
+export const MIN_FUZZY_SIMILARITY = 0.85;
+
+// Shorter quotes ("Net 30") must match after normalization; a few edits would
+// turn them into a different term
+const MIN_FUZZY_CHARS = 20;
+
+// Most text an ellipsis in a quote may stand for
+const MAX_ELLIPSIS_GAP = 2000;
+
+// Texts with more candidate windows than this are only searched around the
+// places the quote's rarest words occur, since every window costs an edit
+// distance over the whole quote
+const MAX_FULL_SCAN_WINDOWS = 64;
+
+// Words that occur more often than this say little about where a quote is
+const MAX_ANCHOR_OCCURRENCES = 50;
+
+// Most places searched for one quote
+const MAX_ANCHOR_REGIONS = 8;
+
+const WORD = /[\p{L}\p{N}]{3,}/gu;
+
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  "\u2018": "'", "\u2019": "'", "\u201A": "'", "\u201B": "'", "\u2032": "'",
+  "\u201C": '"', "\u201D": '"', "\u201E": '"', "\u201F": '"', "\u2033": '"', "\u00AB": '"', "\u00BB": '"',
+  "\u2010": "-", "\u2011": "-", "\u2012": "-", "\u2013": "-", "\u2014": "-", "\u2015": "-", "\u2212": "-",
+  "\u2026": "...",
+};
+
+// Soft hyphens, zero-width spaces and joiners, byte order marks
+const INVISIBLE_CHARACTERS = /[\u00AD\u200B-\u200D\u2060\uFEFF]/;
+
+// Whitespace containing a line break before a lowercase letter
+const HYPHENATION_BREAK = /[ \t]*\r?\n\s*(?=\p{Ll})/uy;
+
+const ELLIPSIS = /\s*\[?\.{3,}\]?\s*/;
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+/**
+ * Locate a model-supplied quote in the source text. Tries a verbatim match,
+ * then a normalized one, then a sliding-window edit-distance search, and
+ * finally matches the parts of a quote the model shortened with an ellipsis.
+ * Returns null when no span is similar enough.
+ */
+export function alignQuote(quote: string, fullText: string): QuoteAlignment | null {
+  const exactIndex = fullText.indexOf(quote);
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + quote.length, text: quote, method: "exact", similarity: 1 };
+  }
+
+  const source = normalizeSource(fullText);
+  const target = normalizeForAlignment(quote).text;
+  if (!target) return null;
+
+  const match = alignNormalized(target, source.text, 0) ?? alignEllipsisParts(target, source.text);
+  if (!match) return null;
+
+  const start = source.offsets[match.start];
+  const end = source.offsets[match.end - 1] + 1;
+  return { start, end, text: fullText.substring(start, end), method: match.method, similarity: match.similarity };
+}
+
+/**
+ * Confidence after alignment: unchanged for verbatim quotes, slightly lower
+ * for normalized matches, and scaled by similarity for fuzzy ones
+ */
+export function adjustConfidence(confidence: number, alignment: QuoteAlignment): number {
+  switch (alignment.method) {
+    case "exact":
+      return confidence;
+    case "whitespace":
+      return Math.max(0, confidence - 0.05);
+    case "fuzzy":
+      return Math.max(0, confidence * alignment.similarity - 0.1);
+  }
+}
+
+/**
+ * Collapse whitespace, lowercase, and fold typographic variants (smart quotes,
+ * dashes, ligatures, ellipses, line-break hyphenation) to plain ASCII forms
+ */
+export function normalizeForAlignment(original: string): NormalizedText {
+  let text = "";
+  const offsets: number[] = [];
+  let pendingSpace = -1;
+
+  for (let i = 0; i < original.length; i++) {
+    const char = original[i];
+    if (INVISIBLE_CHARACTERS.test(char)) continue;
+
+    if (/\s/.test(char)) {
+      if (pendingSpace === -1) pendingSpace = i;
+      continue;
+    }
+
+    // "agree-\nment" reads as "agreement"
+    if ((char === "-" || char === "\u2010") && pendingSpace === -1 && i > 0 && /\p{L}/u.test(original[i - 1])) {
+      HYPHENATION_BREAK.lastIndex = i + 1;
+      if (HYPHENATION_BREAK.test(original)) {
+        i = HYPHENATION_BREAK.lastIndex - 1;
+        continue;
+      }
+    }
+
+    if (pendingSpace !== -1 && text.length > 0) {
+      text += " ";
+      offsets.push(pendingSpace);
+    }
+    pendingSpace = -1;
+
+    const replacement = (CHARACTER_REPLACEMENTS[char] ?? char.normalize("NFKC")).toLowerCase();
+    for (const part of replacement) {
+      text += part;
+      offsets.push(i);
+    }
+  }
+
+  return { text, offsets };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// A run validates every quote against the same text; normalize it once
+let lastSource: { original: string; normalized: NormalizedText } | null = null;
+
+function normalizeSource(fullText: string): NormalizedText {
+  if (lastSource?.original !== fullText) {
+    lastSource = { original: fullText, normalized: normalizeForAlignment(fullText) };
+  }
+  return lastSource.normalized;
+}
+
+type NormalizedMatch = { start: number; end: number; method: AlignmentMethod; similarity: number };
+
+/**
+ * Match within normalized text at or after `from`
+ */
+function alignNormalized(quote: string, text: string, from: number): NormalizedMatch | null {
+  const index = text.indexOf(quote, from);
+  if (index !== -1) {
+    return { start: index, end: index + quote.length, method: "whitespace", similarity: 1 };
+  }
+
+  if (quote.length < MIN_FUZZY_CHARS) return null;
+  const window = findClosestWindow(quote, text, from);
+  if (!window || window.similarity < MIN_FUZZY_SIMILARITY) return null;
+  // A fuzzy match may fix wording but never change an amount, date or period
+  if (numbersIn(quote) !== numbersIn(text.substring(window.start, window.end))) return null;
+  return { ...window, method: "fuzzy" };
+}
+
+function numbersIn(text: string): string {
+  return (text.match(/\d+/g) || []).join(" ");
+}
+
+/**
+ * "The Licensee shall ... within thirty (30) days" — match each part in
+ * order and return the span from the first to the last
+ */
+function alignEllipsisParts(quote: string, text: string): NormalizedMatch | null {
+  const parts = quote.split(ELLIPSIS).filter(part => part.length > 0);
+  if (parts.length < 2) return null;
+
+  const matches: NormalizedMatch[] = [];
+  let from = 0;
+  for (const part of parts) {
+    const match = alignNormalized(part, text, from);
+    if (!match) return null;
+    if (matches.length > 0 && match.start - from > MAX_ELLIPSIS_GAP) return null;
+    matches.push(match);
+    from = match.end;
+  }
+
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  return {
+    start: matches[0].start,
+    end: matches[matches.length - 1].end,
+    method: "fuzzy",
+    similarity: matches.reduce((sum, match, i) => sum + match.similarity * parts[i].length, 0) / totalLength,
+  };
+}
+
+/**
+ * Slide a quote-length window across the text (or, for long texts, the
+ * regions around anchor words) in coarse steps, then hill-climb the best
+ * window's edges one shrinking step at a time. Edit distance changes
+ * smoothly as a window slides onto the matching passage, so the coarse scan
+ * lands next to it.
+ */
+function findClosestWindow(quote: string, text: string, from: number): { start: number; end: number; similarity: number } | null {
+  const length = quote.length;
+  if (text.length - from < length * MIN_FUZZY_SIMILARITY) return null;
+
+  const score = (start: number, end: number) => distance(quote, text.substring(start, end));
+  const step = Math.max(1, Math.floor(length / 8));
+  const lastStart = Math.max(from, text.length - length);
+
+  const regions = (lastStart - from) / step > MAX_FULL_SCAN_WINDOWS
+    ? findAnchorRegions(quote, text, from, step, lastStart)
+    : [{ start: from, end: lastStart }];
+  if (regions.length === 0) return null;
+
+  let best = { start: from, end: Math.min(text.length, from + length), distance: Infinity };
+  for (const region of regions) {
+    for (let start = region.start; start <= region.end; start = start < region.end ? Math.min(start + step, region.end) : region.end + 1) {
+      const end = Math.min(text.length, start + length);
+      const d = score(start, end);
+      if (d < best.distance) best = { start, end, distance: d };
+    }
+  }
+
+  for (let delta = step; delta >= 1; delta = Math.floor(delta / 2)) {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const [moveStart, moveEnd] of [[-delta, -delta], [delta, delta], [-delta, 0], [delta, 0], [0, -delta], [0, delta]]) {
+        const start = best.start + moveStart;
+        const end = best.end + moveEnd;
+        if (start < from || end > text.length || end - start < 1) continue;
+        const d = score(start, end);
+        if (d < best.distance) {
+          best = { start, end, distance: d };
+          improved = true;
+        }
+      }
+    }
+  }
+
+  // Don't start or end a match on the space between words
+  while (best.start < best.end && text[best.start] === " ") best.start++;
+  while (best.end > best.start && text[best.end - 1] === " ") best.end--;
+  if (best.end <= best.start) return null;
+
+  const d = score(best.start, best.end);
+  return { start: best.start, end: best.end, similarity: 1 - d / Math.max(length, best.end - best.start) };
+}
+
+/**
+ * Where in the text a quote could start, going by its distinctive words:
+ * each occurrence of a quote word votes for the window that would put it at
+ * its offset in the quote, weighted by how rare the word is. The windows
+ * with the most votes, widened by a step or two to allow for edits, are the
+ * regions to search.
+ */
+function findAnchorRegions(quote: string, text: string, from: number, step: number, lastStart: number): { start: number; end: number }[] {
+  const quoteWords = new Map<string, number[]>();
+  for (const match of Array.from(quote.matchAll(WORD))) {
+    if (!quoteWords.has(match[0])) quoteWords.set(match[0], []);
+    quoteWords.get(match[0])!.push(match.index!);
+  }
+
+  const occurrences = new Map<string, number[]>();
+  WORD.lastIndex = from;
+  for (let match = WORD.exec(text); match; match = WORD.exec(text)) {
+    if (!quoteWords.has(match[0])) continue;
+    if (!occurrences.has(match[0])) occurrences.set(match[0], []);
+    occurrences.get(match[0])!.push(match.index);
+  }
+  WORD.lastIndex = 0;
+
+  // Fall back to the rarest word when every word is common
+  const found = Array.from(occurrences.entries()).sort((a, b) => a[1].length - b[1].length);
+  const anchors = found.filter(([, positions]) => positions.length <= MAX_ANCHOR_OCCURRENCES);
+  if (anchors.length === 0 && found.length > 0) anchors.push(found[0]);
+
+  const votes = new Map<number, number>();
+  for (const [word, positions] of anchors) {
+    const weight = Math.log(1 + MAX_ANCHOR_OCCURRENCES / positions.length);
+    const buckets = new Set<number>();
+    for (const position of positions) {
+      for (const offset of quoteWords.get(word)!) {
+        buckets.add(Math.floor((position - offset - from) / step));
+      }
+    }
+    buckets.forEach(bucket => votes.set(bucket, (votes.get(bucket) ?? 0) + weight));
+  }
+
+  const regions = Array.from(votes.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ANCHOR_REGIONS)
+    .map(([bucket]) => ({
+      start: Math.max(from, from + (bucket - 2) * step),
+      end: Math.min(lastStart, from + (bucket + 3) * step),
+    }))
+    .filter(region => region.start <= region.end)
+    .sort((a, b) => a.start - b.start);
+
+  // Neighbouring buckets usually share a passage; scan it once
+  const merged: { start: number; end: number }[] = [];
+  for (const region of regions) {
+    const last = merged[merged.length - 1];
+    if (last && region.start <= last.end + step) last.end = Math.max(last.end, region.end);
+    else merged.push({ ...region });
+  }
+  return merged;
+}
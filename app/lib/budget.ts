@@ -0,0 +1,384 @@
+import crypto from "crypto";
+import { CompletionRequest, CompletionResult, ExtractionProvider, isOfflineProvider } from "./provider";
+import { calculateCost, estimateRequestTokens, isReasoningModel } from "./cost";
+import { dataPath, listDir, readJSON, writeJSON } from "./store";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Spending limits in USD; null means unlimited. Days and months are UTC.
+ */
+export type BudgetLimits = {
+  perRequestUSD: number | null; // One document's extraction
+  perBatchUSD: number | null; // One bulk job
+  perDayUSD: number | null;
+  perMonthUSD: number | null;
+};
+
+export type BudgetPeriod = "request" | "batch" | "day" | "month";
+
+/**
+ * What a model call is spent on, for the ledger. Read at each call, so the
+ * pipeline can fill in the template once auto-selection has picked one.
+ */
+export type SpendScope = {
+  fileName: string;
+  template: string | null; // "templateId@version", or null for default or custom fields
+  jobId: string | null;
+  jobCreatedAt?: string; // When the job was created, so its spend is summed from that month on; not recorded
+};
+
+/**
+ * One model call's actual usage
+ */
+export type LedgerEntry = Omit<SpendScope, "jobCreatedAt"> & {
+  id: string;
+  at: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  estimatedUSD: number;
+};
+
+export type SpendBucket = {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedUSD: number;
+};
+
+export type BudgetStatus = {
+  limitUSD: number | null;
+  spentUSD: number;
+  remainingUSD: number | null;
+};
+
+/**
+ * What GET /api/spend returns
+ */
+export type SpendSummary = {
+  from: string; // First day covered, YYYY-MM-DD
+  to: string;
+  limits: BudgetLimits;
+  today: BudgetStatus;
+  month: BudgetStatus;
+  total: SpendBucket;
+  byDay: SpendBucket[];
+  byModel: SpendBucket[];
+  byTemplate: SpendBucket[];
+};
+
+/**
+ * Thrown before a model call that would take spend past a limit. Extraction
+ * stages that otherwise turn failures into not_found results let it through,
+ * so the request fails instead of returning an empty result.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly period: BudgetPeriod,
+    readonly limitUSD: number,
+    readonly spentUSD: number,
+    readonly callEstimateUSD: number
+  ) {
+    super(`${PERIOD_LABELS[period]} budget of $${limitUSD.toFixed(2)} reached: $${spentUSD.toFixed(4)} spent, next call estimated at $${callEstimateUSD.toFixed(4)}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  request: "Per-request",
+  batch: "Per-batch",
+  day: "Daily",
+  month: "Monthly",
+};
+
+// Output allowed for when pricing a call before it is made. Extraction calls
+// answer every field with a quote and reasoning; reasoning models think first.
+const CALL_OUTPUT_ALLOWANCE_TOKENS = 2000;
+const CALL_REASONING_ALLOWANCE_TOKENS = 4000;
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/**
+ * Limits from BUDGET_PER_REQUEST_USD, BUDGET_PER_BATCH_USD, BUDGET_DAILY_USD
+ * and BUDGET_MONTHLY_USD; unset or empty means unlimited
+ */
+export function getBudgetLimits(): BudgetLimits {
+  return {
+    perRequestUSD: readLimit(process.env.BUDGET_PER_REQUEST_USD),
+    perBatchUSD: readLimit(process.env.BUDGET_PER_BATCH_USD),
+    perDayUSD: readLimit(process.env.BUDGET_DAILY_USD),
+    perMonthUSD: readLimit(process.env.BUDGET_MONTHLY_USD),
+  };
+}
+
+/**
+ * What a call will cost at most, as far as can be told before making it:
+ * its prompt at estimateTokens rates plus an output allowance
+ */
+export function estimateCallCost(request: CompletionRequest): number {
+  const reasoningTokens = isReasoningModel(request.model) ? CALL_REASONING_ALLOWANCE_TOKENS : 0;
+  return calculateCost(
+    request.model,
+    estimateRequestTokens(request),
+    CALL_OUTPUT_ALLOWANCE_TOKENS + reasoningTokens,
+    { reasoningTokens }
+  );
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Wrap `provider` so every call is checked against the limits before it is
+ * made and recorded in the ledger after. Calls that would exceed a limit
+ * throw BudgetExceededError without reaching the provider. Offline providers
+ * (mock, replay) are returned as they are.
+ */
+export function createBudgetedProvider(
+  provider: ExtractionProvider,
+  scope: SpendScope,
+  limits: BudgetLimits = getBudgetLimits()
+): ExtractionProvider {
+  if (isOfflineProvider(provider)) return provider;
+
+  // Tags this request's reservations, so concurrent chunk calls count each
+  // other's estimates against the per-request limit
+  const requestId = crypto.randomUUID();
+  let requestSpentUSD = 0;
+
+  return {
+    name: provider.name,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const callEstimateUSD = estimateCallCost(request);
+      const reservation = await reserveSpend(scope, limits, requestId, requestSpentUSD, callEstimateUSD);
+
+      let result: CompletionResult;
+      try {
+        result = await provider.complete(request);
+      } catch (error) {
+        releaseReservation(reservation);
+        throw error;
+      }
+
+      const estimatedUSD = calculateCost(result.model, result.inputTokens, result.outputTokens, result);
+      requestSpentUSD += estimatedUSD;
+      const { jobCreatedAt: _jobCreatedAt, ...recorded } = scope;
+      await recordSpend(reservation, {
+        ...recorded,
+        id: crypto.randomUUID(),
+        at: new Date().toISOString(),
+        model: result.model,
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+        cachedInputTokens: result.cachedInputTokens || 0,
+        reasoningTokens: result.reasoningTokens || 0,
+        estimatedUSD,
+      });
+      return result;
+    },
+  };
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * A call that has passed the budget check but not yet been recorded. Its
+ * estimate counts against the limits so concurrent calls can't all slip
+ * under the same remaining budget.
+ */
+type Reservation = {
+  requestId: string;
+  jobId: string | null;
+  day: string;
+  estimatedUSD: number;
+};
+
+const reservations = new Set<Reservation>();
+
+// Ledger reads and writes run one at a time so concurrent calls don't lose entries
+let ledgerChain: Promise<unknown> = Promise.resolve();
+
+function withLedgerLock<T>(fn: () => Promise<T>): Promise<T> {
+  const next = ledgerChain.then(fn);
+  ledgerChain = next.catch(() => {});
+  return next;
+}
+
+function ledgerPath(month: string): string {
+  return dataPath("ledger", `${month}.json`);
+}
+
+/**
+ * Every recorded call in a month (YYYY-MM), oldest first
+ */
+export async function readLedger(month: string): Promise<LedgerEntry[]> {
+  return (await readJSON<LedgerEntry[]>(ledgerPath(month))) || [];
+}
+
+function reserveSpend(
+  scope: SpendScope,
+  limits: BudgetLimits,
+  requestId: string,
+  requestSpentUSD: number,
+  callEstimateUSD: number
+): Promise<Reservation> {
+  return withLedgerLock(async () => {
+    const day = utcDay(new Date());
+    const month = day.substring(0, 7);
+    const entries = await readLedger(month);
+    const pending = Array.from(reservations);
+
+    // A job that runs into a new month keeps counting what it spent before
+    const jobEntries: LedgerEntry[] = [];
+    if (scope.jobId !== null) {
+      for (const earlier of monthsBetween(scope.jobCreatedAt?.substring(0, 7) ?? month, month)) {
+        jobEntries.push(...(earlier === month ? entries : await readLedger(earlier)).filter(e => e.jobId === scope.jobId));
+      }
+    }
+
+    const spent = {
+      request: requestSpentUSD + sumUSD(pending.filter(r => r.requestId === requestId)),
+      batch: scope.jobId === null ? 0 : sumUSD(jobEntries) + sumUSD(pending.filter(r => r.jobId === scope.jobId)),
+      day: sumUSD(entries.filter(e => e.at.startsWith(day))) + sumUSD(pending.filter(r => r.day === day)),
+      month: sumUSD(entries) + sumUSD(pending),
+    };
+    const checks: [BudgetPeriod, number | null][] = [
+      ["request", limits.perRequestUSD],
+      ["batch", scope.jobId === null ? null : limits.perBatchUSD],
+      ["day", limits.perDayUSD],
+      ["month", limits.perMonthUSD],
+    ];
+
+    for (const [period, limitUSD] of checks) {
+      if (limitUSD !== null && spent[period] + callEstimateUSD > limitUSD) {
+        console.log(`Budget: refused a call for ${scope.fileName}; ${period} spend $${spent[period].toFixed(4)} + $${callEstimateUSD.toFixed(4)} > $${limitUSD.toFixed(2)}`);
+        throw new BudgetExceededError(period, limitUSD, spent[period], callEstimateUSD);
+      }
+    }
+
+    const reservation: Reservation = { requestId, jobId: scope.jobId, day, estimatedUSD: callEstimateUSD };
+    reservations.add(reservation);
+    return reservation;
+  });
+}
+
+function releaseReservation(reservation: Reservation): void {
+  reservations.delete(reservation);
+}
+
+/**
+ * Replace a call's reservation with its actual cost. A failed write is
+ * logged rather than thrown; the model has already answered.
+ */
+function recordSpend(reservation: Reservation, entry: LedgerEntry): Promise<void> {
+  return withLedgerLock(async () => {
+    try {
+      const month = entry.at.substring(0, 7);
+      await writeJSON(ledgerPath(month), [...await readLedger(month), entry]);
+    } catch (error) {
+      console.error("Failed to record spend:", error);
+    } finally {
+      releaseReservation(reservation);
+    }
+  });
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Spend over the last `days` days (including today), grouped by day, model
+ * and template, with the status of the daily and monthly limits
+ */
+export async function summarizeSpend(days = 30, now = new Date()): Promise<SpendSummary> {
+  const to = utcDay(now);
+  const from = utcDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+  const limits = getBudgetLimits();
+
+  const months = (await listDir(dataPath("ledger")))
+    .filter(name => /^\d{4}-\d{2}\.json$/.test(name))
+    .map(name => name.replace(/\.json$/, ""))
+    .filter(month => month >= from.substring(0, 7) && month <= to.substring(0, 7))
+    .sort();
+
+  const entries: LedgerEntry[] = [];
+  for (const month of months) {
+    entries.push(...(await readLedger(month)).filter(e => e.at.substring(0, 10) >= from && e.at.substring(0, 10) <= to));
+  }
+  const thisMonth = await readLedger(to.substring(0, 7));
+
+  return {
+    from,
+    to,
+    limits,
+    today: budgetStatus(limits.perDayUSD, sumUSD(thisMonth.filter(e => e.at.startsWith(to)))),
+    month: budgetStatus(limits.perMonthUSD, sumUSD(thisMonth)),
+    total: { ...bucket(entries), key: "total" },
+    byDay: groupBy(entries, e => e.at.substring(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: groupBy(entries, e => e.model).sort((a, b) => b.estimatedUSD - a.estimatedUSD),
+    byTemplate: groupBy(entries, e => e.template || "Default or custom fields").sort((a, b) => b.estimatedUSD - a.estimatedUSD),
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function readLimit(value: string | undefined): number | null {
+  const parsed = parseFloat(value ?? "");
+  return isNaN(parsed) ? null : Math.max(0, parsed);
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Every month (YYYY-MM) from `from` to `to`, inclusive
+ */
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  const [year, month] = from.split("-").map(Number);
+  for (let date = new Date(Date.UTC(year, month - 1, 1)); date.toISOString().substring(0, 7) <= to; date.setUTCMonth(date.getUTCMonth() + 1)) {
+    months.push(date.toISOString().substring(0, 7));
+  }
+  return months;
+}
+
+function sumUSD(items: { estimatedUSD: number }[]): number {
+  return items.reduce((sum, item) => sum + item.estimatedUSD, 0);
+}
+
+function budgetStatus(limitUSD: number | null, spentUSD: number): BudgetStatus {
+  return { limitUSD, spentUSD, remainingUSD: limitUSD === null ? null : Math.max(0, limitUSD - spentUSD) };
+}
+
+function bucket(entries: LedgerEntry[]): Omit<SpendBucket, "key"> {
+  return {
+    calls: entries.length,
+    inputTokens: entries.reduce((sum, e) => sum + e.inputTokens, 0),
+    outputTokens: entries.reduce((sum, e) => sum + e.outputTokens, 0),
+    estimatedUSD: sumUSD(entries),
+  };
+}
+
+function groupBy(entries: LedgerEntry[], keyOf: (entry: LedgerEntry) => string): SpendBucket[] {
+  const groups = new Map<string, LedgerEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, ...bucket(group) }));
+}
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import { ApiResponse, DocumentText, KeyTermField } from "./schema";
+import { dataPath, readJSON, writeJSON } from "./store";
+import { getExtractionView, toApiResponse } from "./history";
+import { PROMPT_VERSION } from "./extract";
+
+// ============================================================================
+// RESULT CACHE
+// ============================================================================
+
+/**
+ * Points a cache key at the saved history run that answered it
+ */
+type CacheEntry = {
+  extractionId: string;
+  createdAt: string;
+};
+
+/**
+ * The optional passes a run made; a run that skipped one can't answer a
+ * request that wants it
+ */
+export type CachePasses = {
+  retry?: boolean; // Default true, as in ExtractionRequest
+  keyDates?: boolean;
+};
+
+export type CachedResult = {
+  response: ApiResponse;
+  document: DocumentText | null;
+};
+
+/**
+ * Cache key for one extraction: the file's SHA-256, the field definitions
+ * (whitespace-normalized, order preserved since it sets the output order,
+ * including type, options and multiplicity since they shape the result),
+ * the requested model, the optional passes and the prompt version
+ */
+export function getCacheKey(fileHash: string, fields: KeyTermField[], model: string, passes: CachePasses = {}): string {
+  const normalizedFields = fields.map(field => [
+    normalize(field.name),
+    normalize(field.description),
+    field.type ?? "text",
+    (field.options ?? []).map(normalize),
+    field.multiple ?? false,
+  ]);
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      fileHash,
+      fields: normalizedFields,
+      model,
+      retry: passes.retry !== false,
+      keyDates: passes.keyDates !== false,
+      promptVersion: PROMPT_VERSION,
+    }))
+    .digest("hex");
+}
+
+function cachePath(key: string): string {
+  return dataPath("cache", `${key}.json`);
+}
+
+/**
+ * Look up a previous result. Returns the stored response flagged as cached,
+ * with zero usage since no model calls were made.
+ */
+export async function getCachedResult(key: string): Promise<CachedResult | null> {
+  const entry = await readJSON<CacheEntry>(cachePath(key));
+  if (!entry) return null;
+
+  // The history record may have been deleted since
+  const record = await getExtractionView(entry.extractionId);
+  if (!record) return null;
+
+  const response = toApiResponse(record);
+  return {
+    response: {
+      ...response,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedUSD: 0 },
+      notes: [
+        `Cached result from ${record.createdAt} (originally ${record.usage.totalTokens.toLocaleString()} tokens, $${record.usage.estimatedUSD.toFixed(4)}); re-run with force to extract again`,
+        ...(response.notes || []),
+      ],
+    },
+    document: record.document,
+  };
+}
+
+export async function setCachedResult(key: string, extractionId: string): Promise<void> {
+  const entry: CacheEntry = { extractionId, createdAt: new Date().toISOString() };
+  await writeJSON(cachePath(key), entry);
+}
+
+function normalize(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,143 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DocumentChunk = {
+  index: number;
+  text: string;
+  start: number; // Global offset of the first character of this chunk
+  end: number; // Global offset just past the last character of this chunk
+  startPage: number; // 1-based
+  endPage: number; // 1-based
+};
+
+type PagedText = {
+  text: string;
+  pages: number[];
+};
+
+type PageRange = {
+  page: number;
+  start: number;
+  end: number;
+};
+
+// 128k context for most models, ~100k chars to be safe
+export const DEFAULT_CHUNK_CHARS = 100000;
+export const DEFAULT_CHUNK_OVERLAP = 1000;
+
+// ============================================================================
+// CHUNKING
+// ============================================================================
+
+/**
+ * Split a parsed document into chunks of roughly `maxChars` characters,
+ * breaking on page boundaries wherever possible. Chunks after the first
+ * start `overlap` characters early so clauses straddling a boundary are
+ * seen whole by at least one chunk.
+ */
+export function chunkDocument(
+  doc: PagedText,
+  maxChars: number = DEFAULT_CHUNK_CHARS,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): DocumentChunk[] {
+  const ranges = splitOversizedRanges(getPageRanges(doc), doc.text, maxChars);
+  const chunks: DocumentChunk[] = [];
+
+  let current: PageRange[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+
+    const rangeStart = current[0].start;
+    const end = current[current.length - 1].end;
+    const start = chunks.length === 0 ? rangeStart : Math.max(0, rangeStart - overlap);
+
+    chunks.push({
+      index: chunks.length,
+      text: doc.text.substring(start, end),
+      start,
+      end,
+      startPage: pageForOffset(doc.pages, start, doc.text.length),
+      endPage: current[current.length - 1].page,
+    });
+    current = [];
+  };
+
+  for (const range of ranges) {
+    const currentStart = current.length > 0 ? current[0].start : range.start;
+    if (current.length > 0 && range.end - currentStart > maxChars) {
+      flush();
+    }
+    current.push(range);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Find the 1-based page containing a global character offset
+ */
+export function pageForOffset(pages: number[], offset: number, textLength: number = Infinity): number {
+  const starts = getPageStarts(pages, textLength);
+  let page = 1;
+
+  for (let i = 1; i < starts.length; i++) {
+    if (starts[i] > offset) break;
+    page = i + 1;
+  }
+
+  return page;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Page offsets from the parsers may or may not include a trailing end
+ * sentinel, so keep only the offsets that actually start a page.
+ */
+function getPageStarts(pages: number[], textLength: number): number[] {
+  const starts = Array.from(new Set(pages.filter(offset => offset < textLength))).sort((a, b) => a - b);
+  if (starts.length === 0 || starts[0] !== 0) {
+    starts.unshift(0);
+  }
+  return starts;
+}
+
+function getPageRanges(doc: PagedText): PageRange[] {
+  const starts = getPageStarts(doc.pages, doc.text.length);
+
+  return starts.map((start, i) => ({
+    page: i + 1,
+    start,
+    end: i + 1 < starts.length ? starts[i + 1] : doc.text.length,
+  }));
+}
+
+/**
+ * A single page longer than `maxChars` is split at the last newline before
+ * the limit (or hard-split if there is none).
+ */
+function splitOversizedRanges(ranges: PageRange[], text: string, maxChars: number): PageRange[] {
+  const result: PageRange[] = [];
+
+  for (const range of ranges) {
+    let start = range.start;
+
+    while (range.end - start > maxChars) {
+      const limit = start + maxChars;
+      const newline = text.lastIndexOf('\n', limit - 1);
+      const splitAt = newline > start + maxChars / 2 ? newline + 1 : limit;
+
+      result.push({ page: range.page, start, end: splitAt });
+      start = splitAt;
+    }
+
+    result.push({ page: range.page, start, end: range.end });
+  }
+
+  return result;
+}
@@ -0,0 +1,97 @@
+import { ContractClassification } from "./schema";
+import { CONTRACT_TYPE_LABELS, CONTRACT_TYPES } from "./templates";
+import { CompletionRequest, ExtractionProvider } from "./provider";
+import { BudgetExceededError } from "./budget";
+
+// The opening of a contract (title, recitals, definitions) identifies its type
+export const CLASSIFY_SAMPLE_CHARS = 8000;
+
+// Below this confidence the default fields are used instead of a type's template
+export const MIN_TEMPLATE_CONFIDENCE = 0.6;
+
+export const ClassificationSchema = {
+  name: "ContractClassification",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      contractType: { type: "string", enum: CONTRACT_TYPES },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      rationale: { type: "string", description: "One or two sentences on what identifies the type (title, parties, subject matter)" }
+    },
+    required: ["contractType", "confidence", "rationale"]
+  },
+  strict: true
+} as const;
+
+const CLASSIFY_SYSTEM_PROMPT = `You classify contracts by type before their key terms are extracted.
+
+Types:
+${CONTRACT_TYPES.map(type => `- ${type}: ${CONTRACT_TYPE_LABELS[type]}`).join('\n')}
+
+Use "other" when none of the types fit. Base the answer on the title, recitals and subject matter, and lower the confidence when the document mixes types or only a fragment is available.`;
+
+export type ClassificationRun = {
+  classification: ContractClassification | null; // null when the model call failed
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/**
+ * Label the document's contract type from its opening text. Failures other
+ * than BudgetExceededError return a null classification so extraction can
+ * carry on with the requested fields.
+ */
+export async function classifyContract(
+  provider: ExtractionProvider,
+  model: string,
+  text: string
+): Promise<ClassificationRun> {
+  try {
+    const response = await provider.complete(buildClassificationRequest(model, text));
+    const parsed = JSON.parse(response.content || "") as ContractClassification;
+    const contractType = CONTRACT_TYPES.includes(parsed.contractType) ? parsed.contractType : "other";
+
+    return {
+      classification: {
+        contractType,
+        confidence: Math.min(1, Math.max(0, Number(parsed.confidence) || 0)),
+        rationale: parsed.rationale || "",
+      },
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
+    };
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    console.error("Contract classification failed:", error);
+    return { classification: null, inputTokens: 0, outputTokens: 0 };
+  }
+}
+
+/**
+ * The classification call for a document: its opening section only
+ */
+export function buildClassificationRequest(model: string, text: string): CompletionRequest {
+  const sample = text.substring(0, CLASSIFY_SAMPLE_CHARS);
+  return {
+    model,
+    messages: [
+      { role: "system", content: CLASSIFY_SYSTEM_PROMPT },
+      { role: "user", content: `CONTRACT DOCUMENT TEXT${sample.length < text.length ? ' (opening section)' : ''}:\n\n${sample}` }
+    ],
+    responseFormat: { type: "json_schema", json_schema: ClassificationSchema },
+  };
+}
+
+export function describeClassification(classification: ContractClassification): string {
+  return `${CONTRACT_TYPE_LABELS[classification.contractType]} (${Math.round(classification.confidence * 100)}% confident)`;
+}
+
+/**
+ * Whether a classification is confident enough to pick that type's template
+ */
+export function canSelectTemplate(classification: ContractClassification | null): classification is ContractClassification {
+  return classification !== null &&
+    classification.contractType !== "other" &&
+    classification.confidence >= MIN_TEMPLATE_CONFIDENCE;
+}
@@ -0,0 +1,233 @@
+import type { ApiResponse, Extraction, NormalizedValue } from "./schema";
+import { getReviewedQuotes } from "./review";
+import { formatNormalizedValue } from "./normalize";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FieldChange = "unchanged" | "changed" | "added" | "removed";
+
+export type WordDiffPart = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+/**
+ * Where a field's quote sits in one of the documents
+ */
+export type QuoteLocation = {
+  page: number | null;
+  start: number | null;
+  end: number | null;
+};
+
+/**
+ * One side of a field comparison
+ */
+export type ComparedTerm = {
+  quotes: string[]; // Reviewed quotes; empty when the term wasn't found or was rejected
+  value: string | null; // Formatted normalized value, for typed fields
+  locations: QuoteLocation[];
+};
+
+export type FieldComparison = {
+  field: string;
+  change: FieldChange;
+  before: ComparedTerm;
+  after: ComparedTerm;
+  diff: WordDiffPart[]; // Word-level diff from the original quote to the revised one
+};
+
+/**
+ * What POST /api/compare returns: both runs, and how each field moved from
+ * the original document to the revised one
+ */
+export type ContractComparison = {
+  before: ApiResponse;
+  after: ApiResponse;
+  fields: FieldComparison[];
+  summary: Record<FieldChange, number>;
+};
+
+// Quotes longer than this (in words, multiplied) are diffed as a whole replacement
+const MAX_DIFF_CELLS = 250_000;
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Compare two runs made with the same fields. Quotes are compared after
+ * review and with whitespace and case ignored; a typed field also counts as
+ * changed when its normalized value differs.
+ */
+export function compareResults(before: ApiResponse, after: ApiResponse): ContractComparison {
+  const fieldNames = [
+    ...before.extractions.map(e => e.field),
+    ...after.extractions.map(e => e.field).filter(name => !before.extractions.some(e => e.field === name)),
+  ];
+
+  const fields = fieldNames.map(name => compareField(
+    name,
+    before.extractions.find(e => e.field === name),
+    after.extractions.find(e => e.field === name)
+  ));
+
+  const summary = { unchanged: 0, changed: 0, added: 0, removed: 0 };
+  for (const field of fields) summary[field.change]++;
+
+  return { before, after, fields, summary };
+}
+
+/**
+ * Word-level diff between two texts: the longest common run of words is
+ * kept and the rest marked as deleted from `a` or inserted from `b`.
+ * Whitespace is carried with the word before it.
+ */
+export function diffWords(a: string, b: string): WordDiffPart[] {
+  const from = tokenize(a);
+  const to = tokenize(b);
+
+  if (from.length * to.length > MAX_DIFF_CELLS) {
+    return mergeParts([{ type: "delete", text: a }, { type: "insert", text: b }]);
+  }
+
+  // lengths[i][j] = longest common subsequence of from[i..] and to[j..]
+  const lengths = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = sameWord(from[i], to[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && sameWord(from[i], to[j])) {
+      parts.push({ type: "equal", text: to[j] });
+      i++;
+      j++;
+    } else if (i < from.length && (j === to.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      parts.push({ type: "delete", text: from[i++] });
+    } else {
+      parts.push({ type: "insert", text: to[j++] });
+    }
+  }
+
+  return mergeParts(parts);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * One row per field with both quotes, their locations and the change
+ */
+export function comparisonToCSV(comparison: ContractComparison): string {
+  const header = [
+    "Field",
+    "Change",
+    `Original (${comparison.before.fileName})`,
+    "Original value",
+    "Original location",
+    `Revised (${comparison.after.fileName})`,
+    "Revised value",
+    "Revised location",
+  ];
+
+  const rows = comparison.fields.map(field => [
+    field.field,
+    field.change,
+    field.before.quotes.join("\n\n"),
+    field.before.value ?? "",
+    field.before.locations.map(formatLocation).join("; "),
+    field.after.quotes.join("\n\n"),
+    field.after.value ?? "",
+    field.after.locations.map(formatLocation).join("; "),
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCSV).join(",")).join("\n");
+}
+
+export function formatLocation(location: QuoteLocation): string {
+  const chars = location.start !== null && location.end !== null ? `chars ${location.start}–${location.end}` : "";
+  const page = location.page !== null ? `p. ${location.page}` : "";
+  return [page, chars].filter(Boolean).join(", ") || "location unknown";
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function compareField(field: string, before: Extraction | undefined, after: Extraction | undefined): FieldComparison {
+  const from = toComparedTerm(before);
+  const to = toComparedTerm(after);
+  const fromText = from.quotes.join("\n\n");
+  const toText = to.quotes.join("\n\n");
+
+  let change: FieldChange;
+  if (from.quotes.length === 0 && to.quotes.length === 0) {
+    change = "unchanged";
+  } else if (from.quotes.length === 0) {
+    change = "added";
+  } else if (to.quotes.length === 0) {
+    change = "removed";
+  } else {
+    change = normalizeText(fromText) === normalizeText(toText) && from.value === to.value ? "unchanged" : "changed";
+  }
+
+  return { field, change, before: from, after: to, diff: diffWords(fromText, toText) };
+}
+
+function toComparedTerm(extraction: Extraction | undefined): ComparedTerm {
+  const quotes = extraction ? getReviewedQuotes(extraction) : [];
+  if (!extraction || quotes.length === 0) return { quotes: [], value: null, locations: [] };
+
+  const locations = extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => ({ page: v.page, start: v.start, end: v.end }))
+    : [{ page: extraction.page, start: extraction.start, end: extraction.end }];
+
+  const values = extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => v.normalizedValue)
+    : [extraction.normalizedValue];
+  const formatted = values
+    .filter((value): value is NormalizedValue => !!value)
+    .map(value => formatNormalizedValue(value));
+
+  return { quotes, value: formatted.length > 0 ? formatted.join("; ") : null, locations };
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) || [];
+}
+
+function sameWord(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function mergeParts(parts: WordDiffPart[]): WordDiffPart[] {
+  const merged: WordDiffPart[] = [];
+  for (const part of parts) {
+    if (!part.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
+
+function escapeCSV(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
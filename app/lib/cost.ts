@@ -1,18 +1,119 @@
-// Pricing as of the prompt (approximate, verify with OpenAI pricing page)
-// Prices per 1M tokens
-const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  "o4-mini": {
-    input: 0.15,    // $0.15 per 1M input tokens
-    output: 0.60,   // $0.60 per 1M output tokens
+import type { CompletionRequest } from "./provider";
+
+// ============================================================================
+// PRICING REGISTRY
+// ============================================================================
+
+/**
+ * Prices per 1M tokens. Cached input tokens are the part of the prompt the
+ * API served from its prompt cache; reasoning tokens are the hidden output
+ * of reasoning models, billed at the output rate unless `reasoning` is set.
+ */
+export type ModelPricing = {
+  input: number;
+  cachedInput?: number; // Defaults to the input rate
+  output: number;
+  reasoning?: number; // Defaults to the output rate
+};
+
+// Pricing as of the prompt (approximate, verify with OpenAI pricing page).
+// Override or extend with MODEL_PRICING_OVERRIDES.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-5": {
+    input: 1.25,        // $1.25 per 1M input tokens
+    cachedInput: 0.125, // $0.125 per 1M cached input tokens
+    output: 10.00,      // $10.00 per 1M output tokens, reasoning included
   },
-  "o3": {
-    input: 2.50,    // $2.50 per 1M input tokens (estimated)
-    output: 10.00,  // $10.00 per 1M output tokens (estimated)
+  "gpt-5-mini": {
+    input: 0.25,
+    cachedInput: 0.025,
+    output: 2.00,
+  },
+  "gpt-4o": {
+    input: 2.50,
+    cachedInput: 1.25,
+    output: 10.00,
   },
   "gpt-4o-mini": {
-    input: 0.15,    // $0.15 per 1M input tokens
-    output: 0.60,   // $0.60 per 1M output tokens
+    input: 0.15,
+    cachedInput: 0.075,
+    output: 0.60,
+  },
+  "o3": {
+    input: 2.00,
+    cachedInput: 0.50,
+    output: 8.00,
+  },
+  "o3-mini": {
+    input: 1.10,
+    cachedInput: 0.55,
+    output: 4.40,
   },
+  "o4-mini": {
+    input: 1.10,
+    cachedInput: 0.275,
+    output: 4.40,
+  },
+};
+
+// Used for models missing from the registry, so unknown models are never free
+export const DEFAULT_PRICING_MODEL = "gpt-5";
+
+// Models that spend hidden reasoning tokens before answering
+const REASONING_MODEL_PREFIXES = ["gpt-5", "o1", "o3", "o4"];
+
+/**
+ * Pricing for a model: an exact registry entry, else the longest entry the
+ * model name starts with ("gpt-4o-2024-08-06" → "gpt-4o"), else the default.
+ * MODEL_PRICING_OVERRIDES (a JSON object of model → ModelPricing) takes
+ * precedence over the built-in table.
+ */
+export function getModelPricing(model: string): ModelPricing {
+  const registry = { ...MODEL_PRICING, ...readPricingOverrides() };
+  if (registry[model]) return registry[model];
+
+  const prefix = Object.keys(registry)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return registry[prefix] || registry[DEFAULT_PRICING_MODEL] || MODEL_PRICING[DEFAULT_PRICING_MODEL];
+}
+
+export function isReasoningModel(model: string): boolean {
+  return REASONING_MODEL_PREFIXES.some(prefix => model.startsWith(prefix));
+}
+
+function readPricingOverrides(): Record<string, ModelPricing> {
+  const raw = typeof process !== "undefined" ? process.env.MODEL_PRICING_OVERRIDES : undefined;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPricing>>;
+    const overrides: Record<string, ModelPricing> = {};
+    for (const [model, pricing] of Object.entries(parsed)) {
+      if (typeof pricing?.input === "number" && typeof pricing?.output === "number") {
+        overrides[model] = pricing as ModelPricing;
+      } else {
+        console.error(`Ignoring MODEL_PRICING_OVERRIDES entry for ${model}: input and output rates are required`);
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.error("Invalid MODEL_PRICING_OVERRIDES JSON:", error);
+    return {};
+  }
+}
+
+// ============================================================================
+// COST
+// ============================================================================
+
+/**
+ * Parts of the input and output tokens billed at their own rates. Both are
+ * already included in the input and output totals, as the API reports them.
+ */
+export type TokenDetails = {
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
 };
 
 export function estimateTokens(text: string): number {
@@ -20,16 +121,31 @@ export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
+/**
+ * Input tokens of a model call: its messages plus any structured output
+ * schema, which is sent with the request and billed as input
+ */
+export function estimateRequestTokens(request: CompletionRequest): number {
+  const messageTokens = request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const schemaTokens = request.responseFormat.type === "json_schema"
+    ? estimateTokens(JSON.stringify(request.responseFormat.json_schema))
+    : 0;
+  return messageTokens + schemaTokens;
+}
+
 export function calculateCost(
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  details: TokenDetails = {}
 ): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING["o4-mini"];
-  
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  
+  const pricing = getModelPricing(model);
+  const cached = Math.min(details.cachedInputTokens || 0, inputTokens);
+  const reasoning = Math.min(details.reasoningTokens || 0, outputTokens);
+
+  const inputCost = ((inputTokens - cached) * pricing.input + cached * (pricing.cachedInput ?? pricing.input)) / 1_000_000;
+  const outputCost = ((outputTokens - reasoning) * pricing.output + reasoning * (pricing.reasoning ?? pricing.output)) / 1_000_000;
+
   return inputCost + outputCost;
 }
 
@@ -40,23 +156,64 @@ export function formatCost(usd: number): string {
   return `$${usd.toFixed(4)}`;
 }
 
+// ============================================================================
+// USAGE
+// ============================================================================
+
+/**
+ * Tokens and cost for one model within a run
+ */
+export type ModelUsage = {
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  reasoningTokens: number;
+  estimatedUSD: number;
+};
+
 export type UsageStats = {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
   estimatedUSD: number;
+  // Set when usage was metered call by call; older results only have totals
+  calls?: number;
+  cachedInputTokens?: number;
+  reasoningTokens?: number;
+  byModel?: ModelUsage[];
 };
 
 export function createUsageStats(
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  details: TokenDetails = {}
 ): UsageStats {
   return {
     inputTokens,
     outputTokens,
     totalTokens: inputTokens + outputTokens,
-    estimatedUSD: calculateCost(model, inputTokens, outputTokens),
+    estimatedUSD: calculateCost(model, inputTokens, outputTokens, details),
   };
 }
 
+/**
+ * Sum per-model usage into run totals, pricing each model at its own rates
+ */
+export function summarizeUsage(byModel: ModelUsage[]): UsageStats {
+  const sum = (key: "calls" | "inputTokens" | "outputTokens" | "cachedInputTokens" | "reasoningTokens" | "estimatedUSD") =>
+    byModel.reduce((total, usage) => total + usage[key], 0);
+
+  return {
+    inputTokens: sum("inputTokens"),
+    outputTokens: sum("outputTokens"),
+    totalTokens: sum("inputTokens") + sum("outputTokens"),
+    estimatedUSD: sum("estimatedUSD"),
+    calls: sum("calls"),
+    cachedInputTokens: sum("cachedInputTokens"),
+    reasoningTokens: sum("reasoningTokens"),
+    byModel,
+  };
+}
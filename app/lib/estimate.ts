@@ -0,0 +1,159 @@
+import { KeyTermField } from "./schema";
+import { CompletionRequest } from "./provider";
+import { calculateCost, estimateRequestTokens, isReasoningModel } from "./cost";
+import { parseDocument } from "./pipeline";
+import { parsePDF } from "./pdf";
+import { chunkDocument, DEFAULT_CHUNK_CHARS } from "./chunk";
+import { buildExtractionRequest, buildUserMessage } from "./extract";
+import { buildClassificationRequest } from "./classify";
+import { buildKeyDatesRequest } from "./key-dates";
+import { DEFAULT_FIELDS } from "./templates";
+import { getCacheKey, getCachedResult } from "./cache";
+import { hashFile } from "./history";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Projected usage for one document. Token counts come from estimateTokens
+ * over the exact prompts the pipeline would send, so input is close; output
+ * and reasoning are rough allowances per field.
+ */
+export type CostEstimate = {
+  fileName: string;
+  model: string;
+  cached: boolean; // A saved result would be returned without calling the model
+  chunks: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number; // Included in outputTokens
+  estimatedUSD: number;
+};
+
+export type BatchEstimate = {
+  model: string;
+  files: CostEstimate[];
+  total: Omit<CostEstimate, "fileName" | "model" | "cached" | "chunks"> & { cachedFiles: number };
+  notes: string[];
+};
+
+export type EstimateRequest = {
+  fileName: string;
+  buffer: Buffer;
+  model: string;
+  fields: KeyTermField[] | null;
+  autoTemplate?: boolean;
+  classify?: boolean;
+  retry?: boolean; // Only changes which cached results apply
+  keyDates?: boolean;
+  force?: boolean;
+};
+
+// Typical answer per field: the quote, reasoning, confidence and JSON keys
+const OUTPUT_TOKENS_PER_FIELD = 150;
+const CLASSIFICATION_OUTPUT_TOKENS = 80;
+const KEY_DATES_OUTPUT_TOKENS = 500;
+
+// Hidden reasoning spent per field (and per classification or key date call) by reasoning models
+const REASONING_TOKENS_PER_FIELD = 300;
+const CLASSIFICATION_REASONING_TOKENS = 400;
+const KEY_DATES_REASONING_TOKENS = 800;
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+/**
+ * Project the cost of extracting one document without calling the model.
+ * PDFs are read without OCR, so scanned pages count for little text.
+ */
+export async function estimateExtractionCost(request: EstimateRequest): Promise<CostEstimate> {
+  const { fileName, buffer, model } = request;
+  // Auto-template runs can't know their fields yet; the defaults are a fair stand-in
+  const fields = request.fields || DEFAULT_FIELDS;
+  const estimate: CostEstimate = {
+    fileName,
+    model,
+    cached: false,
+    chunks: 0,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    estimatedUSD: 0,
+  };
+
+  if (!request.force && !request.autoTemplate) {
+    const cached = await getCachedResult(getCacheKey(hashFile(buffer), fields, model, request)).catch(() => null);
+    if (cached) return { ...estimate, cached: true };
+  }
+
+  const parsed = fileName.toLowerCase().endsWith('.pdf')
+    ? await parsePDF(buffer, null)
+    : await parseDocument(fileName, buffer);
+  const reasoning = isReasoningModel(model);
+
+  const addCall = (completion: CompletionRequest, outputTokens: number, reasoningTokens: number) => {
+    estimate.calls++;
+    estimate.inputTokens += estimateRequestTokens(completion);
+    estimate.reasoningTokens += reasoning ? reasoningTokens : 0;
+    estimate.outputTokens += outputTokens + (reasoning ? reasoningTokens : 0);
+  };
+
+  if (request.classify !== false || request.autoTemplate) {
+    addCall(buildClassificationRequest(model, parsed.text), CLASSIFICATION_OUTPUT_TOKENS, CLASSIFICATION_REASONING_TOKENS);
+  }
+
+  const sections = parsed.text.length > DEFAULT_CHUNK_CHARS
+    ? chunkDocument(parsed).map(chunk => chunk.text)
+    : [parsed.text];
+  estimate.chunks = sections.length;
+
+  for (const text of sections) {
+    // The section note on chunked calls adds a sentence; the text dominates
+    addCall(
+      buildExtractionRequest(model, buildUserMessage(fields, text)),
+      fields.length * OUTPUT_TOKENS_PER_FIELD,
+      fields.length * REASONING_TOKENS_PER_FIELD
+    );
+  }
+
+  if (request.keyDates !== false) {
+    addCall(buildKeyDatesRequest(model, parsed.text), KEY_DATES_OUTPUT_TOKENS, KEY_DATES_REASONING_TOKENS);
+  }
+
+  estimate.estimatedUSD = calculateCost(model, estimate.inputTokens, estimate.outputTokens, {
+    reasoningTokens: estimate.reasoningTokens,
+  });
+  return estimate;
+}
+
+/**
+ * Sum per-document estimates for a bulk run
+ */
+export function summarizeEstimates(model: string, files: CostEstimate[]): BatchEstimate {
+  const sum = (key: "calls" | "inputTokens" | "outputTokens" | "reasoningTokens" | "estimatedUSD") =>
+    files.reduce((total, file) => total + file[key], 0);
+
+  const notes = ["Output and reasoning tokens are allowances per field; actual spend varies with the document"];
+  if (files.some(file => file.fileName.toLowerCase().endsWith('.pdf'))) {
+    notes.push("Scanned PDF pages are estimated without OCR and may cost more");
+  }
+  notes.push("Quote retries are not included; they only run when quotes fail validation");
+
+  return {
+    model,
+    files,
+    total: {
+      cachedFiles: files.filter(file => file.cached).length,
+      calls: sum("calls"),
+      inputTokens: sum("inputTokens"),
+      outputTokens: sum("outputTokens"),
+      reasoningTokens: sum("reasoningTokens"),
+      estimatedUSD: sum("estimatedUSD"),
+    },
+    notes,
+  };
+}
@@ -0,0 +1,515 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { distance } from "fastest-levenshtein";
+import { ApiResponse, Extraction, KeyTermField, NormalizedValue, TemplateRef } from "./schema";
+import { runExtractionPipeline } from "./pipeline";
+import { ExtractionProvider, getExtractionProvider } from "./provider";
+import { createMockProvider, loadMockFixture } from "./mock-provider";
+import { createRecordingProvider, createReplayProvider, DEFAULT_RECORDINGS_DIR } from "./recorded-provider";
+import { parseNormalizedValue } from "./normalize";
+import { resolveTemplate } from "./template-store";
+import { DEFAULT_FIELDS } from "./templates";
+import { PROMPT_VERSION } from "./extract";
+import { dataPath, isValidId, listDir, readJSON, writeJSON } from "./store";
+import { BudgetExceededError } from "./budget";
+
+export const DEFAULT_CASES_DIR = "fixtures/eval/cases";
+export const EVAL_MOCK_FIXTURE_PATH = "fixtures/eval/mock-extractions.json";
+
+// A quote this similar to the gold quote counts as a fuzzy match
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+const CALIBRATION_BINS = 10;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The gold label for one field. Multi-valued fields are scored on their
+ * first value.
+ */
+export type ExpectedField = {
+  status: "found" | "not_found";
+  quote?: string; // Must appear verbatim in the document
+  normalizedValue?: string; // In the model's format, e.g. "30 days"
+};
+
+/**
+ * One gold-labeled contract, stored as JSON under fixtures/eval/cases
+ */
+export type EvalCase = {
+  name: string;
+  document: string; // Relative to the case file
+  fields?: KeyTermField[]; // Defaults to the template's or the default fields
+  template?: string; // "id@version"
+  expected: Record<string, ExpectedField>;
+  path?: string; // Set when loaded; where the case file lives
+};
+
+export type FieldScore = {
+  field: string;
+  expectedStatus: ExpectedField["status"];
+  actualStatus: Extraction["status"];
+  statusCorrect: boolean; // "inferred" counts as found
+  exactMatch: boolean | null; // Quotes equal after collapsing whitespace; null unless both have one
+  similarity: number | null; // 1 - edit distance / longer length, case-insensitive
+  fuzzyMatch: boolean | null;
+  offsetExact: boolean | null; // Validated span equals the gold span
+  offsetIoU: number | null; // Overlap of the two spans over their union
+  valueCorrect: boolean | null; // null when the gold label has no normalized value
+  confidence: number;
+};
+
+export type EvalMetrics = {
+  fieldCount: number;
+  truePositives: number; // Expected and extracted with a matching quote
+  falsePositives: number; // Extracted but not expected, or a quote that doesn't match
+  falseNegatives: number; // Expected but missed, or a quote that doesn't match
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  statusAccuracy: number | null;
+  exactMatchRate: number | null; // Over fields both expected and extracted
+  fuzzyMatchRate: number | null;
+  meanSimilarity: number | null;
+  offsetExactRate: number | null;
+  meanOffsetIoU: number | null;
+  valueAccuracy: number | null;
+};
+
+export type CalibrationBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+};
+
+/**
+ * How well confidence predicts correctness, over every extracted field
+ * (correct = fuzzy match with an expected quote)
+ */
+export type Calibration = {
+  bins: CalibrationBin[]; // Empty bins are left out
+  expectedCalibrationError: number | null;
+  brierScore: number | null;
+};
+
+export type CaseResult = {
+  name: string;
+  fileName: string;
+  template?: TemplateRef;
+  scores: FieldScore[];
+  metrics: EvalMetrics;
+  errors: string[]; // Provider failures and gold labels that don't fit the document
+};
+
+export type EvalReport = {
+  id: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  createdAt: string;
+  cases: CaseResult[];
+  overall: EvalMetrics;
+  byField: Record<string, EvalMetrics>;
+  calibration: Calibration;
+  usage: { inputTokens: number; outputTokens: number; estimatedUSD: number };
+};
+
+export type MetricDelta = { baseline: number | null; current: number | null; delta: number | null };
+
+export type EvalComparison = {
+  baselineId: string;
+  overall: Partial<Record<keyof EvalMetrics, MetricDelta>>;
+  regressions: string[]; // Fields whose F1 dropped
+  improvements: string[];
+};
+
+export type EvalProviderMode = "mock" | "replay" | "record";
+
+export const EVAL_PROVIDER_MODES: EvalProviderMode[] = ["mock", "replay", "record"];
+
+// ============================================================================
+// CASES & PROVIDERS
+// ============================================================================
+
+export async function loadEvalCases(dir: string = DEFAULT_CASES_DIR): Promise<EvalCase[]> {
+  const resolved = path.resolve(process.cwd(), dir);
+  const names = (await listDir(resolved)).filter(name => name.endsWith(".json")).sort();
+
+  return Promise.all(names.map(async name => {
+    const casePath = path.join(resolved, name);
+    const evalCase = await readJSON<EvalCase>(casePath);
+    if (!evalCase?.document || !evalCase.expected) {
+      throw new Error(`Eval case ${name} needs a document and expected fields`);
+    }
+    return { ...evalCase, path: casePath };
+  }));
+}
+
+/**
+ * Providers an eval can run against: the eval mock fixture, saved
+ * recordings, or the configured live provider while saving its responses
+ */
+export function getEvalProvider(mode: EvalProviderMode, recordingsDir?: string): ExtractionProvider {
+  const dir = recordingsDir || process.env.RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR;
+  switch (mode) {
+    case "mock":
+      return createMockProvider(loadMockFixture(EVAL_MOCK_FIXTURE_PATH));
+    case "replay":
+      return createReplayProvider(dir);
+    case "record":
+      return createRecordingProvider(getExtractionProvider(), dir);
+  }
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Extract every case with `provider` and score the results against the gold
+ * labels. Runs are forced past the cache and kept out of the history library.
+ */
+export async function runEval(
+  cases: EvalCase[],
+  provider: ExtractionProvider,
+  options: { model: string }
+): Promise<EvalReport> {
+  const results: CaseResult[] = [];
+  const usage = { inputTokens: 0, outputTokens: 0, estimatedUSD: 0 };
+
+  for (const evalCase of cases) {
+    const errors: string[] = [];
+    // Record model errors so a missing recording shows up as an error, and
+    // its fields are scored as misses
+    const counted: ExtractionProvider = {
+      name: provider.name,
+      async complete(request) {
+        try {
+          return await provider.complete(request);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+      },
+    };
+
+    const documentPath = path.resolve(evalCase.path ? path.dirname(evalCase.path) : process.cwd(), evalCase.document);
+    let fields = evalCase.fields || DEFAULT_FIELDS;
+    let template: TemplateRef | undefined;
+    if (evalCase.template) {
+      const resolved = await resolveTemplate(evalCase.template);
+      if (resolved.error !== undefined) {
+        throw new Error(`Eval case "${evalCase.name}": ${resolved.error}`);
+      }
+      fields = resolved.fields;
+      template = resolved.template;
+    }
+
+    let text = "";
+    let response: ApiResponse | null = null;
+    try {
+      response = await runExtractionPipeline(
+        {
+          fileName: path.basename(documentPath),
+          buffer: await fs.readFile(documentPath),
+          model: options.model,
+          fields,
+          template,
+          classify: false,
+          keyDates: false,
+          force: true,
+          saveHistory: false,
+        },
+        counted,
+        event => {
+          if (event.type === "document") text = event.text;
+        }
+      );
+    } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (response) {
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.estimatedUSD += response.usage.estimatedUSD;
+    }
+
+    const scores = fields
+      .filter(field => evalCase.expected[field.name])
+      .map(field => {
+        const expected = evalCase.expected[field.name];
+        if (response && expected.quote && !text.includes(expected.quote)) {
+          errors.push(`Gold quote for "${field.name}" does not appear in ${evalCase.document}`);
+        }
+        return scoreField(field, expected, response?.extractions.find(e => e.field === field.name), text);
+      });
+
+    const unlabeled = fields.filter(field => !evalCase.expected[field.name]).map(field => field.name);
+    if (unlabeled.length > 0) {
+      errors.push(`No gold label for: ${unlabeled.join(', ')}`);
+    }
+
+    results.push({
+      name: evalCase.name,
+      fileName: path.basename(documentPath),
+      ...(template ? { template } : {}),
+      scores,
+      metrics: summarizeScores(scores),
+      errors,
+    });
+    console.log(`Eval ${evalCase.name}: F1 ${formatRate(results[results.length - 1].metrics.f1)}${errors.length ? ` (${errors.length} error(s))` : ''}`);
+  }
+
+  const allScores = results.flatMap(result => result.scores);
+  const byField: Record<string, EvalMetrics> = {};
+  for (const name of Array.from(new Set(allScores.map(score => score.field)))) {
+    byField[name] = summarizeScores(allScores.filter(score => score.field === name));
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    provider: provider.name,
+    model: options.model,
+    promptVersion: PROMPT_VERSION,
+    createdAt: new Date().toISOString(),
+    cases: results,
+    overall: summarizeScores(allScores),
+    byField,
+    calibration: calibrate(allScores),
+    usage,
+  };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+export function scoreField(
+  field: KeyTermField,
+  expected: ExpectedField,
+  actual: Extraction | undefined,
+  text: string
+): FieldScore {
+  const actualStatus = actual?.status || "not_found";
+  const expectedPresent = expected.status !== "not_found";
+  const actualPresent = actualStatus !== "not_found";
+  const bothQuoted = expectedPresent && actualPresent && Boolean(expected.quote) && Boolean(actual?.quote);
+
+  const similarity = bothQuoted ? quoteSimilarity(expected.quote!, actual!.quote) : null;
+  const goldStart = bothQuoted ? text.indexOf(expected.quote!) : -1;
+  const hasSpans = goldStart !== -1 && actual?.start != null && actual?.end != null;
+  const goldEnd = goldStart + (expected.quote?.length || 0);
+
+  let valueCorrect: boolean | null = null;
+  if (expected.normalizedValue !== undefined && expectedPresent) {
+    const gold = parseNormalizedValue(expected.normalizedValue, field).value;
+    valueCorrect = gold !== null && sameValue(gold, actual?.normalizedValue ?? null);
+  }
+
+  return {
+    field: field.name,
+    expectedStatus: expected.status,
+    actualStatus,
+    statusCorrect: expectedPresent === actualPresent,
+    exactMatch: bothQuoted ? collapse(expected.quote!) === collapse(actual!.quote) : null,
+    similarity,
+    fuzzyMatch: similarity === null ? null : similarity >= FUZZY_MATCH_THRESHOLD || isContainedMatch(expected.quote!, actual!.quote),
+    offsetExact: hasSpans ? actual!.start === goldStart && actual!.end === goldEnd : null,
+    offsetIoU: hasSpans ? spanIoU(goldStart, goldEnd, actual!.start!, actual!.end!) : null,
+    valueCorrect,
+    confidence: actualPresent ? actual!.confidence : 0,
+  };
+}
+
+export function summarizeScores(scores: FieldScore[]): EvalMetrics {
+  const expectedPresent = scores.filter(s => s.expectedStatus !== "not_found");
+  const matched = expectedPresent.filter(s => s.fuzzyMatch === true);
+  const extracted = scores.filter(s => s.actualStatus !== "not_found");
+  const quoted = scores.filter(s => s.similarity !== null);
+  const spanned = scores.filter(s => s.offsetIoU !== null);
+  const valued = scores.filter(s => s.valueCorrect !== null);
+
+  const truePositives = matched.length;
+  const falsePositives = extracted.length - truePositives;
+  const falseNegatives = expectedPresent.length - truePositives;
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    fieldCount: scores.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision === null || recall === null ? null : precision + recall === 0 ? 0 : 2 * precision * recall / (precision + recall),
+    statusAccuracy: ratio(scores.filter(s => s.statusCorrect).length, scores.length),
+    exactMatchRate: ratio(quoted.filter(s => s.exactMatch).length, quoted.length),
+    fuzzyMatchRate: ratio(quoted.filter(s => s.fuzzyMatch).length, quoted.length),
+    meanSimilarity: mean(quoted.map(s => s.similarity!)),
+    offsetExactRate: ratio(spanned.filter(s => s.offsetExact).length, spanned.length),
+    meanOffsetIoU: mean(spanned.map(s => s.offsetIoU!)),
+    valueAccuracy: ratio(valued.filter(s => s.valueCorrect).length, valued.length),
+  };
+}
+
+export function calibrate(scores: FieldScore[]): Calibration {
+  const predictions = scores
+    .filter(s => s.actualStatus !== "not_found")
+    .map(s => ({ confidence: s.confidence, correct: s.fuzzyMatch === true ? 1 : 0 }));
+
+  const bins: CalibrationBin[] = [];
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const lower = i / CALIBRATION_BINS;
+    const upper = (i + 1) / CALIBRATION_BINS;
+    const inBin = predictions.filter(p => p.confidence >= lower && (p.confidence < upper || (i === CALIBRATION_BINS - 1 && p.confidence <= upper)));
+    if (inBin.length === 0) continue;
+    bins.push({
+      lower,
+      upper,
+      count: inBin.length,
+      meanConfidence: mean(inBin.map(p => p.confidence))!,
+      accuracy: mean(inBin.map(p => p.correct))!,
+    });
+  }
+
+  return {
+    bins,
+    expectedCalibrationError: predictions.length === 0
+      ? null
+      : bins.reduce((sum, bin) => sum + (bin.count / predictions.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0),
+    brierScore: mean(predictions.map(p => (p.confidence - p.correct) ** 2)),
+  };
+}
+
+/**
+ * Metric changes from a baseline report, to check whether a prompt or model
+ * change helps before rolling it out
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport): EvalComparison {
+  const overall: EvalComparison["overall"] = {};
+  for (const key of Object.keys(current.overall) as (keyof EvalMetrics)[]) {
+    overall[key] = delta(baseline.overall[key], current.overall[key]);
+  }
+
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  for (const [field, metrics] of Object.entries(current.byField)) {
+    const change = delta(baseline.byField[field]?.f1 ?? null, metrics.f1).delta;
+    if (change !== null && change < 0) regressions.push(field);
+    if (change !== null && change > 0) improvements.push(field);
+  }
+
+  return { baselineId: baseline.id, overall, regressions, improvements };
+}
+
+// ============================================================================
+// STORAGE & FORMATTING
+// ============================================================================
+
+export async function saveEvalReport(report: EvalReport): Promise<void> {
+  await writeJSON(dataPath("evals", `${report.id}.json`), report);
+}
+
+export async function getEvalReport(id: string): Promise<EvalReport | null> {
+  if (!isValidId(id)) return null;
+  return readJSON<EvalReport>(dataPath("evals", `${id}.json`));
+}
+
+/**
+ * Saved reports, newest first, without their per-case detail
+ */
+export async function listEvalReports(): Promise<Omit<EvalReport, "cases" | "byField" | "calibration">[]> {
+  const ids = (await listDir(dataPath("evals")))
+    .map(name => name.replace(/\.json$/, ""))
+    .filter(isValidId);
+  const reports = await Promise.all(ids.map(getEvalReport));
+
+  return reports
+    .filter((report): report is EvalReport => report !== null)
+    .map(({ cases: _cases, byField: _byField, calibration: _calibration, ...summary }) => summary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Plain-text table of a report for logs and terminals
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const { overall, calibration } = report;
+  const lines = [
+    `Eval ${report.id} — ${report.provider} / ${report.model} (prompt v${report.promptVersion}), ${report.cases.length} case(s)`,
+    `Precision ${formatRate(overall.precision)}  Recall ${formatRate(overall.recall)}  F1 ${formatRate(overall.f1)}  Status ${formatRate(overall.statusAccuracy)}`,
+    `Exact ${formatRate(overall.exactMatchRate)}  Fuzzy ${formatRate(overall.fuzzyMatchRate)}  Offsets ${formatRate(overall.offsetExactRate)} (IoU ${formatRate(overall.meanOffsetIoU)})  Values ${formatRate(overall.valueAccuracy)}`,
+    `Calibration: ECE ${formatRate(calibration.expectedCalibrationError)}  Brier ${calibration.brierScore === null ? 'n/a' : calibration.brierScore.toFixed(3)}`,
+    "",
+    "Field                          P      R      F1     Exact  Offset",
+    ...Object.entries(report.byField).map(([field, m]) =>
+      `${field.padEnd(30).substring(0, 30)} ${[m.precision, m.recall, m.f1, m.exactMatchRate, m.offsetExactRate].map(v => formatRate(v).padEnd(6)).join(' ')}`
+    ),
+  ];
+
+  for (const result of report.cases.filter(r => r.errors.length > 0)) {
+    lines.push("", `${result.name}:`, ...result.errors.map(error => `  - ${error}`));
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function quoteSimilarity(a: string, b: string): number {
+  const left = collapse(a).toLowerCase();
+  const right = collapse(b).toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  return longest === 0 ? 1 : 1 - distance(left, right) / longest;
+}
+
+/**
+ * A shorter or longer quote of the same clause: one contains the other and
+ * covers at least half of it
+ */
+function isContainedMatch(expected: string, actual: string): boolean {
+  const a = collapse(expected).toLowerCase();
+  const b = collapse(actual).toLowerCase();
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length > 0 && longer.includes(shorter) && shorter.length / longer.length >= 0.5;
+}
+
+function spanIoU(aStart: number, aEnd: number, bStart: number, bEnd: number): number {
+  const overlap = Math.max(0, Math.min(aEnd, bEnd) - Math.max(aStart, bStart));
+  const union = Math.max(aEnd, bEnd) - Math.min(aStart, bStart);
+  return union === 0 ? 0 : overlap / union;
+}
+
+function sameValue(a: NormalizedValue, b: NormalizedValue | null): boolean {
+  return b !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+
+function ratio(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function delta(baseline: number | null, current: number | null): MetricDelta {
+  return { baseline, current, delta: baseline === null || current === null ? null : current - baseline };
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,72 @@
+import { ApiResponse, ContractClassification, DocumentText, Extraction } from "./schema";
+import { CONTRACT_TYPE_LABELS } from "./templates";
+
+// ============================================================================
+// PIPELINE EVENTS
+// ============================================================================
+
+/**
+ * Progress events emitted by the extraction pipeline. The streaming extract
+ * route forwards each one to the browser as a Server-Sent Event named after
+ * its `type`.
+ */
+export type PipelineEvent =
+  | { type: "parsed"; fileName: string; pageCount: number | null; charCount: number }
+  | ({ type: "document" } & DocumentText)
+  | { type: "cache_hit"; extractionId: string; fileName: string }
+  | { type: "classification"; classification: ContractClassification }
+  | { type: "prompt"; fieldCount: number; autoFields: string[]; promptChars: number; chunk?: ChunkInfo }
+  | { type: "model_call"; model: string; chunk?: ChunkInfo }
+  | { type: "model_fallback"; from: string; to: string }
+  | { type: "extraction"; extraction: Extraction; chunk?: ChunkInfo }
+  | { type: "retry"; fields: string[]; attempt: number; passageCount: number }
+  | { type: "validation"; extractions: Extraction[]; validCount: number; invalidCount: number; invalidFields: string[] }
+  | { type: "usage"; usage: ApiResponse["usage"] }
+  | { type: "heartbeat"; elapsedSeconds: number }
+  | { type: "result"; result: ApiResponse }
+  | { type: "error"; error: string };
+
+export type ChunkInfo = {
+  index: number;
+  total: number;
+};
+
+export type PipelineEventHandler = (event: PipelineEvent) => void;
+
+/**
+ * One-line human readable description of an event for the progress log
+ */
+export function describeEvent(event: PipelineEvent): string | null {
+  const chunkLabel = (chunk?: ChunkInfo) => chunk ? ` [chunk ${chunk.index + 1}/${chunk.total}]` : '';
+
+  switch (event.type) {
+    case "parsed":
+      return `Parsed ${event.fileName}: ${event.pageCount ?? 'unknown'} pages, ${event.charCount.toLocaleString()} characters`;
+    case "cache_hit":
+      return `${event.fileName} was already extracted with these fields and model; using the saved result (no model calls)`;
+    case "classification":
+      return `Detected contract type: ${CONTRACT_TYPE_LABELS[event.classification.contractType]} (${Math.round(event.classification.confidence * 100)}% confident)`;
+    case "prompt":
+      return `Built prompt for ${event.fieldCount} fields (${event.promptChars.toLocaleString()} characters)${chunkLabel(event.chunk)}`;
+    case "model_call":
+      return `Calling ${event.model}...${chunkLabel(event.chunk)}`;
+    case "model_fallback":
+      return `${event.from} unavailable, retrying with ${event.to}`;
+    case "extraction":
+      return `${event.extraction.field}: ${event.extraction.status}${chunkLabel(event.chunk)}`;
+    case "retry":
+      return `Quote(s) for ${event.fields.join(', ')} were not verbatim; asking again with ${event.passageCount} candidate passage(s) (retry ${event.attempt})`;
+    case "validation":
+      return event.invalidCount > 0
+        ? `Validation: ${event.invalidCount} quote(s) could not be verified (${event.invalidFields.join(', ')})`
+        : `Validation: all ${event.validCount} extraction(s) verified against source text`;
+    case "usage":
+      return `Used ${event.usage.totalTokens.toLocaleString()} tokens`;
+    case "heartbeat":
+      return `Still waiting on the model (${event.elapsedSeconds}s elapsed)...`;
+    case "error":
+      return `✗ Error: ${event.error}`;
+    default:
+      return null;
+  }
+}
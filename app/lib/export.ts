@@ -0,0 +1,395 @@
+import * as XLSX from "xlsx";
+import type { BulkResult, Extraction } from "./schema";
+import { formatNormalizedValue } from "./normalize";
+import { CONTRACT_TYPE_LABELS } from "./templates";
+import { REVIEW_CONFIDENCE } from "./playbook";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Why an exported term looks the way it does. Low confidence only counts
+ * until a person accepts or edits the term, as in the playbook checks.
+ */
+export type TermFlag = "found" | "inferred" | "low_confidence" | "not_found" | "rejected";
+
+type Cell = string | number;
+
+// Conditional formats, in the order of the workbook's differential styles
+type Highlight = "attention" | "inferred" | "muted";
+
+type ConditionalRule = {
+  range: string; // A1 range the rule applies to
+  formula: string; // Written for the range's top-left cell
+  highlight: Highlight;
+};
+
+type ExportSheet = {
+  name: string;
+  rows: Cell[][];
+  widths: number[];
+  formats?: Record<number, string>; // Number format per column index
+  rules?: ConditionalRule[];
+  filter?: boolean;
+  hidden?: boolean;
+};
+
+const HIGHLIGHTS: Highlight[] = ["attention", "inferred", "muted"];
+
+const HIGHLIGHT_STYLES: Record<Highlight, string> = {
+  attention: '<dxf><font><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>',
+  inferred: '<dxf><font><color rgb="FF7A5C00"/></font><fill><patternFill><bgColor rgb="FFFFEB9C"/></patternFill></fill></dxf>',
+  muted: '<dxf><font><i/><color rgb="FF808080"/></font></dxf>',
+};
+
+// Worksheet elements that must come after <conditionalFormatting>
+const AFTER_CONDITIONAL_FORMATTING = /<(?:dataValidations|hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|customProperties|cellWatches|ignoredErrors|smartTags|drawing|legacyDrawing|legacyDrawingHF|picture|oleObjects|controls|webPublishItems|tableParts|extLst)\b|<\/worksheet>/;
+
+const SUMMARY_COLUMNS = ["Contract", "Status", "Contract type", "Template", "Risk"];
+
+const DETAIL_COLUMNS = [
+  "Contract", "Field", "Occurrence", "Status", "Flag", "Review", "Reviewer", "Reviewed at", "Quote", "Value",
+  "Page", "Start", "End", "Confidence", "Quote check", "Similarity", "Model's quote", "Retried", "Reasoning",
+];
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Results as an .xlsx workbook: a summary matrix, every attribute of every
+ * extraction in long format, notes and validation, failed files, and usage.
+ * Inferred, low-confidence and missing terms are highlighted with
+ * conditional formats, so a blank cell can be told from a failed one.
+ * A single run is exported as a one-item list.
+ */
+export function writeExportWorkbook(results: BulkResult[]): ArrayBuffer {
+  const sheets = buildExportSheets(results);
+  const data = XLSX.write(toWorkbook(sheets), { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+  return addSheetFormatting(new Uint8Array(data), sheets);
+}
+
+/**
+ * The same workbook without formatting, e.g. to inspect its sheets
+ */
+export function buildExportWorkbook(results: BulkResult[]): XLSX.WorkBook {
+  return toWorkbook(buildExportSheets(results));
+}
+
+/**
+ * The summary matrix as CSV: one row per file, with why each empty term is
+ * empty spelled out
+ */
+export function resultsToCSV(results: BulkResult[]): string {
+  const { rows } = buildSummarySheets(results)[0];
+  return rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(",")).join("\n") + "\n";
+}
+
+export function getTermFlag(extraction: Extraction): TermFlag {
+  if (extraction.review?.status === "rejected") return "rejected";
+  if (extraction.status === "not_found") return "not_found";
+  const reviewed = extraction.review?.status === "accepted" || extraction.review?.status === "edited";
+  if (extraction.confidence < REVIEW_CONFIDENCE && !reviewed) return "low_confidence";
+  return extraction.status === "inferred" ? "inferred" : "found";
+}
+
+// ============================================================================
+// SHEETS
+// ============================================================================
+
+function buildExportSheets(results: BulkResult[]): ExportSheet[] {
+  const [summary, flags] = buildSummarySheets(results);
+  return [summary, buildDetailSheet(results), buildNotesSheet(results), buildFailuresSheet(results), buildUsageSheet(results), flags];
+}
+
+/**
+ * The matrix and a hidden sheet of the same shape holding each term's flag,
+ * which the matrix's conditional formats look up
+ */
+function buildSummarySheets(results: BulkResult[]): [ExportSheet, ExportSheet] {
+  const fieldNames: string[] = [];
+  const typedFields = new Set<string>();
+  for (const extraction of results.flatMap(r => r.result?.extractions ?? [])) {
+    if (!fieldNames.includes(extraction.field)) fieldNames.push(extraction.field);
+    if (extraction.normalizedValue) typedFields.add(extraction.field);
+  }
+
+  const header = [...SUMMARY_COLUMNS, ...fieldNames.flatMap(f => typedFields.has(f) ? [f, `${f} (value)`] : [f])];
+  const rows: Cell[][] = [header];
+  const flagRows: Cell[][] = [header];
+
+  for (const { fileName, success, result } of results) {
+    const row: Cell[] = [
+      fileName,
+      success && result ? "completed" : "failed",
+      result?.classification ? CONTRACT_TYPE_LABELS[result.classification.contractType] : "",
+      result?.template ? `${result.template.name} v${result.template.version}` : "",
+      result?.compliance?.summary.risk ?? "",
+    ];
+    const flagRow: Cell[] = SUMMARY_COLUMNS.map(() => "");
+
+    for (const field of fieldNames) {
+      const extraction = result?.extractions.find(e => e.field === field);
+      const flag = extraction ? getTermFlag(extraction) : "";
+      const columns = typedFields.has(field) ? 2 : 1;
+
+      row.push(describeTerm(extraction));
+      if (columns === 2) row.push(extraction && flag !== "not_found" && flag !== "rejected" ? formatValues(extraction) : "");
+      for (let i = 0; i < columns; i++) flagRow.push(flag);
+    }
+
+    rows.push(row);
+    flagRows.push(flagRow);
+  }
+
+  const last = rows.length;
+  const fieldRange = `${XLSX.utils.encode_col(SUMMARY_COLUMNS.length)}2:${XLSX.utils.encode_col(header.length - 1)}${last}`;
+  const flagCell = `Flags!${XLSX.utils.encode_col(SUMMARY_COLUMNS.length)}2`;
+  const rules: ConditionalRule[] = last > 1 ? [
+    { range: `B2:B${last}`, formula: '$B2="failed"', highlight: "attention" },
+    ...(header.length > SUMMARY_COLUMNS.length ? [
+      { range: fieldRange, formula: `${flagCell}="low_confidence"`, highlight: "attention" as const },
+      { range: fieldRange, formula: `${flagCell}="inferred"`, highlight: "inferred" as const },
+      { range: fieldRange, formula: `OR(${flagCell}="not_found",${flagCell}="rejected")`, highlight: "muted" as const },
+    ] : []),
+  ] : [];
+
+  return [
+    {
+      name: "Summary",
+      rows,
+      widths: [30, 12, 15, 20, 8, ...fieldNames.flatMap(f => typedFields.has(f) ? [50, 20] : [50])],
+      // No filter: sorting the matrix would move its rows away from their flags
+      rules,
+    },
+    { name: "Flags", rows: flagRows, widths: [], hidden: true },
+  ];
+}
+
+/**
+ * One row per occurrence of every term, found or not, with its status,
+ * review, location, confidence, quote check and the model's reasoning
+ */
+function buildDetailSheet(results: BulkResult[]): ExportSheet {
+  const rows: Cell[][] = [DETAIL_COLUMNS];
+
+  for (const { fileName, result } of results) {
+    for (const extraction of result?.extractions ?? []) {
+      const occurrences = extraction.values && extraction.values.length > 0 ? extraction.values : [extraction];
+      occurrences.forEach((occurrence, index) => {
+        const validation = occurrence.validation;
+        const modelQuote = validation && (validation.method === "failed" || validation.correctedQuote !== null) ? validation.originalQuote : "";
+        rows.push([
+          fileName,
+          extraction.field,
+          index + 1,
+          extraction.status,
+          getTermFlag(extraction),
+          extraction.review?.status ?? "pending",
+          extraction.review?.reviewer ?? "",
+          extraction.review?.reviewedAt ?? "",
+          occurrence.quote,
+          occurrence.normalizedValue ? formatNormalizedValue(occurrence.normalizedValue) : "",
+          occurrence.page ?? "",
+          occurrence.start ?? "",
+          occurrence.end ?? "",
+          extraction.confidence,
+          validation?.method ?? "",
+          validation?.similarity ?? "",
+          modelQuote,
+          validation?.retried ? "yes" : "",
+          extraction.reasoning,
+        ]);
+      });
+    }
+  }
+
+  const last = rows.length;
+  const range = `A2:${XLSX.utils.encode_col(DETAIL_COLUMNS.length - 1)}${last}`;
+
+  return {
+    name: "Details",
+    rows,
+    widths: [30, 25, 10, 10, 14, 10, 15, 20, 60, 20, 6, 8, 8, 10, 12, 10, 40, 8, 60],
+    formats: { 13: "0%", 15: "0%" },
+    rules: last > 1 ? [
+      { range, formula: '$E2="low_confidence"', highlight: "attention" },
+      { range, formula: '$E2="inferred"', highlight: "inferred" },
+      { range, formula: 'OR($E2="not_found",$E2="rejected")', highlight: "muted" },
+    ] : [],
+    filter: true,
+  };
+}
+
+/**
+ * Run notes, quote checks that failed or changed a quote, compliance
+ * findings that need attention and key dates that couldn't be worked out
+ */
+function buildNotesSheet(results: BulkResult[]): ExportSheet {
+  const rows: Cell[][] = [["Contract", "Source", "Message"]];
+
+  for (const { fileName, result } of results) {
+    if (!result) continue;
+    for (const note of result.notes ?? []) rows.push([fileName, "Run", note]);
+
+    for (const extraction of result.extractions) {
+      const occurrences = extraction.values && extraction.values.length > 0 ? extraction.values : [extraction];
+      for (const { validation } of occurrences) {
+        if (!validation) continue;
+        if (validation.method === "failed") {
+          rows.push([fileName, "Validation", `${extraction.field}: the model's quote was not found in the document: "${validation.originalQuote}"`]);
+        } else if (validation.correctedQuote !== null) {
+          rows.push([fileName, "Validation", `${extraction.field}: quote corrected to the closest source text (${Math.round((validation.similarity ?? 0) * 100)}% similar)`]);
+        }
+        if (validation.retried) {
+          rows.push([fileName, "Validation", `${extraction.field}: quote recovered by the retry pass`]);
+        }
+      }
+    }
+
+    for (const finding of result.compliance?.findings ?? []) {
+      if (finding.status === "pass") continue;
+      rows.push([fileName, `Compliance (${finding.status})`, `${finding.field}: ${finding.explanation}. Standard: ${finding.standard}`]);
+    }
+
+    for (const note of result.keyDates?.notes ?? []) rows.push([fileName, "Key dates", note]);
+  }
+
+  return { name: "Notes", rows, widths: [30, 16, 100] };
+}
+
+function buildFailuresSheet(results: BulkResult[]): ExportSheet {
+  const rows: Cell[][] = [["Contract", "Error"]];
+  for (const { fileName, success, result, error } of results) {
+    if (!success || !result) rows.push([fileName, error || "Unknown error"]);
+  }
+  return { name: "Failures", rows, widths: [30, 100] };
+}
+
+/**
+ * Usage per file and model, with a total row
+ */
+function buildUsageSheet(results: BulkResult[]): ExportSheet {
+  const rows: Cell[][] = [["Contract", "Model", "Calls", "Input tokens", "Cached input tokens", "Output tokens", "Reasoning tokens", "Cost (USD)"]];
+  const totals = [0, 0, 0, 0, 0, 0];
+
+  for (const { fileName, result } of results) {
+    if (!result) continue;
+    const { usage } = result;
+    // Older results only have totals for the run
+    const byModel = usage.byModel && usage.byModel.length > 0 ? usage.byModel : [{
+      model: result.model,
+      calls: usage.calls ?? 0,
+      inputTokens: usage.inputTokens,
+      cachedInputTokens: usage.cachedInputTokens ?? 0,
+      outputTokens: usage.outputTokens,
+      reasoningTokens: usage.reasoningTokens ?? 0,
+      estimatedUSD: usage.estimatedUSD,
+    }];
+
+    for (const model of byModel) {
+      const values = [model.calls, model.inputTokens, model.cachedInputTokens, model.outputTokens, model.reasoningTokens, model.estimatedUSD];
+      values.forEach((value, index) => totals[index] += value);
+      rows.push([fileName, model.model, ...values]);
+    }
+  }
+
+  rows.push(["Total", "", ...totals]);
+  return { name: "Usage", rows, widths: [30, 20, 8, 14, 18, 14, 16, 12], formats: { 7: "$0.0000" } };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function describeTerm(extraction: Extraction | undefined): string {
+  if (!extraction) return "";
+  const flag = getTermFlag(extraction);
+  if (flag === "not_found") return "(not found)";
+  if (flag === "rejected") return "(rejected in review)";
+  return extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => v.quote).join("\n\n")
+    : extraction.quote;
+}
+
+// Multi-valued fields join their values in one cell, like their quotes
+function formatValues(extraction: Extraction): string {
+  const values = extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => v.normalizedValue)
+    : [extraction.normalizedValue];
+  return values.map(value => value ? formatNormalizedValue(value) : "").filter(Boolean).join("; ");
+}
+
+function toWorkbook(sheets: ExportSheet[]): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+
+  for (const sheet of sheets) {
+    const worksheet = XLSX.utils.aoa_to_sheet(sheet.rows);
+    worksheet["!cols"] = sheet.widths.map(wch => ({ wch }));
+    if (sheet.filter && sheet.rows.length > 1) worksheet["!autofilter"] = { ref: worksheet["!ref"]! };
+
+    for (const [column, format] of Object.entries(sheet.formats ?? {})) {
+      for (let row = 1; row < sheet.rows.length; row++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: Number(column) })];
+        if (cell && cell.t === "n") cell.z = format;
+      }
+    }
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  }
+
+  workbook.Workbook = { Sheets: sheets.map(sheet => ({ name: sheet.name, Hidden: sheet.hidden ? 1 : 0 })) };
+  return workbook;
+}
+
+/**
+ * SheetJS doesn't write conditional formats or frozen panes, so they are
+ * added to the package it produced: the highlight styles go into
+ * styles.xml and each sheet gets its rules and a frozen header row.
+ */
+function addSheetFormatting(data: Uint8Array, sheets: ExportSheet[]): ArrayBuffer {
+  const zip = XLSX.CFB.read(data, { type: "array" });
+
+  const styles = XLSX.CFB.find(zip, "/xl/styles.xml");
+  writeEntry(styles, readEntry(styles).replace(
+    /<dxfs count="0"\s*\/>/,
+    `<dxfs count="${HIGHLIGHTS.length}">${HIGHLIGHTS.map(h => HIGHLIGHT_STYLES[h]).join("")}</dxfs>`
+  ));
+
+  sheets.forEach((sheet, index) => {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${index + 1}.xml`);
+    let xml = readEntry(entry).replace(
+      '<sheetView workbookViewId="0"/>',
+      '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>'
+    );
+
+    if (sheet.rules && sheet.rules.length > 0) {
+      const formatting = sheet.rules.map((rule, priority) =>
+        `<conditionalFormatting sqref="${rule.range}"><cfRule type="expression" dxfId="${HIGHLIGHTS.indexOf(rule.highlight)}" priority="${priority + 1}"><formula>${escapeXML(rule.formula)}</formula></cfRule></conditionalFormatting>`
+      ).join("");
+      const position = xml.search(AFTER_CONDITIONAL_FORMATTING);
+      xml = xml.substring(0, position) + formatting + xml.substring(position);
+    }
+
+    writeEntry(entry, xml);
+  });
+
+  const bytes: ArrayLike<number> = XLSX.CFB.write(zip, { fileType: "zip", type: "array" });
+  const output = new ArrayBuffer(bytes.length);
+  new Uint8Array(output).set(bytes);
+  return output;
+}
+
+function readEntry(entry: { content: ArrayLike<number> }): string {
+  return new TextDecoder().decode(Uint8Array.from(entry.content));
+}
+
+function writeEntry(entry: { content: ArrayLike<number>; size: number }, text: string): void {
+  entry.content = new TextEncoder().encode(text);
+  entry.size = entry.content.length;
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
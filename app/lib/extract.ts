@@ -0,0 +1,305 @@
+import { ContractSchema, Extraction, ExtractionValue, KeyTermField } from "./schema";
+import { DocumentChunk } from "./chunk";
+import { mergeChunkExtractions } from "./merge";
+import { CompletionRequest, CompletionResult, ExtractionProvider } from "./provider";
+import { ChunkInfo, PipelineEventHandler } from "./events";
+import { describeNormalizedFormat } from "./normalize";
+import { BudgetExceededError } from "./budget";
+
+// Bump whenever the prompt or schema changes so cached results are not reused
+export const PROMPT_VERSION = "3";
+
+export const BASE_SYSTEM_PROMPT = `You are extracting key terms from a contract document.
+
+For each field:
+1. Search the entire document thoroughly
+2. If found: Extract the exact verbatim text
+3. If you can infer it from context: Explain your reasoning
+4. If not found: Explain why (e.g., "N/A - not applicable to this contract type")
+
+In the "reasoning" field, briefly explain:
+- Where you found it (section, page, table)
+- Why it's inferred (if applicable)
+- Why it's N/A or not found (if applicable)
+
+For fields with a Type, also fill "normalizedValue" with the value in the requested format, derived from the quote. Leave it null for fields without a Type.
+
+For fields marked as multiple values, put the first occurrence in "quote" and every further separate occurrence in "additionalValues", each with its own exact quote. Leave "additionalValues" empty for all other fields.
+
+Be thorough. Check all sections, tables, headers, and signature blocks.`;
+
+// Number of chunk requests in flight at once
+const CHUNK_CONCURRENCY = 3;
+
+export type ExtractOptions = {
+  onEvent?: PipelineEventHandler;
+  autoFields?: string[]; // Fields filled without the model, reported for progress only
+  sectionNote?: string;
+  chunk?: ChunkInfo;
+};
+
+export type ExtractionRun = {
+  extractions: Extraction[];
+  model: string;
+  usedFallback: boolean;
+  failed: boolean; // Every model call failed, so the extractions are placeholders
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/**
+ * Build the user message listing every field with its full description
+ */
+export function buildUserMessage(fields: KeyTermField[], text: string, sectionNote?: string): string {
+  const fieldsList = fields.map((f, idx) => {
+    const format = describeNormalizedFormat(f);
+    return `${idx + 1}. Field Name: "${f.name}"
+   What to extract: ${f.description}${format ? `
+   Type: ${f.type} (normalizedValue: ${format})` : ''}${f.multiple ? `
+   Multiple values: list every occurrence` : ''}`;
+  }).join('\n\n');
+
+  return `I need you to extract these ${fields.length} fields from a contract document.
+
+FIELDS TO EXTRACT:
+
+${fieldsList}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+${sectionNote ? `${sectionNote}\n\n` : ''}CONTRACT DOCUMENT TEXT:
+
+${text}`;
+}
+
+/**
+ * The extraction call for a prompt built by buildUserMessage
+ */
+export function buildExtractionRequest(model: string, userMessage: string): CompletionRequest {
+  return {
+    model,
+    messages: [
+      { role: "system", content: BASE_SYSTEM_PROMPT },
+      { role: "user", content: userMessage }
+    ],
+    responseFormat: {
+      type: "json_schema",
+      json_schema: ContractSchema
+    },
+  };
+}
+
+type ModelExtraction = Extraction & {
+  additionalValues?: { quote: string; normalizedValue: unknown }[];
+};
+
+/**
+ * Parse the model's JSON output. For multi-valued fields the first quote and
+ * the additional ones become `values`; other fields ignore additionalValues.
+ */
+function parseModelOutput(content: string, fields: KeyTermField[]): Extraction[] {
+  const parsed = JSON.parse(content) as { extractions: ModelExtraction[] };
+
+  return parsed.extractions.map(({ additionalValues = [], ...extraction }) => {
+    const field = fields.find(f => f.name === extraction.field);
+    if (!field?.multiple || extraction.status === "not_found") {
+      return extraction;
+    }
+
+    const values = [{ quote: extraction.quote, normalizedValue: extraction.normalizedValue }, ...additionalValues]
+      .filter(v => v.quote && v.quote.trim())
+      .map((v): ExtractionValue => ({
+        quote: v.quote,
+        page: null,
+        start: null,
+        end: null,
+        normalizedValue: v.normalizedValue as Extraction["normalizedValue"],
+      }));
+    // The model's offsets only describe the first occurrence
+    if (values.length > 0) {
+      values[0] = { ...values[0], start: extraction.start, end: extraction.end };
+    }
+    return { ...extraction, values };
+  });
+}
+
+/**
+ * Placeholder not_found extractions used when the model call fails
+ */
+export function emptyExtractions(fields: KeyTermField[], reasoning: string): Extraction[] {
+  return fields.map(field => ({
+    field: field.name,
+    status: "not_found" as const,
+    quote: "",
+    reasoning,
+    page: null,
+    start: null,
+    end: null,
+    confidence: 0
+  }));
+}
+
+/**
+ * Run a single extraction call, falling back from GPT-5 to gpt-4o if the
+ * model is unavailable. Failures become not_found extractions flagged with
+ * `failed`; only BudgetExceededError is thrown.
+ */
+export async function extractFields(
+  provider: ExtractionProvider,
+  model: string,
+  fields: KeyTermField[],
+  text: string,
+  options: ExtractOptions = {}
+): Promise<ExtractionRun> {
+  const { onEvent = () => {}, autoFields = [], sectionNote, chunk } = options;
+  const userMessage = buildUserMessage(fields, text, sectionNote);
+  console.log(`Prompt length: ${userMessage.length} characters`);
+  onEvent({ type: "prompt", fieldCount: fields.length, autoFields, promptChars: userMessage.length, chunk });
+
+  let response: CompletionResult | undefined;
+  let content: string | null = null;
+  let extractions: Extraction[] = [];
+  let usedFallback = false;
+  let failed = false;
+
+  try {
+    onEvent({ type: "model_call", model, chunk });
+    response = await provider.complete(buildExtractionRequest(model, userMessage));
+    content = response.content;
+
+    if (!content) {
+      throw new Error("No response content from the model");
+    }
+
+    // Try to parse the JSON response
+    try {
+      extractions = parseModelOutput(content, fields);
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      console.error("Response content:", content?.substring(0, 500));
+
+      // If JSON parsing fails, create empty extractions for all fields
+      console.log("Falling back to empty extractions due to JSON parse error");
+      extractions = emptyExtractions(fields, "AI extraction error - unable to parse response. Please try again.");
+      failed = true;
+    }
+  } catch (apiError: any) {
+    if (apiError instanceof BudgetExceededError) throw apiError;
+    console.error("API error:", apiError);
+
+    // If GPT-5 fails, try falling back to gpt-4o
+    if (model === "gpt-5" && apiError?.message?.includes("model")) {
+      console.log("GPT-5 failed, falling back to gpt-4o...");
+      model = "gpt-4o";
+      usedFallback = true;
+      onEvent({ type: "model_fallback", from: "gpt-5", to: model });
+      onEvent({ type: "model_call", model, chunk });
+
+      try {
+        response = await provider.complete(buildExtractionRequest(model, userMessage));
+        content = response.content;
+        if (!content) {
+          throw new Error("No response content from the model");
+        }
+        extractions = parseModelOutput(content, fields);
+        console.log("Successfully extracted with gpt-4o fallback");
+      } catch (fallbackError) {
+        if (fallbackError instanceof BudgetExceededError) throw fallbackError;
+        console.error("Fallback to gpt-4o also failed:", fallbackError);
+        extractions = emptyExtractions(fields, "Both GPT-5 and gpt-4o fallback failed. Please try again.");
+        failed = true;
+      }
+    } else {
+      // If not a model error or already using fallback, create empty extractions
+      console.log("Falling back to empty extractions due to API error");
+      extractions = emptyExtractions(fields, "API error occurred during extraction. Please try again.");
+      failed = true;
+    }
+  }
+
+  extractions.forEach(extraction => onEvent({ type: "extraction", extraction, chunk }));
+
+  return {
+    extractions,
+    model,
+    usedFallback,
+    failed,
+    inputTokens: response?.inputTokens || 0,
+    outputTokens: response?.outputTokens || 0,
+  };
+}
+
+/**
+ * Map-reduce extraction for documents too long for a single call: extract
+ * from each chunk, then merge the per-field candidates. The returned
+ * extractions are already validated and carry global offsets.
+ */
+export async function extractFieldsChunked(
+  provider: ExtractionProvider,
+  model: string,
+  fields: KeyTermField[],
+  chunks: DocumentChunk[],
+  fullTextLength: number,
+  pages: number[] | null,
+  options: Omit<ExtractOptions, "sectionNote" | "chunk"> = {}
+): Promise<ExtractionRun> {
+  console.log(`Extracting from ${chunks.length} chunks (${CHUNK_CONCURRENCY} at a time)`);
+
+  const extractChunk = async (chunk: DocumentChunk, chunkModel: string) => {
+    const pageLabel = pages
+      ? `pages ${chunk.startPage}–${chunk.endPage}`
+      : `characters ${chunk.start}–${chunk.end}`;
+    const sectionNote = `NOTE: This is section ${chunk.index + 1} of ${chunks.length} of a longer document (${pageLabel}). Only extract what appears in this section; mark other fields as not_found.`;
+
+    const run = await extractFields(provider, chunkModel, fields, chunk.text, {
+      ...options,
+      sectionNote,
+      chunk: { index: chunk.index, total: chunks.length },
+    });
+
+    console.log(`Chunk ${chunk.index + 1}/${chunks.length}: ${run.extractions.filter(e => e.status !== 'not_found').length} candidate(s)`);
+    return run;
+  };
+
+  // The first chunk settles whether GPT-5 falls back, so the chunks that
+  // run concurrently after it all start on the same model
+  const first = await extractChunk(chunks[0], model);
+  const runs = [first, ...await mapWithConcurrency(chunks.slice(1), CHUNK_CONCURRENCY, chunk => extractChunk(chunk, first.model))];
+  const fallback = runs.find(run => run.usedFallback);
+
+  return {
+    extractions: mergeChunkExtractions(
+      runs.map((run, idx) => ({ chunk: chunks[idx], extractions: run.extractions })),
+      fields.map(f => f.name),
+      fullTextLength,
+      pages
+    ),
+    model: fallback?.model ?? model,
+    usedFallback: fallback !== undefined,
+    failed: runs.every(run => run.failed),
+    inputTokens: runs.reduce((sum, run) => sum + run.inputTokens, 0),
+    outputTokens: runs.reduce((sum, run) => sum + run.outputTokens, 0),
+  };
+}
+
+/**
+ * Map over items with at most `limit` promises pending, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,112 @@
+import { Extraction } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A run of document text covered by the same set of extraction spans.
+ * `fields` is empty for plain text between highlights.
+ */
+export type HighlightSegment = {
+  start: number;
+  end: number;
+  fields: string[];
+};
+
+/**
+ * One page of the document split into highlight segments
+ */
+export type HighlightedPage = {
+  page: number; // 1-based
+  start: number;
+  end: number;
+  segments: HighlightSegment[];
+};
+
+// Tailwind classes are spelled out so the JIT compiler keeps them
+export const FIELD_HIGHLIGHT_COLORS = [
+  { mark: "bg-yellow-200", dot: "bg-yellow-400" },
+  { mark: "bg-green-200", dot: "bg-green-500" },
+  { mark: "bg-sky-200", dot: "bg-sky-500" },
+  { mark: "bg-pink-200", dot: "bg-pink-500" },
+  { mark: "bg-purple-200", dot: "bg-purple-500" },
+  { mark: "bg-orange-200", dot: "bg-orange-500" },
+  { mark: "bg-teal-200", dot: "bg-teal-500" },
+  { mark: "bg-lime-200", dot: "bg-lime-500" },
+] as const;
+
+export type FieldColor = (typeof FIELD_HIGHLIGHT_COLORS)[number];
+
+// ============================================================================
+// SEGMENTS
+// ============================================================================
+
+/**
+ * Assign each field a highlight color in display order
+ */
+export function getFieldColors(extractions: Extraction[]): Map<string, FieldColor> {
+  const colors = new Map<string, FieldColor>();
+  extractions.forEach((extraction, idx) => {
+    colors.set(extraction.field, FIELD_HIGHLIGHT_COLORS[idx % FIELD_HIGHLIGHT_COLORS.length]);
+  });
+  return colors;
+}
+
+/**
+ * Split the document into pages of highlight segments. Only extractions with
+ * validated offsets that a reviewer hasn't rejected are highlighted;
+ * overlapping spans produce segments that list every field covering them.
+ */
+export function buildHighlightedPages(
+  text: string,
+  pages: number[],
+  extractions: Extraction[]
+): HighlightedPage[] {
+  const spans = extractions
+    .filter(e => e.status !== "not_found" && e.review?.status !== "rejected")
+    .flatMap(e => (e.values && e.values.length > 0 ? e.values : [e]).map(span => ({ field: e.field, start: span.start, end: span.end })))
+    .filter(span => span.start !== null && span.end !== null && span.end > span.start)
+    .map(span => ({ field: span.field, start: span.start!, end: Math.min(span.end!, text.length) }));
+
+  const starts = Array.from(new Set(pages.filter(offset => offset < text.length))).sort((a, b) => a - b);
+  if (starts.length === 0 || starts[0] !== 0) starts.unshift(0);
+
+  return starts.map((start, idx) => {
+    const end = idx + 1 < starts.length ? starts[idx + 1] : text.length;
+    return { page: idx + 1, start, end, segments: buildSegments(start, end, spans) };
+  });
+}
+
+function buildSegments(
+  rangeStart: number,
+  rangeEnd: number,
+  spans: { field: string; start: number; end: number }[]
+): HighlightSegment[] {
+  const inRange = spans.filter(span => span.start < rangeEnd && span.end > rangeStart);
+
+  // Every span edge inside the range is a potential segment boundary
+  const boundaries = new Set<number>([rangeStart, rangeEnd]);
+  for (const span of inRange) {
+    boundaries.add(Math.max(span.start, rangeStart));
+    boundaries.add(Math.min(span.end, rangeEnd));
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const fields = inRange.filter(span => span.start <= start && span.end >= end).map(span => span.field);
+
+    // Merge with the previous segment when the covering fields are the same
+    const previous = segments[segments.length - 1];
+    if (previous && previous.fields.join('\n') === fields.join('\n')) {
+      previous.end = end;
+    } else {
+      segments.push({ start, end, fields });
+    }
+  }
+
+  return segments;
+}
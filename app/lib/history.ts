@@ -0,0 +1,282 @@
+import crypto from "crypto";
+import { ApiResponse, ContractClassification, DocumentText, Extraction, KeyTermField, TemplateRef } from "./schema";
+import { dataPath, isValidId, listDir, readJSON, writeJSON } from "./store";
+import type { ComplianceReport } from "./playbook";
+import { checkCompliance } from "./playbook-store";
+import { computeKeyDates, KeyDates } from "./key-dates";
+import { reviewExtraction, ReviewAction } from "./review";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One saved extraction run
+ */
+export type ExtractionRecord = {
+  id: string;
+  fileHash: string; // SHA-256 of the uploaded file
+  fileName: string;
+  fields: KeyTermField[];
+  template?: TemplateRef; // The template version the fields came from, if any
+  classification?: ContractClassification;
+  model: string;
+  pageCount: number | null;
+  usage: ApiResponse["usage"];
+  notes?: string[];
+  extractions: Extraction[];
+  compliance?: ComplianceReport; // Rechecked whenever the extractions are reviewed
+  keyDates?: KeyDates; // Stored as computed when the run was made; recomputed from the facts when read
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * What GET /api/extractions/:id returns: the record plus the parsed text its
+ * offsets refer to, so the document viewer and review work on reopened runs
+ */
+export type ExtractionRecordView = ExtractionRecord & {
+  document: DocumentText | null;
+};
+
+/**
+ * List entry for GET /api/extractions
+ */
+export type ExtractionSummary = {
+  id: string;
+  fileHash: string;
+  fileName: string;
+  model: string;
+  template?: TemplateRef;
+  contractType?: ContractClassification["contractType"];
+  pageCount: number | null;
+  fieldCount: number;
+  foundCount: number;
+  reviewedCount: number;
+  estimatedUSD: number;
+  createdAt: string;
+};
+
+export type ExtractionQuery = {
+  search?: string; // Matched against file name, field names, quotes and notes
+  fileHash?: string;
+  templateId?: string; // Runs made with any version of this template
+  limit?: number;
+};
+
+type ReviewResult = { record: ExtractionRecord; error?: undefined } | { record?: undefined; error: string };
+
+const DEFAULT_LIST_LIMIT = 50;
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function recordPath(id: string): string {
+  return dataPath("extractions", id, "record.json");
+}
+
+function documentPath(id: string): string {
+  return dataPath("extractions", id, "document.json");
+}
+
+export function hashFile(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Save a finished run together with its parsed text
+ */
+export async function saveExtraction(
+  buffer: Buffer,
+  fields: KeyTermField[],
+  result: ApiResponse,
+  document: DocumentText
+): Promise<ExtractionRecord> {
+  const now = new Date().toISOString();
+  const record: ExtractionRecord = {
+    id: crypto.randomUUID(),
+    fileHash: hashFile(buffer),
+    fileName: result.fileName,
+    fields,
+    ...(result.template ? { template: result.template } : {}),
+    ...(result.classification ? { classification: result.classification } : {}),
+    model: result.model,
+    pageCount: result.pageCount,
+    usage: result.usage,
+    notes: result.notes,
+    extractions: result.extractions,
+    ...(result.compliance ? { compliance: result.compliance } : {}),
+    ...(result.keyDates ? { keyDates: result.keyDates } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeJSON(documentPath(record.id), document);
+  await writeJSON(recordPath(record.id), record);
+  console.log(`Saved extraction ${record.id} for ${record.fileName}`);
+
+  return record;
+}
+
+export async function getExtraction(id: string): Promise<ExtractionRecord | null> {
+  if (!isValidId(id)) return null;
+  return readJSON<ExtractionRecord>(recordPath(id));
+}
+
+export async function getExtractionView(id: string): Promise<ExtractionRecordView | null> {
+  const record = await getExtraction(id);
+  if (!record) return null;
+  return {
+    ...record,
+    ...(record.keyDates ? { keyDates: computeKeyDates(record.keyDates.facts) } : {}),
+    document: await readJSON<DocumentText>(documentPath(id)),
+  };
+}
+
+/**
+ * Every saved run in full, in no particular order
+ */
+export async function listExtractionRecords(): Promise<ExtractionRecord[]> {
+  const ids = (await listDir(dataPath("extractions"))).filter(isValidId);
+  return (await Promise.all(ids.map(id => getExtraction(id))))
+    .filter((record): record is ExtractionRecord => record !== null);
+}
+
+/**
+ * Saved runs, newest first, optionally filtered by file hash or a search term
+ */
+export async function listExtractions(query: ExtractionQuery = {}): Promise<ExtractionSummary[]> {
+  const records = await listExtractionRecords();
+  const search = query.search?.trim().toLowerCase();
+
+  return records
+    .filter(record => !query.fileHash || record.fileHash === query.fileHash)
+    .filter(record => !query.templateId || record.template?.id === query.templateId)
+    .filter(record => !search || matchesSearch(record, search))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, query.limit ?? DEFAULT_LIST_LIMIT)
+    .map(toSummary);
+}
+
+// Serialize updates per record so concurrent reviews don't clobber each other
+const updateChains = new Map<string, Promise<unknown>>();
+
+function withRecordLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const previous = updateChains.get(id) || Promise.resolve();
+  const next = previous.then(fn);
+  updateChains.set(id, next.catch(() => {}));
+  return next;
+}
+
+/**
+ * Replace a saved run's extractions, e.g. after review, and recheck them
+ * against the playbook. Only extractions for the fields the run was made
+ * with are accepted.
+ */
+export function updateExtractions(
+  id: string,
+  extractions: Extraction[]
+): Promise<ExtractionRecord | null> {
+  return withRecordLock(id, () => applyExtractions(id, extractions));
+}
+
+async function applyExtractions(
+  id: string,
+  extractions: Extraction[]
+): Promise<ExtractionRecord | null> {
+  const record = await getExtraction(id);
+  if (!record) return null;
+
+  const known = new Set(record.extractions.map(e => e.field));
+  const unknown = extractions.filter(e => !known.has(e.field));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown field(s): ${unknown.map(e => e.field).join(', ')}`);
+  }
+
+  const merged = record.extractions.map(e => extractions.find(u => u.field === e.field) ?? e);
+  const compliance = await checkCompliance(merged);
+  const updated: ExtractionRecord = {
+    ...record,
+    extractions: merged,
+    ...(compliance ? { compliance } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJSON(recordPath(id), updated);
+
+  return updated;
+}
+
+/**
+ * Apply a reviewer's decision to one field of a saved run. Edited quotes are
+ * checked against the run's stored document, not trusted from the client.
+ * Returns null if the run doesn't exist.
+ */
+export function reviewStoredExtraction(
+  id: string,
+  field: string,
+  action: ReviewAction,
+  reviewer: string | null
+): Promise<ReviewResult | null> {
+  return withRecordLock(id, async (): Promise<ReviewResult | null> => {
+    const record = await getExtraction(id);
+    if (!record) return null;
+
+    const extraction = record.extractions.find(e => e.field === field);
+    if (!extraction) return { error: `Unknown field(s): ${field}` };
+
+    const document = await readJSON<DocumentText>(documentPath(id));
+    const source = document ? { text: document.text, pages: document.paginated ? document.pages : null } : null;
+    const reviewed = reviewExtraction(extraction, action, reviewer, source);
+    if (!reviewed.extraction) return { error: reviewed.error };
+
+    return { record: (await applyExtractions(id, [reviewed.extraction]))! };
+  });
+}
+
+export function toApiResponse(record: ExtractionRecord): ApiResponse {
+  return {
+    id: record.id,
+    fileName: record.fileName,
+    pageCount: record.pageCount,
+    model: record.model,
+    extractions: record.extractions,
+    usage: record.usage,
+    notes: record.notes,
+    template: record.template,
+    classification: record.classification,
+    compliance: record.compliance,
+    keyDates: record.keyDates ? computeKeyDates(record.keyDates.facts) : undefined,
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function matchesSearch(record: ExtractionRecord, search: string): boolean {
+  const haystack = [
+    record.fileName,
+    ...record.fields.map(f => f.name),
+    ...record.extractions.flatMap(e => e.values ? e.values.map(v => v.quote) : [e.quote]),
+    ...(record.notes || []),
+  ];
+  return haystack.some(value => value.toLowerCase().includes(search));
+}
+
+function toSummary(record: ExtractionRecord): ExtractionSummary {
+  return {
+    id: record.id,
+    fileHash: record.fileHash,
+    fileName: record.fileName,
+    model: record.model,
+    template: record.template,
+    contractType: record.classification?.contractType,
+    pageCount: record.pageCount,
+    fieldCount: record.extractions.length,
+    foundCount: record.extractions.filter(e => e.status === "found").length,
+    reviewedCount: record.extractions.filter(e => e.review && e.review.status !== "pending").length,
+    estimatedUSD: record.usage.estimatedUSD,
+    createdAt: record.createdAt,
+  };
+}
@@ -0,0 +1,308 @@
+import { promises as fs } from "fs";
+import crypto from "crypto";
+import { ApiResponse, BulkResult, KeyTermField, TemplateRef } from "./schema";
+import { dataPath, isValidId, listDir, readJSON, writeJSON } from "./store";
+import { runExtractionPipeline } from "./pipeline";
+import { getExtractionProvider } from "./provider";
+import { BudgetExceededError } from "./budget";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobStatus = "queued" | "processing" | "completed" | "completed_with_errors";
+export type JobFileStatus = "queued" | "processing" | "completed" | "failed";
+
+export type JobFile = {
+  index: number;
+  fileName: string;
+  storedName: string;
+  status: JobFileStatus;
+  attempts: number;
+  result?: ApiResponse;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+};
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  model: string;
+  fields: KeyTermField[] | null;
+  template?: TemplateRef; // The template version `fields` came from
+  autoTemplate?: boolean; // Pick each file's template from its detected contract type
+  classify?: boolean; // Detect each file's contract type (default true)
+  retry?: boolean; // Re-ask for quotes that fail validation (default true)
+  keyDates?: boolean; // Find each file's key dates and notice deadlines (default true)
+  force?: boolean; // Bypass the result cache for every file
+  files: JobFile[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type JobProgress = {
+  total: number;
+  completed: number;
+  failed: number;
+};
+
+/**
+ * What GET /api/jobs/:id returns: the stored job plus derived progress and
+ * the finished files in bulk result form
+ */
+export type JobView = Job & {
+  progress: JobProgress;
+  results: BulkResult[];
+};
+
+export type JobUpload = {
+  fileName: string;
+  buffer: Buffer;
+};
+
+// Files extracted at once across all jobs
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || "2", 10) || 2);
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function jobFilePath(id: string): string {
+  return dataPath("jobs", id, "job.json");
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  if (!isValidId(id)) return null;
+  return readJSON<Job>(jobFilePath(id));
+}
+
+export async function listJobs(): Promise<Job[]> {
+  const ids = (await listDir(dataPath("jobs"))).filter(isValidId);
+  const jobs = await Promise.all(ids.map(id => getJob(id)));
+  return jobs
+    .filter((job): job is Job => job !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Serialize writes per job so concurrent file updates don't clobber each other
+const saveChains = new Map<string, Promise<void>>();
+
+function saveJob(job: Job): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const snapshot = JSON.parse(JSON.stringify(job)) as Job;
+  const previous = saveChains.get(job.id) || Promise.resolve();
+  const next = previous.then(() => writeJSON(jobFilePath(job.id), snapshot));
+  saveChains.set(job.id, next.catch(() => {}));
+  return next;
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Persist the uploads and a queued job, then start processing in the
+ * background. Returns as soon as the job is on disk.
+ */
+export async function createJob(
+  uploads: JobUpload[],
+  model: string,
+  fields: KeyTermField[] | null,
+  options: Pick<Job, "template" | "autoTemplate" | "classify" | "retry" | "keyDates" | "force"> = {}
+): Promise<Job> {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  await fs.mkdir(dataPath("jobs", id, "files"), { recursive: true });
+
+  const files: JobFile[] = [];
+  for (let i = 0; i < uploads.length; i++) {
+    const storedName = `${i}`;
+    await fs.writeFile(dataPath("jobs", id, "files", storedName), uploads[i].buffer);
+    files.push({
+      index: i,
+      fileName: uploads[i].fileName,
+      storedName,
+      status: "queued",
+      attempts: 0,
+    });
+  }
+
+  const job: Job = {
+    id,
+    status: "queued",
+    model,
+    fields,
+    ...(options.template ? { template: options.template } : {}),
+    ...(options.autoTemplate ? { autoTemplate: true } : {}),
+    classify: options.classify !== false,
+    retry: options.retry !== false,
+    keyDates: options.keyDates !== false,
+    force: Boolean(options.force),
+    files,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveJob(job);
+  console.log(`Created job ${id} with ${files.length} file(s)`);
+
+  void processJob(job);
+  return job;
+}
+
+let resumed = false;
+
+/**
+ * Pick up jobs left unfinished by a previous server process. Safe to call
+ * repeatedly; only the first call does anything.
+ */
+export async function resumeJobs(): Promise<void> {
+  if (resumed) return;
+  resumed = true;
+
+  for (const job of await listJobs()) {
+    if (job.status === "queued" || job.status === "processing") {
+      console.log(`Resuming job ${job.id}`);
+      void processJob(job);
+    }
+  }
+}
+
+export function toJobView(job: Job): JobView {
+  return {
+    ...job,
+    progress: {
+      total: job.files.length,
+      completed: job.files.filter(f => f.status === "completed").length,
+      failed: job.files.filter(f => f.status === "failed").length,
+    },
+    results: jobToBulkResults(job),
+  };
+}
+
+/**
+ * Convert a job's finished files into the bulk result shape used by the UI exporters
+ */
+export function jobToBulkResults(job: Job): BulkResult[] {
+  return job.files
+    .filter(file => file.status === "completed" || file.status === "failed")
+    .map(file => ({
+      fileName: file.fileName,
+      success: file.status === "completed",
+      result: file.result,
+      error: file.error,
+    }));
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+const activeJobs = new Set<string>();
+let running = 0;
+const waiting: (() => void)[] = [];
+
+async function acquireSlot(): Promise<void> {
+  if (running < JOB_CONCURRENCY) {
+    running++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+}
+
+async function processJob(job: Job): Promise<void> {
+  if (activeJobs.has(job.id)) return;
+  activeJobs.add(job.id);
+
+  try {
+    job.status = "processing";
+    await saveJob(job);
+
+    // Files interrupted mid-extraction by a restart go back in the queue
+    const pending = job.files.filter(file => file.status === "queued" || file.status === "processing");
+    await Promise.all(pending.map(file => processFile(job, file)));
+
+    job.status = job.files.some(file => file.status === "failed") ? "completed_with_errors" : "completed";
+    await saveJob(job);
+    console.log(`Job ${job.id} ${job.status}`);
+  } catch (error) {
+    console.error(`Job ${job.id} stopped unexpectedly:`, error);
+  } finally {
+    activeJobs.delete(job.id);
+  }
+}
+
+async function processFile(job: Job, file: JobFile): Promise<void> {
+  await acquireSlot();
+
+  try {
+    const buffer = await fs.readFile(dataPath("jobs", job.id, "files", file.storedName));
+
+    while (file.attempts < MAX_ATTEMPTS) {
+      file.attempts++;
+      file.status = "processing";
+      file.startedAt = new Date().toISOString();
+      await saveJob(job);
+
+      try {
+        file.result = await runExtractionPipeline(
+          {
+            fileName: file.fileName,
+            buffer,
+            model: job.model,
+            fields: job.fields,
+            template: job.template,
+            autoTemplate: job.autoTemplate,
+            classify: job.classify,
+            retry: job.retry,
+            keyDates: job.keyDates,
+            force: job.force,
+            jobId: job.id,
+            jobCreatedAt: job.createdAt,
+          },
+          getExtractionProvider()
+        );
+        file.status = "completed";
+        file.error = undefined;
+        break;
+      } catch (error) {
+        file.error = error instanceof Error ? error.message : "Unknown error occurred";
+        console.error(`Job ${job.id}: ${file.fileName} attempt ${file.attempts} failed:`, error);
+
+        // A spending limit won't lift between attempts, so don't retry those
+        if (file.attempts >= MAX_ATTEMPTS || error instanceof BudgetExceededError) {
+          file.status = "failed";
+          break;
+        } else {
+          await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (file.attempts - 1)));
+        }
+      }
+    }
+
+    // Attempts may already be exhausted when resuming after a crash
+    if (file.status === "processing" || file.status === "queued") {
+      file.status = "failed";
+      file.error = file.error || "Exceeded maximum attempts";
+    }
+  } catch (error) {
+    file.status = "failed";
+    file.error = error instanceof Error ? error.message : "Unknown error occurred";
+  } finally {
+    file.finishedAt = new Date().toISOString();
+    await saveJob(job);
+    releaseSlot();
+  }
+}
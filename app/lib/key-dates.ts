@@ -0,0 +1,517 @@
+import type { DocumentText, NormalizedValue } from "./schema";
+import type { ExtractionRecord } from "./history";
+import type { CompletionRequest, ExtractionProvider } from "./provider";
+import { alignQuote } from "./align";
+import { pageForOffset } from "./chunk";
+import { parseNormalizedValue, formatNormalizedValue } from "./normalize";
+import { findCandidatePassages } from "./retry";
+import { BudgetExceededError } from "./budget";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A date-related fact stated in the contract, with its verbatim source
+ */
+export type KeyDateFactKind =
+  | "effective_date"
+  | "initial_term"
+  | "end_date"
+  | "auto_renewal"
+  | "renewal_term"
+  | "non_renewal_notice"
+  | "termination_notice"
+  | "obligation";
+
+export type KeyDateFact = {
+  kind: KeyDateFactKind;
+  value: NormalizedValue | null; // date, duration or boolean depending on kind; an obligation's due date, or its period after the effective date
+  description: string; // What the fact is, e.g. the obligation
+  quote: string;
+  page: number | null;
+  start: number | null;
+  end: number | null;
+};
+
+export type KeyDateKind = "effective" | "term_end" | "renewal" | "notice_deadline" | "termination_deadline" | "obligation";
+
+/**
+ * A concrete date worked out from the facts
+ */
+export type KeyDate = {
+  kind: KeyDateKind;
+  date: string; // YYYY-MM-DD
+  title: string;
+  basis: string; // How the date was worked out
+  quotes: string[]; // The quotes it was worked out from
+};
+
+/**
+ * What a run returns in `keyDates`. Dates are recomputed from the facts
+ * whenever the run is read, so auto-renewing terms roll forward.
+ */
+export type KeyDates = {
+  facts: KeyDateFact[];
+  dates: KeyDate[];
+  notes: string[]; // Dates that couldn't be worked out, and why
+};
+
+/**
+ * One row of the obligations report across stored contracts
+ */
+export type Obligation = KeyDate & {
+  extractionId: string;
+  fileName: string;
+};
+
+export type ObligationQuery = {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  extractionId?: string;
+};
+
+export const KEY_DATE_FACT_KINDS: KeyDateFactKind[] = [
+  "effective_date", "initial_term", "end_date", "auto_renewal", "renewal_term", "non_renewal_notice", "termination_notice", "obligation",
+];
+
+const FACT_VALUE_TYPES: Record<KeyDateFactKind, "date" | "duration" | "boolean"> = {
+  effective_date: "date",
+  initial_term: "duration",
+  end_date: "date",
+  auto_renewal: "boolean",
+  renewal_term: "duration",
+  non_renewal_notice: "duration",
+  termination_notice: "duration",
+  obligation: "date",
+};
+
+// The preamble usually states the effective date; the rest is found by keyword
+const OPENING_CHARS = 4000;
+const MAX_PROMPT_CHARS = 12000;
+const KEY_DATE_SEARCH_TERMS = "effective date term initial renew renewal automatically expire expiration notice non-renewal terminate termination prior days months due deadline no later than";
+const KEY_DATE_PASSAGES = 10;
+
+// Auto-renewals are rolled forward at most this many terms
+const MAX_RENEWALS = 200;
+
+export const KeyDatesSchema = {
+  name: "ContractKeyDates",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      facts: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            kind: { type: "string", enum: KEY_DATE_FACT_KINDS },
+            value: {
+              type: ["string", "null"],
+              description: "Dates as YYYY-MM-DD; periods as \"<number> <days|weeks|months|years>\" (\"10 business days\" for business days); auto_renewal as \"true\" or \"false\"; an obligation's due date as YYYY-MM-DD, or as a period if it is due that long after the effective date, or null if it has no deadline",
+            },
+            description: { type: "string", description: "For obligations, what must be done and by whom; otherwise a short label" },
+            quote: { type: "string", description: "Verbatim text from the document stating the fact" },
+          },
+          required: ["kind", "value", "description", "quote"],
+        },
+      },
+    },
+    required: ["facts"],
+  },
+  strict: true,
+} as const;
+
+const KEY_DATES_SYSTEM_PROMPT = `You find the dates and periods in a contract that decide when it renews, ends or must be acted on.
+
+Report each fact that the text states:
+- effective_date: when the agreement takes effect
+- initial_term: length of the initial term
+- end_date: an explicit expiry date
+- auto_renewal: whether the agreement renews automatically
+- renewal_term: length of each renewal term
+- non_renewal_notice: notice required to stop a renewal
+- termination_notice: notice required to terminate for convenience
+- obligation: a one-off obligation with a deadline (a payment, delivery or report due by a date, or within a period of the effective date)
+
+Quote the text word for word. Only report what the document states; never compute dates yourself. Leave out facts that are not in the text.`;
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Ask the model for the contract's date facts. Facts whose quotes can't be
+ * found in the document, or whose values don't parse, are dropped. Failures
+ * other than BudgetExceededError return null so the run can carry on.
+ */
+export async function extractKeyDateFacts(
+  provider: ExtractionProvider,
+  model: string,
+  document: DocumentText
+): Promise<KeyDateFact[] | null> {
+  try {
+    const response = await provider.complete(buildKeyDatesRequest(model, document.text));
+    const parsed = JSON.parse(response.content || "") as { facts?: { kind: string; value: string | null; description: string; quote: string }[] };
+
+    const facts: KeyDateFact[] = [];
+    for (const raw of parsed.facts || []) {
+      if (!KEY_DATE_FACT_KINDS.includes(raw.kind as KeyDateFactKind) || !raw.quote) continue;
+      const kind = raw.kind as KeyDateFactKind;
+
+      const alignment = alignQuote(raw.quote, document.text);
+      if (!alignment) continue;
+
+      // Obligations may be due on a date or a period after the effective date
+      let { value } = parseNormalizedValue(raw.value, { name: kind, description: "", type: FACT_VALUE_TYPES[kind] });
+      if (!value && kind === "obligation") {
+        value = parseNormalizedValue(raw.value, { name: kind, description: "", type: "duration" }).value;
+      }
+      if (!value && kind !== "obligation") continue;
+
+      facts.push({
+        kind,
+        value,
+        description: raw.description || "",
+        quote: alignment.text,
+        page: document.paginated ? pageForOffset(document.pages, alignment.start, document.text.length) : null,
+        start: alignment.start,
+        end: alignment.end,
+      });
+    }
+    return facts;
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    console.error("Key date extraction failed:", error);
+    return null;
+  }
+}
+
+/**
+ * The key date call for a document: its opening plus the passages that
+ * mention terms, renewals, notice and deadlines
+ */
+export function buildKeyDatesRequest(model: string, text: string): CompletionRequest {
+  const opening = text.substring(0, OPENING_CHARS);
+  const sections = [opening];
+  let totalChars = opening.length;
+
+  const passages = findCandidatePassages(text, KEY_DATE_SEARCH_TERMS, KEY_DATE_PASSAGES)
+    .filter(passage => passage.end > OPENING_CHARS)
+    .sort((a, b) => a.start - b.start);
+  for (const passage of passages) {
+    if (totalChars + passage.text.length > MAX_PROMPT_CHARS) continue;
+    sections.push(passage.text);
+    totalChars += passage.text.length;
+  }
+
+  return {
+    model,
+    messages: [
+      { role: "system", content: KEY_DATES_SYSTEM_PROMPT },
+      { role: "user", content: `CONTRACT DOCUMENT TEXT${sections.length > 1 || opening.length < text.length ? ' (excerpts)' : ''}:\n\n${sections.join('\n\n[...]\n\n')}` },
+    ],
+    responseFormat: { type: "json_schema", json_schema: KeyDatesSchema },
+  };
+}
+
+// ============================================================================
+// DEADLINES
+// ============================================================================
+
+/**
+ * Work out concrete dates from the facts: the end of the current term
+ * (rolled forward through auto-renewals up to `today`), the last day to give
+ * notice before it, and dated obligations.
+ */
+export function computeKeyDates(facts: KeyDateFact[], today = new Date()): KeyDates {
+  const dates: KeyDate[] = [];
+  const notes: string[] = [];
+  const todayISO = today.toISOString().substring(0, 10);
+
+  const find = (kind: KeyDateFactKind) => facts.find(f => f.kind === kind && f.value);
+  const effective = find("effective_date");
+  const initialTerm = find("initial_term");
+  const endDate = find("end_date");
+  const autoRenewal = find("auto_renewal");
+  const renewalTerm = find("renewal_term") ?? initialTerm;
+  const nonRenewalNotice = find("non_renewal_notice");
+  const terminationNotice = find("termination_notice");
+
+  const effectiveDate = effective?.value?.type === "date" ? effective.value.value : null;
+  if (effectiveDate) {
+    dates.push({ kind: "effective", date: effectiveDate, title: "Agreement takes effect", basis: "Stated effective date", quotes: [effective!.quote] });
+  }
+
+  // The end of the initial term, from an explicit date or effective date + term
+  let termEnd: string | null = null;
+  let basis = "";
+  const termQuotes: string[] = [];
+  if (endDate?.value?.type === "date") {
+    termEnd = endDate.value.value;
+    basis = "Stated end date";
+    termQuotes.push(endDate.quote);
+  } else if (effectiveDate && initialTerm?.value?.type === "duration") {
+    termEnd = addPeriod(effectiveDate, initialTerm.value, 1);
+    basis = `${effectiveDate} + ${formatNormalizedValue(initialTerm.value)} initial term`;
+    termQuotes.push(effective!.quote, initialTerm.quote);
+  } else if (initialTerm || autoRenewal || nonRenewalNotice) {
+    notes.push(effectiveDate
+      ? "The initial term wasn't found, so the end of the term couldn't be worked out"
+      : "The effective date wasn't found, so the end of the term couldn't be worked out");
+  }
+
+  const renews = autoRenewal?.value?.type === "boolean" && autoRenewal.value.value;
+  let pastRenewalCap = false;
+  if (termEnd && renews) {
+    if (renewalTerm?.value?.type === "duration") {
+      const endAfter = renewalEnds(termEnd, renewalTerm.value, endDate ? null : effectiveDate, initialTerm?.value ?? null);
+      const noticeBefore = (end: string) => nonRenewalNotice?.value?.type === "duration" ? addPeriod(end, nonRenewalNotice.value, -1) : end;
+      const renewedBy = (count: number) => count > 0 ? `, renewed ${count} time${count === 1 ? "" : "s"} by ${formatNormalizedValue(renewalTerm.value!)}` : "";
+      termQuotes.push(autoRenewal!.quote, ...(renewalTerm === initialTerm ? [] : [renewalTerm.quote]));
+
+      let renewals = 0;
+      while (endAfter(renewals) < todayISO && renewals < MAX_RENEWALS) renewals++;
+
+      // Once the current term's notice window has closed, the next deadline
+      // that can still be met is a term later
+      if (noticeBefore(endAfter(renewals)) < todayISO && renewals < MAX_RENEWALS) {
+        dates.push({
+          kind: "renewal",
+          date: endAfter(renewals),
+          title: "Renews automatically; the notice deadline for this renewal has passed",
+          basis: basis + renewedBy(renewals),
+          quotes: [...termQuotes],
+        });
+        renewals++;
+      }
+
+      // Past the cap the dates would all be behind us, so report none
+      if (noticeBefore(endAfter(renewals)) < todayISO) {
+        notes.push(`The agreement has renewed more than ${MAX_RENEWALS} times, so its current term couldn't be worked out`);
+        termEnd = null;
+        pastRenewalCap = true;
+      } else {
+        termEnd = endAfter(renewals);
+        basis += renewedBy(renewals);
+      }
+    } else {
+      notes.push("The agreement renews automatically but the renewal term wasn't found, so later renewals couldn't be worked out");
+    }
+  }
+
+  if (termEnd) {
+    dates.push(renews
+      ? { kind: "renewal", date: termEnd, title: "Renews automatically unless notice is given", basis, quotes: termQuotes }
+      : { kind: "term_end", date: termEnd, title: "Term ends", basis, quotes: termQuotes });
+
+    if (nonRenewalNotice?.value?.type === "duration") {
+      dates.push({
+        kind: "notice_deadline",
+        date: addPeriod(termEnd, nonRenewalNotice.value, -1),
+        title: renews ? "Last day to give notice of non-renewal" : "Last day to give notice before the term ends",
+        basis: `${termEnd} − ${formatNormalizedValue(nonRenewalNotice.value)} notice`,
+        quotes: [...termQuotes, nonRenewalNotice.quote],
+      });
+    }
+    if (terminationNotice?.value?.type === "duration") {
+      dates.push({
+        kind: "termination_deadline",
+        date: addPeriod(termEnd, terminationNotice.value, -1),
+        title: "Last day to give termination notice that ends the agreement with this term",
+        basis: `${termEnd} − ${formatNormalizedValue(terminationNotice.value)} notice`,
+        quotes: [...termQuotes, terminationNotice.quote],
+      });
+    }
+  } else if (nonRenewalNotice && !pastRenewalCap) {
+    notes.push("A notice period was found, but without the end of the term there's no deadline to count back from");
+  }
+
+  for (const obligation of facts.filter(f => f.kind === "obligation")) {
+    const title = obligation.description || "Obligation due";
+    if (obligation.value?.type === "date") {
+      dates.push({ kind: "obligation", date: obligation.value.value, title, basis: "Stated due date", quotes: [obligation.quote] });
+    } else if (obligation.value?.type === "duration" && effectiveDate) {
+      dates.push({
+        kind: "obligation",
+        date: addPeriod(effectiveDate, obligation.value, 1),
+        title,
+        basis: `${effectiveDate} + ${formatNormalizedValue(obligation.value)}`,
+        quotes: [effective!.quote, obligation.quote],
+      });
+    } else if (obligation.value?.type === "duration") {
+      notes.push(`"${title}" is due ${formatNormalizedValue(obligation.value)} after the effective date, which wasn't found`);
+    }
+  }
+
+  return { facts, dates: dates.sort((a, b) => a.date.localeCompare(b.date)), notes };
+}
+
+/**
+ * Add (`sign` 1) or subtract (`sign` -1) a period from a YYYY-MM-DD date.
+ * Months and years keep the day of the month where it exists, otherwise
+ * the month's last day; business days skip weekends.
+ */
+export function addPeriod(date: string, period: Extract<NormalizedValue, { type: "duration" }>, sign: 1 | -1): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day));
+
+  if (period.unit === "months" || period.unit === "years") {
+    const months = period.amount * (period.unit === "years" ? 12 : 1) * sign;
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().substring(0, 10);
+  }
+
+  const days = period.amount * (period.unit === "weeks" ? 7 : 1);
+  if (period.businessDays) {
+    for (let remaining = days; remaining > 0;) {
+      result.setUTCDate(result.getUTCDate() + sign);
+      if (result.getUTCDay() !== 0 && result.getUTCDay() !== 6) remaining--;
+    }
+  } else {
+    result.setUTCDate(result.getUTCDate() + days * sign);
+  }
+  return result.toISOString().substring(0, 10);
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Every key date of the given runs, oldest first, within the query's range
+ */
+export function listObligations(records: ExtractionRecord[], query: ObligationQuery = {}, today = new Date()): Obligation[] {
+  return records
+    .filter(record => !query.extractionId || record.id === query.extractionId)
+    .flatMap(record => computeKeyDates(record.keyDates?.facts || [], today).dates
+      .map(date => ({ ...date, extractionId: record.id, fileName: record.fileName })))
+    .filter(obligation => (!query.from || obligation.date >= query.from) && (!query.to || obligation.date <= query.to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.fileName.localeCompare(b.fileName));
+}
+
+export function obligationsToCSV(obligations: Obligation[]): string {
+  const header = ["Date", "Contract", "Kind", "Title", "Basis", "Source"];
+  const rows = obligations.map(o => [o.date, o.fileName, o.kind, o.title, o.basis, o.quotes.join("\n\n")]);
+  return [header, ...rows].map(row => row.map(escapeCSV).join(",")).join("\n");
+}
+
+/**
+ * An iCalendar feed with one all-day event per key date. UIDs are stable
+ * per contract and kind (and per obligation), so re-importing updates
+ * events instead of duplicating them.
+ */
+export function obligationsToICS(obligations: Obligation[], now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Contract Key Terms//Key Dates//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Contract key dates",
+  ];
+
+  for (const obligation of obligations) {
+    const start = obligation.date.replace(/-/g, "");
+    const end = addPeriod(obligation.date, { type: "duration", amount: 1, unit: "days" }, 1).replace(/-/g, "");
+    // Obligations can share a title, so hash their due date and quotes too
+    const index = obligation.kind === "obligation"
+      ? `-${hashString([obligation.title, obligation.date, ...obligation.quotes].join("\n"))}`
+      : "";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${obligation.extractionId}-${obligation.kind}${index}@contract-key-terms`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${end}`,
+      `SUMMARY:${escapeICS(`${obligation.fileName}: ${obligation.title}`)}`,
+      `DESCRIPTION:${escapeICS(`${obligation.basis}\n\n${obligation.quotes.join("\n\n")}`)}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * The end of the term after `count` renewals. Each is counted from the
+ * original date in one step, so month ends don't drift (Jan 31 → Feb 29 →
+ * Mar 31, not Mar 29): from the effective date when both terms are in
+ * months or years, otherwise from the end of the initial term.
+ */
+function renewalEnds(
+  initialEnd: string,
+  renewalTerm: Extract<NormalizedValue, { type: "duration" }>,
+  effectiveDate: string | null,
+  initialTerm: NormalizedValue | null
+): (count: number) => string {
+  const initialMonths = initialTerm?.type === "duration" ? monthsIn(initialTerm) : null;
+  const renewalMonths = monthsIn(renewalTerm);
+
+  return count => {
+    if (count === 0) return initialEnd;
+    if (effectiveDate && initialMonths !== null && renewalMonths !== null) {
+      return addPeriod(effectiveDate, { type: "duration", amount: initialMonths + count * renewalMonths, unit: "months" }, 1);
+    }
+    return addPeriod(initialEnd, { ...renewalTerm, amount: renewalTerm.amount * count }, 1);
+  };
+}
+
+function monthsIn(period: Extract<NormalizedValue, { type: "duration" }>): number | null {
+  if (period.unit === "months") return period.amount;
+  if (period.unit === "years") return period.amount * 12;
+  return null;
+}
+
+/**
+ * Quote a CSV cell. Cells starting with =, +, - or @ get a leading
+ * apostrophe so spreadsheets show contract text instead of running it as a
+ * formula.
+ */
+function escapeCSV(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function escapeICS(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+// (RFC 5545). Lengths are UTF-8 bytes and folds fall between characters.
+function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf-8");
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+function hashString(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
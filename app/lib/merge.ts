@@ -0,0 +1,145 @@
+import { Extraction, validateExtractions } from "./schema";
+import { DocumentChunk, pageForOffset } from "./chunk";
+
+export type ChunkExtractions = {
+  chunk: DocumentChunk;
+  extractions: Extraction[];
+};
+
+const STATUS_RANK: Record<Extraction["status"], number> = {
+  found: 2,
+  inferred: 1,
+  not_found: 0,
+};
+
+/**
+ * Validate each chunk's extractions against that chunk's text, rebase the
+ * offsets to the full document and keep the best candidate per field.
+ *
+ * `pages` are the parsed document's page offsets, or null when the format
+ * has no reliable pagination (DOCX).
+ */
+export function mergeChunkExtractions(
+  results: ChunkExtractions[],
+  fieldOrder: string[],
+  fullTextLength: number,
+  pages: number[] | null
+): Extraction[] {
+  const candidates = new Map<string, Extraction[]>();
+
+  for (const { chunk, extractions } of results) {
+    // Model-reported offsets are relative to whatever it thought the text was,
+    // so discard them and let validation locate the quote in the chunk
+    const validated = validateExtractions(
+      extractions.map(e => ({
+        ...e,
+        start: null,
+        end: null,
+        ...(e.values ? { values: e.values.map(v => ({ ...v, start: null, end: null })) } : {}),
+      })),
+      chunk.text
+    );
+
+    for (const extraction of validated) {
+      const rebased = rebaseExtraction(extraction, chunk, fullTextLength, pages);
+      const list = candidates.get(rebased.field) || [];
+      list.push(rebased);
+      candidates.set(rebased.field, list);
+    }
+  }
+
+  const merged: Extraction[] = [];
+
+  for (const field of fieldOrder) {
+    const list = candidates.get(field);
+    if (!list || list.length === 0) {
+      merged.push({
+        field,
+        status: "not_found",
+        quote: "",
+        reasoning: `Not returned by the model for any of the ${results.length} document sections`,
+        page: null,
+        start: null,
+        end: null,
+        confidence: 0,
+      });
+      continue;
+    }
+    merged.push(list.some(c => c.values) ? mergeValues(list) : pickBestCandidate(list));
+  }
+
+  return merged;
+}
+
+/**
+ * Shift a chunk-relative extraction to global offsets and derive its page
+ */
+export function rebaseExtraction(
+  extraction: Extraction,
+  chunk: DocumentChunk,
+  fullTextLength: number,
+  pages: number[] | null
+): Extraction {
+  const rebase = (start: number | null, end: number | null) =>
+    start === null || end === null
+      ? { start, end, page: null }
+      : {
+          start: start + chunk.start,
+          end: end + chunk.start,
+          page: pages ? pageForOffset(pages, start + chunk.start, fullTextLength) : null,
+        };
+
+  return {
+    ...extraction,
+    ...rebase(extraction.start, extraction.end),
+    ...(extraction.values
+      ? { values: extraction.values.map(v => ({ ...v, ...rebase(v.start, v.end) })) }
+      : {}),
+  };
+}
+
+/**
+ * Multi-valued fields keep every occurrence found in any section: the
+ * found candidates' values are combined in document order, with overlapping
+ * chunks' duplicates dropped.
+ */
+function mergeValues(candidates: Extraction[]): Extraction {
+  const found = candidates.filter(c => c.status === "found" && c.values && c.values.length > 0);
+  if (found.length === 0) {
+    return pickBestCandidate(candidates);
+  }
+
+  const values = found
+    .flatMap(c => c.values!)
+    .filter((value, idx, all) => all.findIndex(v => v.start === value.start) === idx)
+    .sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+
+  const [first] = values;
+  return {
+    ...pickBestCandidate(found),
+    quote: first.quote,
+    start: first.start,
+    end: first.end,
+    page: first.page,
+    normalizedValue: first.normalizedValue,
+    confidence: Math.min(...found.map(c => c.confidence)),
+    values,
+  };
+}
+
+/**
+ * Prefer validated quotes over inferred values over not_found, then the
+ * most confident candidate, then the longest quote.
+ */
+function pickBestCandidate(candidates: Extraction[]): Extraction {
+  return candidates.reduce((best, candidate) => {
+    const rankDiff = STATUS_RANK[candidate.status] - STATUS_RANK[best.status];
+    if (rankDiff !== 0) {
+      return rankDiff > 0 ? candidate : best;
+    }
+    if (candidate.confidence !== best.confidence) {
+      return candidate.confidence > best.confidence ? candidate : best;
+    }
+    return candidate.quote.length > best.quote.length ? candidate : best;
+  });
+}
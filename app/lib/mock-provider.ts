@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+import type { CompletionRequest, CompletionResult, ExtractionProvider } from "./provider";
+import { estimateTokens } from "./cost";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type FixtureEntry = {
+  status?: "found" | "inferred";
+  quote: string;
+  reasoning?: string;
+  confidence?: number;
+  normalizedValue?: string;
+  additionalValues?: { quote: string; normalizedValue?: string }[]; // Further occurrences of a multi-valued field
+};
+
+type KeyDateFixtureEntry = {
+  kind: string;
+  value: string | null;
+  description?: string;
+  quote: string;
+};
+
+export type MockFixture = {
+  extractions: Record<string, FixtureEntry>;
+  keyDates?: KeyDateFixtureEntry[];
+};
+
+const DEFAULT_FIXTURE_PATH = "fixtures/mock-extractions.json";
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Deterministic offline provider. Extraction requests are answered from a
+ * fixture of per-field quotes (MOCK_FIXTURE_PATH, defaulting to
+ * fixtures/mock-extractions.json); a fixture quote only counts as found when
+ * it actually appears in the document sent with the request. Field-list
+ * parsing requests are answered by reading "Name: description" lines,
+ * classification requests by looking for each contract type's keywords, and
+ * key date requests from the fixture's `keyDates` facts found in the text.
+ */
+export function createMockProvider(fixture?: MockFixture): ExtractionProvider {
+  let loaded: MockFixture | null = fixture || null;
+
+  const getFixture = (): MockFixture => {
+    if (!loaded) {
+      loaded = loadMockFixture(process.env.MOCK_FIXTURE_PATH || DEFAULT_FIXTURE_PATH);
+    }
+    return loaded;
+  };
+
+  return {
+    name: "mock",
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const userMessage = request.messages.filter(m => m.role === "user").map(m => m.content).join('\n\n');
+      const prompt = request.messages.map(m => m.content).join('\n\n');
+
+      const schemaName = request.responseFormat.type === "json_schema" ? request.responseFormat.json_schema.name : null;
+      const body = schemaName === "ContractKeyTerms"
+        ? mockExtractions(userMessage, getFixture())
+        : schemaName === "ContractClassification"
+        ? mockClassification(userMessage)
+        : schemaName === "ContractKeyDates"
+        ? mockKeyDates(userMessage, getFixture())
+        : request.responseFormat.type === "json_object"
+        ? mockParseFields(userMessage)
+        : {};
+
+      const content = JSON.stringify(body);
+
+      return {
+        content,
+        model: request.model,
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(content),
+      };
+    },
+  };
+}
+
+export function loadMockFixture(fixturePath: string): MockFixture {
+  const resolved = path.resolve(process.cwd(), fixturePath);
+
+  try {
+    return JSON.parse(fs.readFileSync(resolved, "utf-8")) as MockFixture;
+  } catch (error) {
+    throw new Error(`Failed to load mock fixture from ${resolved}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function mockExtractions(userMessage: string, fixture: MockFixture) {
+  const fieldNames = Array.from(userMessage.matchAll(/Field Name: "([^"]+)"/g)).map(m => m[1]);
+  const markerIndex = userMessage.indexOf("CONTRACT DOCUMENT TEXT:");
+  const documentText = markerIndex === -1 ? userMessage : userMessage.substring(markerIndex);
+
+  const entries = new Map(
+    Object.entries(fixture.extractions).map(([name, entry]) => [name.toLowerCase(), entry])
+  );
+
+  return {
+    extractions: fieldNames.map(field => {
+      const entry = entries.get(field.toLowerCase());
+      const isInferred = entry?.status === "inferred";
+
+      if (!entry || (!isInferred && !documentText.includes(entry.quote))) {
+        return {
+          field,
+          status: "not_found",
+          quote: "",
+          reasoning: entry ? "Mock provider: fixture quote does not appear in this text" : "Mock provider: no fixture entry for this field",
+          page: null,
+          start: null,
+          end: null,
+          confidence: 0,
+          normalizedValue: null,
+          additionalValues: [],
+        };
+      }
+
+      return {
+        field,
+        status: isInferred ? "inferred" : "found",
+        quote: entry.quote,
+        reasoning: entry.reasoning || "Mock provider: returned from fixture",
+        page: null,
+        start: null,
+        end: null,
+        confidence: entry.confidence ?? 0.9,
+        normalizedValue: entry.normalizedValue ?? null,
+        additionalValues: (entry.additionalValues || [])
+          .filter(v => documentText.includes(v.quote))
+          .map(v => ({ quote: v.quote, normalizedValue: v.normalizedValue ?? null })),
+      };
+    }),
+  };
+}
+
+const CLASSIFICATION_KEYWORDS: [string, RegExp][] = [
+  ["nda", /non-disclosure|confidentiality agreement/i],
+  ["sow", /statement of work/i],
+  ["msa", /master (services|service) agreement/i],
+  ["order_form", /order form/i],
+  ["lease", /\blease\b|landlord|tenant/i],
+];
+
+function mockClassification(userMessage: string) {
+  const match = CLASSIFICATION_KEYWORDS.find(([, pattern]) => pattern.test(userMessage));
+  return match
+    ? { contractType: match[0], confidence: 0.9, rationale: `Mock provider: text matches ${match[1].source}` }
+    : { contractType: "other", confidence: 0.5, rationale: "Mock provider: no contract type keywords found" };
+}
+
+function mockKeyDates(userMessage: string, fixture: MockFixture) {
+  return {
+    facts: (fixture.keyDates || [])
+      .filter(fact => userMessage.includes(fact.quote))
+      .map(fact => ({ kind: fact.kind, value: fact.value, description: fact.description || fact.kind, quote: fact.quote })),
+  };
+}
+
+function mockParseFields(userMessage: string) {
+  const text = userMessage.substring(userMessage.indexOf("\n\n") + 2);
+  const fields: { name: string; description: string }[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(?:\d+[.)]|[-*•])?\s*([^:]+?)\s*:\s+(.+)$/);
+    if (match) {
+      fields.push({ name: match[1].trim(), description: match[2].trim() });
+    }
+  }
+
+  return { fields };
+}
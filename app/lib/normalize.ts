@@ -0,0 +1,207 @@
+import { Extraction, FIELD_TYPES, FieldType, KeyTermField, NormalizedValue } from "./schema";
+
+// ============================================================================
+// PROMPT FORMATS
+// ============================================================================
+
+/**
+ * The canonical string the model is asked to put in `normalizedValue` for
+ * each field type. Free text fields are not normalized.
+ */
+export function describeNormalizedFormat(field: KeyTermField): string | null {
+  switch (field.type) {
+    case "date":
+      return 'ISO date "YYYY-MM-DD"';
+    case "currency":
+      return 'ISO currency code and amount, e.g. "USD 1500.00"';
+    case "duration":
+      return 'number and unit (days, business days, weeks, months or years), e.g. "30 days"';
+    case "percentage":
+      return 'percentage as a number, e.g. "15" for 15%';
+    case "enum":
+      return `exactly one of: ${(field.options || []).map(o => `"${o}"`).join(', ')}`;
+    case "boolean":
+      return '"true" or "false"';
+    case "party":
+      return "the party's full legal name";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check user-supplied field definitions, returning an error message for the
+ * first invalid one
+ */
+export function checkFieldDefinitions(fields: KeyTermField[]): string | null {
+  for (const field of fields) {
+    if (!field || typeof field.name !== "string" || !field.name.trim()) {
+      return "Every field needs a name";
+    }
+    if (field.type !== undefined && !FIELD_TYPES.includes(field.type)) {
+      return `Field "${field.name}" has unknown type "${field.type}". Expected one of: ${FIELD_TYPES.join(', ')}`;
+    }
+    if (field.type === "enum" && (!Array.isArray(field.options) || field.options.length === 0)) {
+      return `Enum field "${field.name}" needs a list of options`;
+    }
+    if (field.multiple !== undefined && typeof field.multiple !== "boolean") {
+      return `Field "${field.name}" has an invalid "multiple" flag; expected true or false`;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "$": "USD", "€": "EUR", "£": "GBP", "¥": "JPY" };
+
+const DURATION_UNITS: Record<string, "days" | "weeks" | "months" | "years"> = {
+  day: "days", days: "days",
+  week: "weeks", weeks: "weeks",
+  month: "months", months: "months",
+  year: "years", years: "years",
+};
+
+/**
+ * Parse and validate the model's `normalizedValue` string for a typed field.
+ * Returns null for free text fields or when there is no value, and an error
+ * if the value doesn't fit the field's type.
+ */
+export function parseNormalizedValue(
+  raw: unknown,
+  field: KeyTermField
+): { value: NormalizedValue | null; error?: string } {
+  const type: FieldType = field.type || "text";
+  if (type === "text" || raw === null || raw === undefined) {
+    return { value: null };
+  }
+
+  // Already parsed (e.g. a stored result being re-normalized)
+  if (typeof raw === "object" && (raw as NormalizedValue).type === type) {
+    return { value: raw as NormalizedValue };
+  }
+
+  const input = String(raw).trim();
+  if (!input) return { value: null };
+
+  const invalid = (expected: string) => ({ value: null, error: `"${input}" is not ${expected}` });
+
+  switch (type) {
+    case "date": {
+      const match = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+      if (!match || !date || date.getUTCMonth() !== +match[2] - 1 || date.getUTCDate() !== +match[3]) {
+        return invalid("a valid YYYY-MM-DD date");
+      }
+      return { value: { type, value: input } };
+    }
+
+    case "currency": {
+      // Accept "USD 1,500.00", "1500 USD" and "$1,500"
+      const match = input.match(/^([A-Z]{3}|[$€£¥])?\s*(-?[\d,]+(?:\.\d+)?)\s*([A-Z]{3})?$/i);
+      const code = match && (match[1] ? CURRENCY_SYMBOLS[match[1]] || match[1].toUpperCase() : match[3]?.toUpperCase());
+      const amount = match ? parseFloat(match[2].replace(/,/g, '')) : NaN;
+      if (!match || !code || isNaN(amount)) {
+        return invalid("a currency amount with an ISO code");
+      }
+      return { value: { type, amount, currency: code } };
+    }
+
+    case "duration": {
+      const match = input.match(/^(\d+(?:\.\d+)?)\s*(business\s+|calendar\s+)?([a-z]+)$/i);
+      const unit = match ? DURATION_UNITS[match[3].toLowerCase()] : undefined;
+      if (!match || !unit || (match[2] && unit !== "days")) {
+        return invalid("a duration in days, weeks, months or years");
+      }
+      const businessDays = /^business/i.test(match[2] || "");
+      return { value: { type, amount: parseFloat(match[1]), unit, ...(businessDays ? { businessDays } : {}) } };
+    }
+
+    case "percentage": {
+      const value = parseFloat(input.replace(/%$/, ''));
+      if (!/^-?\d+(?:\.\d+)?%?$/.test(input) || isNaN(value)) {
+        return invalid("a percentage");
+      }
+      return { value: { type, value } };
+    }
+
+    case "enum": {
+      const option = (field.options || []).find(o => o.toLowerCase() === input.toLowerCase());
+      if (!option) {
+        return invalid(`one of ${(field.options || []).join(', ') || '(no options defined)'}`);
+      }
+      return { value: { type, value: option } };
+    }
+
+    case "boolean": {
+      const lower = input.toLowerCase();
+      if (lower !== "true" && lower !== "false") {
+        return invalid("true or false");
+      }
+      return { value: { type, value: lower === "true" } };
+    }
+
+    case "party":
+      return { value: { type, value: input } };
+
+    default:
+      return { value: null };
+  }
+}
+
+/**
+ * Replace each extraction's raw `normalizedValue` with the parsed, typed
+ * value. Values that fail validation are dropped and reported as errors.
+ */
+export function normalizeExtractions(
+  extractions: Extraction[],
+  fields: KeyTermField[]
+): { extractions: Extraction[]; errors: string[] } {
+  const errors: string[] = [];
+
+  const normalized = extractions.map(extraction => {
+    const field = fields.find(f => f.name === extraction.field);
+    if (!field || extraction.status === "not_found") {
+      return { ...extraction, normalizedValue: null };
+    }
+
+    if (extraction.values && extraction.values.length > 0) {
+      const values = extraction.values.map(v => {
+        const { value, error } = parseNormalizedValue(v.normalizedValue, field);
+        if (error) errors.push(`${extraction.field}: ${error}`);
+        return { ...v, normalizedValue: value };
+      });
+      return { ...extraction, values, normalizedValue: values[0].normalizedValue ?? null };
+    }
+
+    const { value, error } = parseNormalizedValue(extraction.normalizedValue, field);
+    if (error) errors.push(`${extraction.field}: ${error}`);
+    return { ...extraction, normalizedValue: value };
+  });
+
+  return { extractions: normalized, errors };
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Human readable form of a normalized value, also used by the exports
+ */
+export function formatNormalizedValue(value: NormalizedValue): string {
+  switch (value.type) {
+    case "currency":
+      return `${value.currency} ${value.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case "duration":
+      return `${value.amount} ${value.businessDays ? "business " : ""}${value.amount === 1 ? value.unit.replace(/s$/, '') : value.unit}`;
+    case "percentage":
+      return `${value.value}%`;
+    case "boolean":
+      return value.value ? "Yes" : "No";
+    default:
+      return value.value;
+  }
+}
@@ -0,0 +1,175 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OcrPageResult = {
+  page: number; // 1-based
+  text: string;
+  confidence: number; // 0..1, mean word confidence
+};
+
+/**
+ * Recognizes text on selected pages of a PDF
+ */
+export interface OcrEngine {
+  readonly name: string;
+  recognize(pdf: Buffer, pages: number[]): Promise<OcrPageResult[]>;
+}
+
+/**
+ * What OCR did to a parsed document, reported back in ApiResponse.notes
+ */
+export type OcrSummary = {
+  engine: string;
+  pages: { page: number; confidence: number }[];
+  failedPages: number[];
+  error?: string;
+};
+
+// Pages with fewer non-whitespace characters than this are treated as scans
+export const OCR_MIN_CHARS_PER_PAGE = parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || "50", 10) || 50;
+
+const OCR_PAGE_TIMEOUT_MS = 120000;
+
+// ============================================================================
+// ENGINES
+// ============================================================================
+
+/**
+ * Select the OCR engine from OCR_ENGINE: "tesseract" (default) or "none"
+ */
+export function getOcrEngine(): OcrEngine | null {
+  const name = (process.env.OCR_ENGINE || "tesseract").toLowerCase();
+
+  switch (name) {
+    case "none":
+      return null;
+    case "tesseract":
+      return createTesseractEngine();
+    default:
+      throw new Error(`Unknown OCR_ENGINE "${name}". Expected "tesseract" or "none"`);
+  }
+}
+
+/**
+ * Local Tesseract engine: rasterizes each page with poppler's pdftoppm and
+ * reads it with the tesseract CLI. Binary paths and language can be set
+ * with PDFTOPPM_PATH, TESSERACT_PATH and OCR_LANG.
+ */
+export function createTesseractEngine(): OcrEngine {
+  const pdftoppm = process.env.PDFTOPPM_PATH || "pdftoppm";
+  const tesseract = process.env.TESSERACT_PATH || "tesseract";
+  const lang = process.env.OCR_LANG || "eng";
+
+  return {
+    name: "tesseract",
+    async recognize(pdf: Buffer, pages: number[]): Promise<OcrPageResult[]> {
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "contract-ocr-"));
+
+      try {
+        const pdfPath = path.join(workDir, "input.pdf");
+        await fs.writeFile(pdfPath, pdf);
+
+        const results: OcrPageResult[] = [];
+
+        for (const page of pages) {
+          const imageBase = path.join(workDir, `page-${page}`);
+          await run(pdftoppm, ["-f", `${page}`, "-l", `${page}`, "-r", "300", "-png", "-singlefile", pdfPath, imageBase]);
+
+          const tsv = await run(tesseract, [`${imageBase}.png`, "stdout", "-l", lang, "tsv"]);
+          results.push({ page, ...parseTesseractTsv(tsv) });
+        }
+
+        return results;
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Find pages whose extracted text is too sparse to be a real text layer
+ */
+export function findSparsePages(pageTexts: string[], minChars: number = OCR_MIN_CHARS_PER_PAGE): number[] {
+  const sparse: number[] = [];
+
+  pageTexts.forEach((text, idx) => {
+    if (text.replace(/\s/g, '').length < minChars) {
+      sparse.push(idx + 1);
+    }
+  });
+
+  return sparse;
+}
+
+/**
+ * Rebuild text from tesseract's TSV output (one row per word) and average
+ * the word confidences
+ */
+export function parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+  const lines: string[] = [];
+  const confidences: number[] = [];
+  let currentKey: string | null = null;
+  let currentBlock: string | null = null;
+  let words: string[] = [];
+
+  const flush = () => {
+    if (words.length > 0) lines.push(words.join(' '));
+    words = [];
+  };
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12 || cols[0] !== '5') continue; // level 5 = word
+
+    const [, , block, par, line] = cols;
+    const conf = parseFloat(cols[10]);
+    const word = cols.slice(11).join('\t').trim();
+    if (!word) continue;
+
+    const key = `${block}.${par}.${line}`;
+    if (key !== currentKey) {
+      flush();
+      // Paragraph or block changes get a blank line between them
+      const blockKey = `${block}.${par}`;
+      if (currentBlock !== null && blockKey !== currentBlock) lines.push('');
+      currentBlock = blockKey;
+      currentKey = key;
+    }
+
+    words.push(word);
+    if (conf >= 0) confidences.push(conf);
+  }
+  flush();
+
+  const confidence = confidences.length > 0
+    ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length / 100
+    : 0;
+
+  return { text: lines.join('\n'), confidence };
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: OCR_PAGE_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = (error as NodeJS.ErrnoException).code === "ENOENT"
+          ? `${command} is not installed`
+          : stderr.trim() || error.message;
+        reject(new Error(`OCR failed: ${reason}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
@@ -1,8 +1,8 @@
-import OpenAI from "openai";
+import OpenAI, { AzureOpenAI } from "openai";
 
 export function getOpenAIClient(): OpenAI {
   const apiKey = process.env.OPENAI_API_KEY;
-  
+
   if (!apiKey) {
     throw new Error("OPENAI_API_KEY environment variable is not set");
   }
@@ -12,6 +12,61 @@ export function getOpenAIClient(): OpenAI {
   });
 }
 
+export function getAzureOpenAIClient(): OpenAI {
+  const apiKey = process.env.AZURE_OPENAI_API_KEY;
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+
+  if (!apiKey || !endpoint) {
+    throw new Error("AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT environment variables must be set");
+  }
+
+  // Without a fixed deployment, the requested model name is used as the deployment
+  return new AzureOpenAI({
+    apiKey,
+    endpoint,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+  });
+}
+
+/**
+ * Deployment names by model from AZURE_OPENAI_DEPLOYMENTS (a JSON object of
+ * model → deployment). Models missing from it are used as deployment names.
+ */
+export function getAzureDeployments(): Record<string, string> {
+  const raw = process.env.AZURE_OPENAI_DEPLOYMENTS;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const deployments: Record<string, string> = {};
+    for (const [model, deployment] of Object.entries(parsed)) {
+      if (typeof deployment === "string" && deployment.trim()) {
+        deployments[model] = deployment.trim();
+      } else {
+        console.error(`Ignoring AZURE_OPENAI_DEPLOYMENTS entry for ${model}: the deployment name must be a string`);
+      }
+    }
+    return deployments;
+  } catch (error) {
+    console.error("Invalid AZURE_OPENAI_DEPLOYMENTS JSON:", error);
+    return {};
+  }
+}
+
+export function getCompatibleClient(): OpenAI {
+  const baseURL = process.env.OPENAI_BASE_URL;
+
+  if (!baseURL) {
+    throw new Error("OPENAI_BASE_URL environment variable is not set");
+  }
+
+  // Local servers (vLLM, Ollama) usually ignore the key, but the SDK requires one
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || "not-needed",
+    baseURL,
+  });
+}
+
 export function getDefaultModel(): string {
   return process.env.NEXT_PUBLIC_MODEL || "gpt-5";
 }
@@ -21,4 +76,3 @@ export const SUPPORTED_MODELS = ["gpt-5", "gpt-4o", "o3-mini", "gpt-4o-mini"] as
 export function validateModel(model: string): boolean {
   return SUPPORTED_MODELS.includes(model as any);
 }
-
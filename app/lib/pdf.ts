@@ -1,52 +1,50 @@
 import pdf from "pdf-parse";
+import { findSparsePages, getOcrEngine, OcrEngine, OcrSummary } from "./ocr";
 
 export type ParsedDocument = {
   pages: number[]; // Store page boundary offsets instead of duplicating text
   text: string;
   pageCount: number;
+  ocr?: OcrSummary;
 };
 
-export async function parsePDF(buffer: Buffer): Promise<ParsedDocument> {
+export async function parsePDF(
+  buffer: Buffer,
+  ocrEngine: OcrEngine | null = getOcrEngine()
+): Promise<ParsedDocument> {
   try {
-    // Set a timeout to prevent hanging on problematic PDFs
-    const parsePromise = pdf(buffer);
-    const data = await parsePromise;
-    
-    // Get full text
+    // Capture each page's text as pdf-parse renders it, so page boundaries
+    // are known exactly and sparse (scanned) pages can be detected
+    const pageTexts: string[] = [];
+    const data = await pdf(buffer, {
+      pagerender: async (pageData: any) => {
+        const text = await renderPage(pageData);
+        pageTexts[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+
     const fullText = data.text;
     const pageCount = data.numpages;
-    
+
     // Check if the parsed text is suspiciously large (might indicate a parsing issue)
     if (fullText.length > 500000) {
       throw new Error(`PDF text is too large (${fullText.length} characters). This PDF may be encrypted or corrupted. Please try a different file or remove encryption.`);
     }
-    
-    // Store page offsets instead of duplicating text - much more memory efficient
-    const pageOffsets: number[] = [];
-    
-    // Try to find page boundaries by form feed characters
-    if (fullText.includes('\f')) {
-      let offset = 0;
-      pageOffsets.push(0); // First page starts at 0
-      
-      for (let i = 0; i < fullText.length; i++) {
-        if (fullText[i] === '\f') {
-          pageOffsets.push(i + 1); // Next page starts after the form feed
-        }
-      }
-    } else {
-      // Fallback: divide text roughly evenly across pages
-      const charsPerPage = Math.ceil(fullText.length / pageCount);
-      for (let i = 0; i <= pageCount; i++) {
-        pageOffsets.push(i * charsPerPage);
-      }
+
+    // Pages that failed to render never reached the callback
+    for (let i = 0; i < pageCount; i++) {
+      pageTexts[i] = pageTexts[i] ?? "";
     }
-    
-    return {
-      pages: pageOffsets,
-      text: fullText,
-      pageCount: pageOffsets.length - 1 || 1,
-    };
+
+    // Scanned pages have little or no text layer; OCR them if we can
+    const sparsePages = findSparsePages(pageTexts);
+    if (sparsePages.length > 0 && ocrEngine) {
+      return await applyOcr(buffer, pageTexts, sparsePages, ocrEngine);
+    }
+
+    // Rebuild the text from the per-page renders so page offsets are exact
+    return { ...joinPages(pageTexts), pageCount: pageTexts.length || 1 };
   } catch (error) {
     if (error instanceof Error && error.message.includes('too large')) {
       throw error;
@@ -55,3 +53,74 @@ export async function parsePDF(buffer: Buffer): Promise<ParsedDocument> {
   }
 }
 
+/**
+ * Replace sparse pages with OCR output and rebuild the text with exact page
+ * offsets. If OCR fails the original text layer is kept and the failure is
+ * recorded in the summary.
+ */
+async function applyOcr(
+  buffer: Buffer,
+  pageTexts: string[],
+  sparsePages: number[],
+  ocrEngine: OcrEngine
+): Promise<ParsedDocument> {
+  const summary: OcrSummary = { engine: ocrEngine.name, pages: [], failedPages: [] };
+  const texts = [...pageTexts];
+
+  console.log(`Running ${ocrEngine.name} OCR on ${sparsePages.length} page(s) with little or no text`);
+
+  try {
+    const results = await ocrEngine.recognize(buffer, sparsePages);
+    for (const result of results) {
+      texts[result.page - 1] = result.text;
+      summary.pages.push({ page: result.page, confidence: result.confidence });
+    }
+    summary.failedPages = sparsePages.filter(page => !results.some(r => r.page === page));
+  } catch (error) {
+    console.error("OCR failed:", error);
+    summary.failedPages = sparsePages;
+    summary.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return { ...joinPages(texts), pageCount: texts.length || 1, ocr: summary };
+}
+
+/**
+ * Join page texts the way pdf-parse does ("\n\n" before each page),
+ * recording where each page starts plus a final end offset
+ */
+function joinPages(pageTexts: string[]): { text: string; pages: number[] } {
+  let text = "";
+  const pages: number[] = [];
+
+  for (const pageText of pageTexts) {
+    pages.push(text.length);
+    text += "\n\n" + pageText;
+  }
+  pages.push(text.length);
+
+  return { text, pages };
+}
+
+/**
+ * Same text assembly as pdf-parse's default renderer: items on the same
+ * baseline are concatenated, a new baseline starts a new line
+ */
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    if (lastY == item.transform[5] || !lastY) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
@@ -0,0 +1,522 @@
+import { ApiResponse, ContractClassification, DocumentText, Extraction, KeyTermField, TemplateRef, validateExtractions, generateValidationReport, assignPages } from "./schema";
+import { parsePDF, ParsedDocument } from "./pdf";
+import { OcrSummary } from "./ocr";
+import { parseDOCX, ParsedDocument as ParsedDOCX } from "./docx";
+import { parseText } from "./text";
+import { chunkDocument, DEFAULT_CHUNK_CHARS } from "./chunk";
+import { extractFields, extractFieldsChunked, ExtractionRun } from "./extract";
+import { ExtractionProvider } from "./provider";
+import { PipelineEventHandler } from "./events";
+import { hashFile, saveExtraction } from "./history";
+import { checkFieldDefinitions, normalizeExtractions } from "./normalize";
+import { getCacheKey, getCachedResult, setCachedResult } from "./cache";
+import { AUTO_TEMPLATE, CONTRACT_TYPE_LABELS, DEFAULT_FIELDS, formatTemplateRef } from "./templates";
+import { findTemplateForType, resolveTemplate } from "./template-store";
+import { canSelectTemplate, classifyContract, describeClassification } from "./classify";
+import { retryFailedQuotes, RetryRun } from "./retry";
+import { createUsageMeter } from "./usage";
+import { createBudgetedProvider, SpendScope } from "./budget";
+import { checkCompliance } from "./playbook-store";
+import { compareResults, ContractComparison } from "./compare";
+import { computeKeyDates, extractKeyDateFacts } from "./key-dates";
+
+export const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB
+
+export type ExtractionRequest = {
+  fileName: string;
+  buffer: Buffer;
+  model: string;
+  fields: KeyTermField[] | null;
+  template?: TemplateRef; // The template version `fields` came from
+  autoTemplate?: boolean; // Pick the template from the detected contract type
+  classify?: boolean; // Detect the contract type first (default true)
+  retry?: boolean; // Re-ask for quotes that fail validation, within the retry budget (default true)
+  keyDates?: boolean; // Find key dates and work out notice deadlines (default true)
+  force?: boolean; // Skip the result cache and always call the model
+  saveHistory?: boolean; // Keep the run in the history library (default true)
+  jobId?: string; // The bulk job the run belongs to, for the per-batch budget
+  jobCreatedAt?: string; // When that job was created
+};
+
+/**
+ * The fields requested for a run, before the document has been read
+ */
+export type FieldSelection = {
+  fields: KeyTermField[] | null; // null means the default fields
+  template?: TemplateRef;
+  autoTemplate?: boolean;
+};
+
+// ============================================================================
+// REQUEST PARSING
+// ============================================================================
+
+/**
+ * Read and check the multipart form shared by the extract routes. Returns
+ * an error message suitable for a 400 response if the upload is unusable.
+ * `fileKey` names the form field holding the document.
+ */
+export async function readExtractionForm(
+  formData: FormData,
+  fileKey = 'file'
+): Promise<{ request: ExtractionRequest; error?: undefined } | { request?: undefined; error: string }> {
+  const file = formData.get(fileKey) as File;
+  const modelParam = formData.get('model') as string | null;
+  const fieldsParam = formData.get('fields') as string | null;
+  const templateParam = formData.get('template') as string | null;
+  const forceParam = formData.get('force') as string | null;
+  const classifyParam = formData.get('classify') as string | null;
+  const retryParam = formData.get('retry') as string | null;
+  const keyDatesParam = formData.get('keyDates') as string | null;
+
+  if (!file) {
+    return { error: fileKey === 'file' ? 'No file provided' : `No ${fileKey} file provided` };
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return { error: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit` };
+  }
+
+  if (!isSupportedFile(file.name)) {
+    return { error: 'Only PDF, DOCX and TXT files are supported' };
+  }
+
+  const selection = await resolveFieldSelection(fieldsParam, templateParam);
+  if (selection.error !== undefined) {
+    return { error: selection.error };
+  }
+
+  const bytes = await file.arrayBuffer();
+
+  return {
+    request: {
+      fileName: file.name,
+      buffer: Buffer.from(bytes),
+      model: modelParam || "gpt-5",
+      fields: selection.fields,
+      template: selection.template,
+      autoTemplate: selection.autoTemplate,
+      classify: classifyParam !== 'false',
+      retry: retryParam !== 'false',
+      keyDates: keyDatesParam !== 'false',
+      force: forceParam === 'true',
+    }
+  };
+}
+
+/**
+ * Work out which fields to extract from the `fields` JSON or `template`
+ * ("templateId@version", or "auto" to choose by contract type) form
+ * parameters. Neither means the default fields.
+ */
+export async function resolveFieldSelection(
+  fieldsParam: string | null,
+  templateParam: string | null
+): Promise<(FieldSelection & { error?: undefined }) | { error: string }> {
+  if (fieldsParam && templateParam) {
+    return { error: 'Pass either fields or template, not both' };
+  }
+
+  if (templateParam === AUTO_TEMPLATE) {
+    return { fields: null, autoTemplate: true };
+  }
+
+  if (templateParam) {
+    const resolved = await resolveTemplate(templateParam);
+    if (resolved.error !== undefined) return { error: resolved.error };
+    return { fields: resolved.fields, template: resolved.template };
+  }
+
+  if (!fieldsParam) {
+    return { fields: null };
+  }
+
+  let fields: KeyTermField[];
+  try {
+    fields = JSON.parse(fieldsParam);
+  } catch (e) {
+    return { error: 'Invalid fields JSON' };
+  }
+  if (!Array.isArray(fields)) {
+    return { error: 'Fields must be a JSON array' };
+  }
+
+  const fieldsError = checkFieldDefinitions(fields);
+  return fieldsError ? { error: fieldsError } : { fields };
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return name.endsWith('.pdf') || name.endsWith('.docx') || name.endsWith('.txt');
+}
+
+export async function parseDocument(fileName: string, buffer: Buffer): Promise<ParsedDocument | ParsedDOCX> {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.pdf')) return parsePDF(buffer);
+  if (name.endsWith('.docx')) return parseDOCX(buffer);
+  return parseText(buffer);
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/**
+ * Parse, extract, validate and price a single document, then save the run
+ * to the history library. Progress is reported through `onEvent` as each
+ * stage completes. Throws BudgetExceededError if a model call would go over
+ * a spending limit, and an Error if every extraction call failed.
+ */
+export async function runExtractionPipeline(
+  request: ExtractionRequest,
+  provider: ExtractionProvider,
+  onEvent: PipelineEventHandler = () => {}
+): Promise<ApiResponse> {
+  const { fileName, buffer } = request;
+
+  console.log(`Processing ${fileName} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
+  if (request.fields) {
+    console.log(`Custom fields: ${request.fields.map(f => f.name).join(', ')}`);
+  }
+
+  // Build dynamic prompt with field descriptions
+  let fieldsToExtract = request.fields || DEFAULT_FIELDS;
+  let template = request.template;
+  const fileHash = hashFile(buffer);
+  // Every model call below is checked against the budgets, recorded in the
+  // spend ledger and counted by the meter, so usage covers all of them
+  const spend: SpendScope = { fileName, template: template ? formatTemplateRef(template) : null, jobId: request.jobId ?? null, jobCreatedAt: request.jobCreatedAt };
+  const meter = createUsageMeter(createBudgetedProvider(provider, spend));
+
+  // With a fixed field set the cache can answer before the document is read
+  if (!request.autoTemplate) {
+    const cached = await lookupCachedResult(request, getCacheKey(fileHash, fieldsToExtract, request.model, request), template, onEvent);
+    if (cached) return cached;
+  }
+
+  // Extract text from document
+  const parsedDoc = await parseDocument(fileName, buffer);
+  const fullText = parsedDoc.text;
+
+  console.log(`Extracted ${fullText.length} characters from ${parsedDoc.pageCount || 'unknown'} pages`);
+  onEvent({ type: "parsed", fileName, pageCount: parsedDoc.pageCount, charCount: fullText.length });
+  // The text every offset refers to, for the document viewer
+  const document: DocumentText = { text: fullText, pages: parsedDoc.pages, paginated: parsedDoc.pageCount !== null };
+  onEvent({ type: "document", ...document });
+
+  // Label the contract type, and pick its template if asked to
+  const classificationNotes: string[] = [];
+  let classification: ContractClassification | null = null;
+
+  if (request.classify !== false || request.autoTemplate) {
+    const classified = await classifyContract(meter.provider, request.model, fullText);
+    classification = classified.classification;
+
+    if (classification) {
+      console.log(`Classified ${fileName} as ${describeClassification(classification)}`);
+      onEvent({ type: "classification", classification });
+    } else {
+      classificationNotes.push("Contract type could not be determined");
+    }
+  }
+
+  if (request.autoTemplate) {
+    const selected = canSelectTemplate(classification) ? await findTemplateForType(classification.contractType) : null;
+    const resolved = selected ? await resolveTemplate(selected.id) : null;
+
+    if (resolved?.fields) {
+      fieldsToExtract = resolved.fields;
+      template = resolved.template;
+      spend.template = formatTemplateRef(template);
+      classificationNotes.push(`Used the ${resolved.template.name} template (v${resolved.template.version}) for this ${CONTRACT_TYPE_LABELS[classification!.contractType]}`);
+    } else {
+      classificationNotes.push(classification && classification.contractType !== "other"
+        ? `No confident template match for ${describeClassification(classification)}; extracted the default fields`
+        : "No template matches this contract type; extracted the default fields");
+    }
+
+    const cached = await lookupCachedResult(request, getCacheKey(fileHash, fieldsToExtract, request.model, request), template, onEvent, false);
+    if (cached) {
+      return {
+        ...cached,
+        usage: meter.usage(),
+        ...(classification ? { classification } : {}),
+      };
+    }
+  }
+  const cacheKey = getCacheKey(fileHash, fieldsToExtract, request.model, request);
+
+  // Documents longer than one context window are extracted chunk by chunk
+  const useChunking = fullText.length > DEFAULT_CHUNK_CHARS;
+
+  // Pre-populate fields that can be automatically determined
+  const autoExtractions: Extraction[] = [];
+  const fieldsNeedingExtraction: KeyTermField[] = [];
+
+  fieldsToExtract.forEach(field => {
+    const fieldNameLower = field.name.toLowerCase();
+
+    // Auto-populate Source File from filename
+    if (fieldNameLower.includes('source file') || fieldNameLower.includes('file name')) {
+      autoExtractions.push({
+        field: field.name,
+        status: "found",
+        quote: fileName,
+        reasoning: "Automatically extracted from uploaded filename",
+        page: null,
+        start: null,
+        end: null,
+        confidence: 1.0
+      });
+    }
+    // Auto-default Currency to USD if field asks for it and mentions default
+    else if (fieldNameLower.includes('currency') && field.description.toLowerCase().includes('default') && field.description.toLowerCase().includes('usd')) {
+      // Don't auto-populate currency, let the model find it or infer it
+      fieldsNeedingExtraction.push(field);
+    }
+    else {
+      fieldsNeedingExtraction.push(field);
+    }
+  });
+
+  // Log what's being auto-populated
+  if (autoExtractions.length > 0) {
+    console.log(`Auto-populated fields: ${autoExtractions.map(e => e.field).join(', ')}`);
+  }
+  console.log(`Sending ${fieldsNeedingExtraction.length} fields to ${request.model} for extraction`);
+
+  const autoFields = autoExtractions.map(e => e.field);
+  let run: ExtractionRun;
+  let chunkCount = 0;
+
+  if (useChunking) {
+    const chunks = chunkDocument(parsedDoc);
+    chunkCount = chunks.length;
+    run = await extractFieldsChunked(
+      meter.provider,
+      request.model,
+      fieldsNeedingExtraction,
+      chunks,
+      fullText.length,
+      parsedDoc.pageCount !== null ? parsedDoc.pages : null,
+      { onEvent, autoFields }
+    );
+  } else {
+    run = await extractFields(meter.provider, request.model, fieldsNeedingExtraction, fullText, { onEvent, autoFields });
+  }
+
+  // Placeholders from failed calls would pass for a finished run, so fail
+  // it instead and let the caller (or a job's retries) try again
+  if (run.failed && fieldsNeedingExtraction.length > 0) {
+    throw new Error(`Extraction failed for ${fileName}: every model call failed`);
+  }
+
+  const { model, usedFallback } = run;
+  const modelExtractions = run.extractions;
+
+  // Combine auto-populated fields with model extractions
+  const allExtractions = [...autoExtractions, ...modelExtractions];
+
+  console.log(`Received ${modelExtractions.length} extractions from AI`);
+  console.log(`Total extractions (including auto-populated): ${allExtractions.length}`);
+  console.log(`Found: ${allExtractions.filter(e => e.status === 'found').length}, Inferred: ${allExtractions.filter(e => e.status === 'inferred').length}, Not found: ${allExtractions.filter(e => e.status === 'not_found').length}`);
+
+  // Validate extractions against the source text
+  console.log("Validating extractions against source text...");
+  let validatedQuotes = validateExtractions(allExtractions, fullText);
+
+  // Give quotes that failed validation a second chance, with feedback
+  let retry: RetryRun | null = null;
+  if (request.retry !== false) {
+    retry = await retryFailedQuotes(meter.provider, model, fieldsNeedingExtraction, validatedQuotes, fullText, { onEvent });
+    validatedQuotes = retry.extractions;
+  }
+
+  // Page numbers come from the validated offsets, never from the model
+  const locatedExtractions = assignPages(
+    validatedQuotes,
+    parsedDoc.pageCount !== null ? parsedDoc.pages : null,
+    fullText.length
+  );
+
+  // Generate validation report before reordering so indices line up
+  const validationReport = generateValidationReport(allExtractions, locatedExtractions);
+
+  // Parse typed values; ones that don't fit the field's type are dropped
+  const normalization = normalizeExtractions(locatedExtractions, fieldsToExtract);
+  const validatedExtractions = normalization.extractions;
+  if (normalization.errors.length > 0) {
+    console.log(`Normalization: ${normalization.errors.join('; ')}`);
+  }
+
+  // Sort extractions to match original field order
+  const fieldOrder = fieldsToExtract.map(f => f.name);
+  validatedExtractions.sort((a, b) => {
+    const indexA = fieldOrder.indexOf(a.field);
+    const indexB = fieldOrder.indexOf(b.field);
+    return indexA - indexB;
+  });
+
+  if (validationReport.invalidCount > 0) {
+    console.log(`Validation: ${validationReport.invalidCount} extraction(s) failed validation and were marked as not_found`);
+    console.log(`Invalid fields: ${validationReport.invalidFields.join(', ')}`);
+  } else {
+    console.log(`Validation: All ${validationReport.validCount} extraction(s) passed validation`);
+  }
+  onEvent({
+    type: "validation",
+    extractions: validatedExtractions,
+    validCount: validationReport.validCount,
+    invalidCount: validationReport.invalidCount,
+    invalidFields: validationReport.invalidFields,
+  });
+
+  // Check the terms against our standard positions
+  const compliance = await checkCompliance(validatedExtractions);
+
+  // Find the dates that decide renewal and notice, and count back deadlines
+  const keyDateFacts = request.keyDates !== false ? await extractKeyDateFacts(meter.provider, model, document) : null;
+  const keyDates = keyDateFacts ? computeKeyDates(keyDateFacts) : undefined;
+
+  // Price every call at the rates of the model that answered it
+  const usage = meter.usage();
+  onEvent({ type: "usage", usage });
+
+  // Build notes
+  const notes: string[] = [...classificationNotes];
+  if ('ocr' in parsedDoc && parsedDoc.ocr) {
+    notes.push(...describeOcr(parsedDoc.ocr));
+  }
+  if (useChunking) {
+    notes.push(`Document exceeded ${DEFAULT_CHUNK_CHARS.toLocaleString()} characters and was extracted in ${chunkCount} chunks`);
+  }
+  if (validationReport.invalidCount > 0) {
+    notes.push(`${validationReport.invalidCount} extraction(s) failed validation and were marked as not_found`);
+  }
+  if (retry?.spendLimitReached) {
+    notes.push("Stopped re-asking for unverified quotes because a spending limit was reached");
+  }
+  if (retry && retry.attempted.length > 0) {
+    notes.push(retry.recovered.length > 0
+      ? `Re-asked for ${retry.attempted.length} field(s) whose quotes could not be verified; recovered ${retry.recovered.join(', ')}`
+      : `Re-asked for ${retry.attempted.length} field(s) whose quotes could not be verified; none were recovered`);
+  }
+  if (validationReport.correctedFields.length > 0) {
+    notes.push(`Quote(s) for ${validationReport.correctedFields.join(', ')} did not match the document verbatim and were corrected to the closest source text`);
+  }
+  if (normalization.errors.length > 0) {
+    notes.push(`Normalized value(s) dropped because they didn't match the field type: ${normalization.errors.join('; ')}`);
+  }
+  if (request.keyDates !== false && !keyDateFacts) {
+    notes.push("Key dates could not be extracted");
+  }
+  const extractionFailed = modelExtractions.length > 0 && modelExtractions.every(e => e.status === "not_found");
+  if (extractionFailed) {
+    notes.push("AI extraction encountered an error - please try again or check server logs");
+  }
+  if (usedFallback) {
+    notes.push("Used gpt-4o model (GPT-5 not yet available)");
+  }
+
+  const response: ApiResponse = {
+    fileName,
+    pageCount: parsedDoc.pageCount,
+    model,
+    extractions: validatedExtractions,
+    usage,
+    notes: notes.length > 0 ? notes : undefined,
+    ...(template ? { template } : {}),
+    ...(classification ? { classification } : {}),
+    ...(compliance ? { compliance } : {}),
+    ...(keyDates ? { keyDates } : {}),
+    ...(retry && retry.attempted.length > 0 ? {
+      retry: {
+        attempted: retry.attempted,
+        recovered: retry.recovered,
+        attempts: retry.attempts,
+        inputTokens: retry.inputTokens,
+        outputTokens: retry.outputTokens,
+      }
+    } : {}),
+  };
+
+  if (request.saveHistory === false) return response;
+
+  // Keep the run in the history library; a failed save shouldn't lose the result
+  try {
+    const record = await saveExtraction(buffer, fieldsToExtract, response, document);
+    // Failed runs are kept in history but never served from the cache
+    if (!extractionFailed) {
+      await setCachedResult(cacheKey, record.id);
+    }
+    return { id: record.id, ...response };
+  } catch (error) {
+    console.error("Failed to save extraction history:", error);
+    return response;
+  }
+}
+
+/**
+ * Extract the same fields from an original and a revised document and diff
+ * them field by field. With automatic template selection the template is
+ * picked from the original, so both documents are read with one field set.
+ */
+export async function runComparisonPipeline(
+  before: ExtractionRequest,
+  after: ExtractionRequest,
+  provider: ExtractionProvider
+): Promise<ContractComparison> {
+  const beforeResult = await runExtractionPipeline(before, provider);
+
+  let afterRequest = after;
+  if (after.autoTemplate) {
+    const resolved = beforeResult.template ? await resolveTemplate(formatTemplateRef(beforeResult.template)) : null;
+    afterRequest = { ...after, autoTemplate: false, fields: resolved?.fields ?? null, template: resolved?.template };
+  }
+  const afterResult = await runExtractionPipeline(afterRequest, provider);
+
+  return compareResults(beforeResult, afterResult);
+}
+
+/**
+ * The saved result for this file, fields, model and prompt, unless the
+ * request forces a fresh extraction
+ */
+async function lookupCachedResult(
+  request: ExtractionRequest,
+  cacheKey: string,
+  template: TemplateRef | undefined,
+  onEvent: PipelineEventHandler,
+  emitDocument = true
+): Promise<ApiResponse | null> {
+  if (request.force) return null;
+
+  try {
+    const cached = await getCachedResult(cacheKey);
+    if (!cached) return null;
+
+    console.log(`Returning cached result ${cached.response.id} for ${request.fileName}`);
+    onEvent({ type: "cache_hit", extractionId: cached.response.id!, fileName: request.fileName });
+    if (cached.document && emitDocument) onEvent({ type: "document", ...cached.document });
+    // Recheck against the playbook as it is now, which may have changed since the run
+    const compliance = await checkCompliance(cached.response.extractions);
+    return { ...cached.response, fileName: request.fileName, template, compliance };
+  } catch (error) {
+    console.error("Result cache lookup failed:", error);
+    return null;
+  }
+}
+
+function describeOcr(ocr: OcrSummary): string[] {
+  const notes: string[] = [];
+
+  if (ocr.pages.length > 0) {
+    const pages = ocr.pages.map(p => `${p.page} (${Math.round(p.confidence * 100)}%)`).join(', ');
+    notes.push(`OCR (${ocr.engine}) applied to scanned page(s) ${pages}; percentages are OCR confidence`);
+  }
+  if (ocr.failedPages.length > 0) {
+    notes.push(`Page(s) ${ocr.failedPages.join(', ')} have little or no text and could not be OCR'd${ocr.error ? `: ${ocr.error}` : ''}`);
+  }
+
+  return notes;
+}
@@ -0,0 +1,76 @@
+import { Extraction } from "./schema";
+import { dataPath, readJSON, writeJSON } from "./store";
+import { checkPlaybookRules, ComplianceReport, DEFAULT_PLAYBOOK, evaluatePlaybook, Playbook, PlaybookRule } from "./playbook";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Body of PUT /api/playbook
+ */
+export type PlaybookInput = {
+  name?: string;
+  rules: PlaybookRule[];
+};
+
+type PlaybookResult = { playbook: Playbook; error?: undefined } | { playbook?: undefined; error: string };
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function playbookPath(): string {
+  return dataPath("playbook.json");
+}
+
+/**
+ * The playbook extractions are checked against: the stored one once it has
+ * been edited, otherwise the built-in standard positions
+ */
+export async function getPlaybook(): Promise<Playbook> {
+  return (await readJSON<Playbook>(playbookPath())) ?? structuredClone(DEFAULT_PLAYBOOK);
+}
+
+/**
+ * Replace the playbook's rules, bumping its version so stored compliance
+ * reports show which rules they were checked against
+ */
+export async function savePlaybook(input: PlaybookInput): Promise<PlaybookResult> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Body must be an object with a rules array" };
+  }
+  if (input.name !== undefined && (typeof input.name !== "string" || !input.name.trim())) {
+    return { error: "name must be a non-empty string" };
+  }
+  const error = checkPlaybookRules(input.rules);
+  if (error) return { error };
+
+  const current = await getPlaybook();
+  const playbook: Playbook = {
+    ...current,
+    name: input.name?.trim() || current.name,
+    version: current.version + 1,
+    rules: input.rules,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeJSON(playbookPath(), playbook);
+  return { playbook };
+}
+
+// ============================================================================
+// COMPLIANCE
+// ============================================================================
+
+/**
+ * Check extractions against the current playbook. A playbook that can't be
+ * read is logged and the result goes without a report rather than failing.
+ */
+export async function checkCompliance(extractions: Extraction[]): Promise<ComplianceReport | undefined> {
+  try {
+    return evaluatePlaybook(await getPlaybook(), extractions);
+  } catch (error) {
+    console.error("Playbook compliance check failed:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,464 @@
+import type { Extraction, NormalizedValue } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DurationUnit = "days" | "weeks" | "months" | "years";
+
+/**
+ * How a rule tests a field. Numeric checks read the typed `normalizedValue`
+ * when the field has one, and otherwise parse the quote ("Net 30", "thirty
+ * (30) days' notice"); `near` picks the duration closest to a keyword when a
+ * quote mentions several.
+ */
+export type RuleCheck =
+  | { type: "present" } // The term must be in the contract
+  | { type: "absent" } // The term must not be in the contract
+  | { type: "duration"; min?: number; max?: number; unit: DurationUnit; near?: string }
+  | { type: "amount"; min?: number; max?: number; currency?: string }
+  | { type: "percentage"; min?: number; max?: number }
+  | { type: "one_of"; values: string[] } // Case-insensitive; matches the typed value or the quote
+  | { type: "includes"; pattern: string } // Case-insensitive regular expression the quote must match
+  | { type: "excludes"; pattern: string }; // ... and must not match
+
+export const RULE_CHECK_TYPES: RuleCheck["type"][] = ["present", "absent", "duration", "amount", "percentage", "one_of", "includes", "excludes"];
+
+/**
+ * One standard position for a field
+ */
+export type PlaybookRule = {
+  id: string;
+  field: string; // Field name the rule applies to, case-insensitive
+  standard: string; // The position in words, shown with every finding
+  severity: "fail" | "warn"; // Finding when the contract deviates
+  check: RuleCheck;
+};
+
+/**
+ * Our standard positions. Rules for fields a run didn't extract are skipped,
+ * so one playbook covers every template.
+ */
+export type Playbook = {
+  id: string;
+  name: string;
+  version: number;
+  rules: PlaybookRule[];
+  updatedAt: string;
+};
+
+export type FindingStatus = "pass" | "warn" | "fail";
+export type RiskLevel = "low" | "medium" | "high";
+
+export type ComplianceFinding = {
+  ruleId: string;
+  field: string;
+  standard: string;
+  status: FindingStatus;
+  explanation: string;
+  quote?: string; // The quote the finding is about, if any
+};
+
+export type ComplianceReport = {
+  playbook: Pick<Playbook, "id" | "name" | "version">;
+  findings: ComplianceFinding[];
+  summary: Record<FindingStatus, number> & { risk: RiskLevel };
+};
+
+// Below this confidence a passing term is still flagged for a person to confirm
+export const REVIEW_CONFIDENCE = 0.5;
+
+const DAYS_PER_UNIT: Record<DurationUnit, number> = { days: 1, weeks: 7, months: 30, years: 365 };
+
+// Calendar days per business day, for comparing "10 business days" with a limit in days
+const CALENDAR_DAYS_PER_BUSINESS_DAY = 7 / 5;
+
+// User-supplied patterns run against every extraction, so they are kept short
+// and free of the nested quantifiers, repeated alternations and backreferences
+// that backtrack badly
+const MAX_PATTERN_CHARS = 200;
+const UNBOUNDED_QUANTIFIER = /^(?:[+*]|\{\d+,\d*\})/;
+const BACKREFERENCE = /\\(?:[1-9]|k<)/;
+
+// ============================================================================
+// DEFAULT PLAYBOOK
+// ============================================================================
+
+export const DEFAULT_PLAYBOOK: Playbook = {
+  id: "standard",
+  name: "Standard positions",
+  version: 1,
+  updatedAt: "2025-01-01T00:00:00.000Z",
+  rules: [
+    {
+      id: "payment-net-days",
+      field: "Payment",
+      standard: "Invoices are due within 45 days",
+      severity: "fail",
+      check: { type: "duration", max: 45, unit: "days", near: "net|due|within|payable" },
+    },
+    {
+      id: "renewal-notice",
+      field: "Renewal terms",
+      standard: "At least 60 days' notice to stop an auto-renewal",
+      severity: "warn",
+      check: { type: "duration", min: 60, unit: "days", near: "notice|prior" },
+    },
+    {
+      id: "cancellation-notice",
+      field: "Cancellation policy",
+      standard: "Termination on no more than 90 days' notice",
+      severity: "warn",
+      check: { type: "duration", max: 90, unit: "days", near: "notice|prior" },
+    },
+    {
+      id: "termination-for-convenience",
+      field: "Termination for convenience",
+      standard: "Termination for convenience on no more than 90 days' notice",
+      severity: "warn",
+      check: { type: "duration", max: 90, unit: "days", near: "notice|prior" },
+    },
+    {
+      id: "no-unlimited-liability",
+      field: "Limitation of liability",
+      standard: "Liability is capped; no unlimited liability",
+      severity: "fail",
+      check: { type: "excludes", pattern: "unlimited|uncapped|without limit" },
+    },
+  ],
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Check a run's extractions against the playbook. Rejected extractions count
+ * as not found; terms that are missing or can't be read need a person to
+ * look, so they are warnings rather than passes.
+ */
+export function evaluatePlaybook(playbook: Playbook, extractions: Extraction[]): ComplianceReport {
+  const findings: ComplianceFinding[] = [];
+
+  for (const rule of playbook.rules) {
+    const extraction = extractions.find(e => e.field.toLowerCase() === rule.field.toLowerCase());
+    if (!extraction) continue;
+    findings.push({ ruleId: rule.id, field: extraction.field, standard: rule.standard, ...evaluateRule(rule, extraction) });
+  }
+
+  const count = (status: FindingStatus) => findings.filter(f => f.status === status).length;
+  const summary = { pass: count("pass"), warn: count("warn"), fail: count("fail") };
+
+  return {
+    playbook: { id: playbook.id, name: playbook.name, version: playbook.version },
+    findings,
+    summary: { ...summary, risk: summary.fail > 0 ? "high" : summary.warn > 0 ? "medium" : "low" },
+  };
+}
+
+/**
+ * Check playbook rules supplied by a user, returning an error message for
+ * the first invalid one
+ */
+export function checkPlaybookRules(rules: PlaybookRule[]): string | null {
+  if (!Array.isArray(rules)) return "rules must be an array";
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== "string" || !rule.id.trim()) return "Every rule needs an id";
+    if (ids.has(rule.id)) return `Rule id "${rule.id}" is used more than once`;
+    ids.add(rule.id);
+
+    if (typeof rule.field !== "string" || !rule.field.trim()) return `Rule "${rule.id}" needs a field`;
+    if (typeof rule.standard !== "string" || !rule.standard.trim()) return `Rule "${rule.id}" needs a standard`;
+    if (rule.severity !== "fail" && rule.severity !== "warn") return `Rule "${rule.id}" severity must be fail or warn`;
+
+    const check = rule.check;
+    if (!check || !RULE_CHECK_TYPES.includes(check.type)) {
+      return `Rule "${rule.id}" has an unknown check type. Expected one of: ${RULE_CHECK_TYPES.join(', ')}`;
+    }
+    if (check.type === "duration" || check.type === "amount" || check.type === "percentage") {
+      if (check.min === undefined && check.max === undefined) return `Rule "${rule.id}" needs a min or max`;
+      for (const bound of [check.min, check.max]) {
+        if (bound !== undefined && (typeof bound !== "number" || !Number.isFinite(bound))) {
+          return `Rule "${rule.id}" min and max must be numbers`;
+        }
+      }
+      if (check.min !== undefined && check.max !== undefined && check.min > check.max) {
+        return `Rule "${rule.id}" min is more than its max`;
+      }
+    }
+    if (check.type === "amount" && check.currency !== undefined && typeof check.currency !== "string") {
+      return `Rule "${rule.id}" currency must be a string`;
+    }
+    if (check.type === "duration" && !(check.unit in DAYS_PER_UNIT)) {
+      return `Rule "${rule.id}" unit must be one of: ${Object.keys(DAYS_PER_UNIT).join(', ')}`;
+    }
+    if (check.type === "one_of" && (!Array.isArray(check.values) || check.values.length === 0 || check.values.some(v => typeof v !== "string"))) {
+      return `Rule "${rule.id}" needs a list of values`;
+    }
+    if ((check.type === "includes" || check.type === "excludes") && typeof check.pattern !== "string") {
+      return `Rule "${rule.id}" needs a pattern`;
+    }
+
+    const pattern = check.type === "includes" || check.type === "excludes" ? check.pattern
+      : check.type === "duration" ? check.near
+      : undefined;
+    if (pattern !== undefined) {
+      const error = checkPattern(pattern);
+      if (error) return `Rule "${rule.id}" ${error}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * A term's size as one number, for sorting and filtering across contracts:
+ * periods in days, amounts and percentages as written. The typed value is
+ * used when there is one, otherwise the quote is read.
+ */
+export function measureTerm(quote: string, value: NormalizedValue | null | undefined): number | null {
+  if (value?.type === "duration") return durationInDays(value.amount, value.unit, value.businessDays);
+  if (value?.type === "currency") return value.amount;
+  if (value?.type === "percentage") return value.value;
+  return findDurationDays(quote) ?? findAmount(quote)?.amount ?? findPercentage(quote);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+type RuleResult = Pick<ComplianceFinding, "status" | "explanation" | "quote">;
+type Occurrence = { quote: string; value: NormalizedValue | null };
+
+const STATUS_RANK: Record<FindingStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+function evaluateRule(rule: PlaybookRule, extraction: Extraction): RuleResult {
+  const occurrences = getOccurrences(extraction);
+  const check = rule.check;
+
+  if (occurrences.length === 0) {
+    if (check.type === "absent") return { status: "pass", explanation: `${extraction.field} was not found` };
+    if (check.type === "present") return { status: rule.severity, explanation: `${extraction.field} was not found` };
+    return { status: "warn", explanation: `${extraction.field} was not found, so this could not be checked` };
+  }
+
+  // A multi-valued field is as compliant as its worst occurrence
+  const results = occurrences.map(occurrence => ({ ...checkOccurrence(rule, occurrence), quote: occurrence.quote }));
+  const worst = results.reduce((a, b) => STATUS_RANK[b.status] > STATUS_RANK[a.status] ? b : a);
+
+  const reviewed = extraction.review?.status === "accepted" || extraction.review?.status === "edited";
+  if (worst.status === "pass" && extraction.confidence < REVIEW_CONFIDENCE && !reviewed) {
+    return { ...worst, status: "warn", explanation: `${worst.explanation}, but the extraction has low confidence` };
+  }
+  return worst;
+}
+
+function getOccurrences(extraction: Extraction): Occurrence[] {
+  if (extraction.status === "not_found" || extraction.review?.status === "rejected") return [];
+  if (extraction.values && extraction.values.length > 0) {
+    return extraction.values.map(v => ({ quote: v.quote, value: v.normalizedValue ?? null }));
+  }
+  if (!extraction.quote && !extraction.normalizedValue) return [];
+  return [{ quote: extraction.quote, value: extraction.normalizedValue ?? null }];
+}
+
+function checkOccurrence(rule: PlaybookRule, occurrence: Occurrence): Omit<RuleResult, "quote"> {
+  const check = rule.check;
+  const { quote, value } = occurrence;
+
+  switch (check.type) {
+    case "present":
+      return { status: "pass", explanation: "Found" };
+
+    case "absent":
+      return { status: rule.severity, explanation: "The contract contains this term" };
+
+    case "duration": {
+      const days = value?.type === "duration" ? durationInDays(value.amount, value.unit, value.businessDays) : findDurationDays(quote, check.near);
+      if (days === null) return { status: "warn", explanation: "Could not read a period from the quote" };
+      const amount = days / DAYS_PER_UNIT[check.unit];
+      return compareNumber(rule, amount, formatAmount(amount, check.unit)!, formatAmount(check.min, check.unit), formatAmount(check.max, check.unit));
+    }
+
+    case "amount": {
+      const money = value?.type === "currency" ? value : findAmount(quote);
+      if (!money) return { status: "warn", explanation: "Could not read an amount from the quote" };
+      if (check.currency && money.currency && money.currency !== check.currency.toUpperCase()) {
+        return { status: "warn", explanation: `The amount is in ${money.currency}, but the standard is in ${check.currency.toUpperCase()}` };
+      }
+      const currency = check.currency?.toUpperCase() || money.currency || "";
+      const format = (n: number | undefined) => n === undefined ? undefined : `${currency} ${n.toLocaleString()}`.trim();
+      return compareNumber(rule, money.amount, format(money.amount)!, format(check.min), format(check.max));
+    }
+
+    case "percentage": {
+      const percent = value?.type === "percentage" ? value.value : findPercentage(quote);
+      if (percent === null) return { status: "warn", explanation: "Could not read a percentage from the quote" };
+      const format = (n: number | undefined) => n === undefined ? undefined : `${n}%`;
+      return compareNumber(rule, percent, format(percent)!, format(check.min), format(check.max));
+    }
+
+    case "one_of": {
+      const typed = value && "value" in value ? String(value.value) : null;
+      const match = check.values.find(option => typed !== null
+        ? typed.toLowerCase() === option.toLowerCase()
+        : quote.toLowerCase().includes(option.toLowerCase()));
+      return match
+        ? { status: "pass", explanation: `Matches ${match}` }
+        : { status: rule.severity, explanation: `${typed ?? "The quote"} is not one of: ${check.values.join(', ')}` };
+    }
+
+    case "includes": {
+      const match = matchPattern(check.pattern, quote);
+      if (match === undefined) return { status: "warn", explanation: `Invalid pattern ${check.pattern}` };
+      return match
+        ? { status: "pass", explanation: `Mentions "${match}"` }
+        : { status: rule.severity, explanation: "The quote doesn't contain the required wording" };
+    }
+
+    case "excludes": {
+      const match = matchPattern(check.pattern, quote);
+      if (match === undefined) return { status: "warn", explanation: `Invalid pattern ${check.pattern}` };
+      return match
+        ? { status: rule.severity, explanation: `Mentions "${match}"` }
+        : { status: "pass", explanation: "No prohibited wording" };
+    }
+  }
+}
+
+function compareNumber(
+  rule: PlaybookRule,
+  amount: number,
+  label: string,
+  minLabel: string | undefined,
+  maxLabel: string | undefined
+): Omit<RuleResult, "quote"> {
+  const { min, max } = rule.check as { min?: number; max?: number };
+  if (max !== undefined && amount > max) return { status: rule.severity, explanation: `${label} is more than the ${maxLabel} maximum` };
+  if (min !== undefined && amount < min) return { status: rule.severity, explanation: `${label} is less than the ${minLabel} minimum` };
+  const bounds = [minLabel && `at least ${minLabel}`, maxLabel && `at most ${maxLabel}`].filter(Boolean).join(' and ');
+  return { status: "pass", explanation: `${label} is ${bounds}` };
+}
+
+function checkPattern(pattern: unknown): string | null {
+  if (typeof pattern !== "string") return "pattern must be a string";
+  if (pattern.length > MAX_PATTERN_CHARS) return `pattern is longer than ${MAX_PATTERN_CHARS} characters`;
+  if (hasAmbiguousRepetition(pattern) || BACKREFERENCE.test(pattern)) {
+    return `pattern is too complex (no nested quantifiers, repeated alternations or backreferences): ${pattern}`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return `has an invalid pattern: ${pattern}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a repeated group contains a repetition or an alternation, as in
+ * "(a+)+", "(\s*x)*" or "(\w|\d)+"
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: whether it repeats or alternates anything yet
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      while (i < pattern.length - 1 && pattern[i + 1] !== "]") i += pattern[i + 1] === "\\" ? 2 : 1;
+      i++;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === "|" && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    } else if (char === ")") {
+      const repeats = groups.pop() ?? false;
+      if (repeats && UNBOUNDED_QUANTIFIER.test(pattern.substring(i + 1))) return true;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && UNBOUNDED_QUANTIFIER.test(pattern.substring(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+function matchPattern(pattern: string, text: string): string | null | undefined {
+  try {
+    return text.match(new RegExp(pattern, "i"))?.[0] ?? null;
+  } catch {
+    return undefined;
+  }
+}
+
+function durationInDays(amount: number, unit: DurationUnit, businessDays?: boolean): number {
+  return amount * DAYS_PER_UNIT[unit] * (businessDays ? CALENDAR_DAYS_PER_BUSINESS_DAY : 1);
+}
+
+function formatAmount(amount: number | undefined, unit: DurationUnit): string | undefined {
+  if (amount === undefined) return undefined;
+  const rounded = Math.round(amount * 10) / 10;
+  return `${rounded} ${rounded === 1 ? unit.replace(/s$/, '') : unit}`;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, "forty-five": 45, sixty: 60, ninety: 90,
+};
+
+// "30 days", "thirty (30) days", "30-day", "10 business days", "one (1) year"
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})(?:\\s*\\((\\d+(?:\\.\\d+)?)\\))?[\\s-]*(business\\s+|calendar\\s+)?(day|week|month|year)s?\\b`,
+  "gi"
+);
+const NET_TERMS_PATTERN = /\bnet[\s-]*(\d+)\b/gi;
+
+/**
+ * The period in a quote, in days. With `near`, the one closest to a match
+ * of that pattern; otherwise the first.
+ */
+function findDurationDays(quote: string, near?: string): number | null {
+  const found: { index: number; days: number }[] = [];
+
+  for (const match of Array.from(quote.matchAll(DURATION_PATTERN))) {
+    const amount = match[2] ? parseFloat(match[2]) : NUMBER_WORDS[match[1].toLowerCase()] ?? parseFloat(match[1]);
+    const unit = `${match[4].toLowerCase()}s` as DurationUnit;
+    found.push({ index: match.index!, days: durationInDays(amount, unit, /^business/i.test(match[3] || "")) });
+  }
+  for (const match of Array.from(quote.matchAll(NET_TERMS_PATTERN))) {
+    found.push({ index: match.index!, days: parseFloat(match[1]) });
+  }
+  if (found.length === 0) return null;
+  if (!near) return found.sort((a, b) => a.index - b.index)[0].days;
+
+  let anchors: number[];
+  try {
+    anchors = Array.from(quote.matchAll(new RegExp(near, "gi"))).map(m => m.index!);
+  } catch {
+    return null;
+  }
+  if (anchors.length === 0) return null;
+
+  const distance = (index: number) => Math.min(...anchors.map(anchor => Math.abs(anchor - index)));
+  return found.sort((a, b) => distance(a.index) - distance(b.index))[0].days;
+}
+
+const AMOUNT_PATTERN = /(?:([$€£]|\b(?:USD|EUR|GBP)\b)\s?([\d,]+(?:\.\d+)?)|([\d,]+(?:\.\d+)?)\s?(USD|EUR|GBP)\b)(?:\s*(million|thousand)\b)?/i;
+const AMOUNT_SYMBOLS: Record<string, string> = { "$": "USD", "€": "EUR", "£": "GBP" };
+
+function findAmount(quote: string): { amount: number; currency: string | null } | null {
+  const match = quote.match(AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const symbol = match[1] || match[4];
+  const multiplier = match[5]?.toLowerCase() === "million" ? 1_000_000 : match[5]?.toLowerCase() === "thousand" ? 1_000 : 1;
+  return {
+    amount: parseFloat((match[2] || match[3]).replace(/,/g, '')) * multiplier,
+    currency: AMOUNT_SYMBOLS[symbol] || symbol.toUpperCase(),
+  };
+}
+
+function findPercentage(quote: string): number | null {
+  const match = quote.match(/(\d+(?:\.\d+)?)\s*(?:%|percent\b)/i);
+  return match ? parseFloat(match[1]) : null;
+}
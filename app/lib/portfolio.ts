@@ -0,0 +1,290 @@
+import type { Extraction, NormalizedValue, TemplateRef } from "./schema";
+import type { ContractType } from "./templates";
+import type { RiskLevel } from "./playbook";
+import { measureTerm } from "./playbook";
+import { formatNormalizedValue } from "./normalize";
+import { ExtractionRecord, listExtractionRecords } from "./history";
+import { listObligations, Obligation, ObligationQuery } from "./key-dates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A condition on one field. Numeric comparisons use the term's size from
+ * `measureTerm`: periods in days, amounts and percentages as written.
+ */
+export type TermFilterOp = "found" | "missing" | "contains" | "gt" | "gte" | "lt" | "lte";
+
+export type TermFilter = {
+  field: string; // Case-insensitive
+  op: TermFilterOp;
+  value?: string; // Text for contains ("a|b" matches either), a number for comparisons
+};
+
+export const TERM_FILTER_OPS: TermFilterOp[] = ["found", "missing", "contains", "gt", "gte", "lt", "lte"];
+
+export type PortfolioQuery = {
+  search?: string; // Every word must appear in a quote or the file name
+  contractType?: ContractType;
+  templateId?: string;
+  risk?: RiskLevel;
+  filters?: TermFilter[];
+  sort?: string; // fileName, createdAt, contractType, risk, or field:<name>
+  order?: "asc" | "desc";
+  allRuns?: boolean; // Include earlier runs of the same file, not just the latest
+};
+
+/**
+ * One field of one contract, flattened for the table. Rejected terms count
+ * as not found.
+ */
+export type PortfolioTerm = {
+  status: Extraction["status"];
+  quote: string;
+  value: string | null; // Formatted normalized value
+  measure: number | null;
+};
+
+export type PortfolioRow = {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  contractType?: ContractType;
+  template?: TemplateRef;
+  risk?: RiskLevel;
+  createdAt: string;
+  terms: Record<string, PortfolioTerm>;
+  matches: { field: string; quote: string }[]; // Quotes matching the search
+};
+
+export type FieldCoverage = {
+  field: string;
+  total: number; // Contracts in the set that were asked for this field
+  found: number;
+  inferred: number;
+  notFound: number;
+};
+
+/**
+ * What GET /api/portfolio returns
+ */
+export type Portfolio = {
+  rows: PortfolioRow[];
+  contractCount: number; // Contracts before search and filters
+  fields: string[]; // Every field in the set, most common first
+  coverage: FieldCoverage[]; // Over the rows that match
+};
+
+export const PORTFOLIO_SORT_KEYS = ["fileName", "createdAt", "contractType", "risk"];
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+// ============================================================================
+// PORTFOLIO
+// ============================================================================
+
+/**
+ * Every stored contract as a table row, searched, filtered and sorted
+ */
+export async function getPortfolio(query: PortfolioQuery = {}): Promise<Portfolio> {
+  return buildPortfolio(await listExtractionRecords(), query);
+}
+
+export function buildPortfolio(records: ExtractionRecord[], query: PortfolioQuery = {}): Portfolio {
+  const runs = query.allRuns ? records : latestRuns(records);
+  const contracts = runs.map(toRow);
+  const words = (query.search || "").toLowerCase().split(/\s+/).filter(Boolean);
+
+  const rows = contracts
+    .filter(row => !query.contractType || row.contractType === query.contractType)
+    .filter(row => !query.templateId || row.template?.id === query.templateId)
+    .filter(row => !query.risk || row.risk === query.risk)
+    .filter(row => (query.filters || []).every(filter => matchesFilter(row, filter)))
+    .map(row => words.length > 0 ? { ...row, matches: findMatches(row, words) } : row)
+    .filter(row => words.length === 0 || matchesSearch(row, words));
+
+  sortRows(rows, query.sort || "createdAt", query.order || (query.sort ? "asc" : "desc"));
+
+  return {
+    rows,
+    contractCount: contracts.length,
+    fields: rankFields(contracts),
+    coverage: summarizeCoverage(rows),
+  };
+}
+
+/**
+ * Key dates across the latest run of every stored contract, soonest first
+ */
+export async function getObligations(query: ObligationQuery = {}): Promise<Obligation[]> {
+  return listObligations(latestRuns(await listExtractionRecords()), query);
+}
+
+/**
+ * Parse a `field:op[:value]` filter from a query string, e.g.
+ * "Payment:gt:45" or "Renewal terms:contains:automatic|auto-renew"
+ */
+export function parseTermFilter(text: string): { filter: TermFilter; error?: undefined } | { filter?: undefined; error: string } {
+  const parts = text.split(":");
+  const opIndex = parts.findIndex((part, index) => index > 0 && TERM_FILTER_OPS.includes(part as TermFilterOp));
+  if (opIndex === -1) {
+    return { error: `Filter "${text}" must be field:op[:value], where op is one of: ${TERM_FILTER_OPS.join(', ')}` };
+  }
+
+  const filter: TermFilter = {
+    field: parts.slice(0, opIndex).join(":").trim(),
+    op: parts[opIndex] as TermFilterOp,
+    value: opIndex < parts.length - 1 ? parts.slice(opIndex + 1).join(":") : undefined,
+  };
+
+  if (filter.op === "contains" && !filter.value?.trim()) {
+    return { error: `Filter "${text}" needs text to look for` };
+  }
+  if (["gt", "gte", "lt", "lte"].includes(filter.op) && isNaN(parseFloat(filter.value ?? ""))) {
+    return { error: `Filter "${text}" needs a number to compare with` };
+  }
+  return { filter };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function latestRuns(records: ExtractionRecord[]): ExtractionRecord[] {
+  const latest = new Map<string, ExtractionRecord>();
+  for (const record of records) {
+    const current = latest.get(record.fileHash);
+    if (!current || record.createdAt > current.createdAt) latest.set(record.fileHash, record);
+  }
+  return Array.from(latest.values());
+}
+
+function toRow(record: ExtractionRecord): PortfolioRow {
+  const terms: Record<string, PortfolioTerm> = {};
+  for (const extraction of record.extractions) {
+    terms[extraction.field] = toTerm(extraction);
+  }
+
+  return {
+    id: record.id,
+    fileName: record.fileName,
+    fileHash: record.fileHash,
+    contractType: record.classification?.contractType,
+    template: record.template,
+    risk: record.compliance?.summary.risk,
+    createdAt: record.createdAt,
+    terms,
+    matches: [],
+  };
+}
+
+function toTerm(extraction: Extraction): PortfolioTerm {
+  if (extraction.status === "not_found" || extraction.review?.status === "rejected") {
+    return { status: "not_found", quote: "", value: null, measure: null };
+  }
+
+  const occurrences = extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => ({ quote: v.quote, value: v.normalizedValue ?? null }))
+    : [{ quote: extraction.quote, value: extraction.normalizedValue ?? null }];
+  const values = occurrences.map(o => o.value).filter((value): value is NormalizedValue => value !== null);
+
+  return {
+    status: extraction.status,
+    quote: occurrences.map(o => o.quote).join("\n\n"),
+    value: values.length > 0 ? values.map(formatNormalizedValue).join("; ") : null,
+    // A multi-valued field is as large as its largest occurrence
+    measure: occurrences.reduce<number | null>((largest, o) => {
+      const measure = measureTerm(o.quote, o.value);
+      return measure === null ? largest : Math.max(largest ?? measure, measure);
+    }, null),
+  };
+}
+
+function findTerm(row: PortfolioRow, field: string): PortfolioTerm | undefined {
+  const name = Object.keys(row.terms).find(key => key.toLowerCase() === field.toLowerCase());
+  return name ? row.terms[name] : undefined;
+}
+
+function matchesFilter(row: PortfolioRow, filter: TermFilter): boolean {
+  const term = findTerm(row, filter.field);
+  const found = !!term && term.status !== "not_found";
+  const target = parseFloat(filter.value ?? "");
+
+  switch (filter.op) {
+    case "found":
+      return found;
+    case "missing":
+      return !found;
+    case "contains": {
+      const options = (filter.value || "").toLowerCase().split("|").map(o => o.trim()).filter(Boolean);
+      return found && options.some(option => term!.quote.toLowerCase().includes(option));
+    }
+    case "gt":
+      return term?.measure != null && term.measure > target;
+    case "gte":
+      return term?.measure != null && term.measure >= target;
+    case "lt":
+      return term?.measure != null && term.measure < target;
+    case "lte":
+      return term?.measure != null && term.measure <= target;
+  }
+}
+
+function matchesSearch(row: PortfolioRow, words: string[]): boolean {
+  const haystack = [row.fileName, ...Object.values(row.terms).map(t => t.quote)].join("\n").toLowerCase();
+  return words.every(word => haystack.includes(word));
+}
+
+function findMatches(row: PortfolioRow, words: string[]): PortfolioRow["matches"] {
+  return Object.entries(row.terms)
+    .filter(([, term]) => words.some(word => term.quote.toLowerCase().includes(word)))
+    .map(([field, term]) => ({ field, quote: term.quote }));
+}
+
+function sortRows(rows: PortfolioRow[], sort: string, order: "asc" | "desc"): void {
+  const direction = order === "asc" ? 1 : -1;
+  const field = sort.startsWith("field:") ? sort.substring("field:".length) : null;
+
+  // Sort key for a row; null sorts last in either direction
+  const keyOf = (row: PortfolioRow): string | number | null => {
+    if (field !== null) {
+      const term = findTerm(row, field);
+      if (!term || term.status === "not_found") return null;
+      return term.measure ?? term.quote.toLowerCase();
+    }
+    if (sort === "risk") return row.risk ? RISK_ORDER[row.risk] : null;
+    if (sort === "contractType") return row.contractType ?? null;
+    if (sort === "fileName") return row.fileName.toLowerCase();
+    return row.createdAt;
+  };
+
+  rows.sort((a, b) => {
+    const keyA = keyOf(a);
+    const keyB = keyOf(b);
+    if (keyA === null || keyB === null) return keyA === keyB ? 0 : keyA === null ? 1 : -1;
+    if (typeof keyA === "number" && typeof keyB === "number") return (keyA - keyB) * direction;
+    return String(keyA).localeCompare(String(keyB)) * direction;
+  });
+}
+
+function rankFields(rows: PortfolioRow[]): string[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (const field of Object.keys(row.terms)) counts.set(field, (counts.get(field) || 0) + 1);
+  }
+  return Array.from(counts).sort((a, b) => b[1] - a[1]).map(([field]) => field);
+}
+
+function summarizeCoverage(rows: PortfolioRow[]): FieldCoverage[] {
+  return rankFields(rows).map(field => {
+    const terms = rows.map(row => row.terms[field]).filter((term): term is PortfolioTerm => !!term);
+    return {
+      field,
+      total: terms.length,
+      found: terms.filter(t => t.status === "found").length,
+      inferred: terms.filter(t => t.status === "inferred").length,
+      notFound: terms.filter(t => t.status === "not_found").length,
+    };
+  });
+}
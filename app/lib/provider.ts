@@ -0,0 +1,120 @@
+import OpenAI from "openai";
+import { getOpenAIClient, getAzureOpenAIClient, getAzureDeployments, getCompatibleClient } from "./openai";
+import { createMockProvider } from "./mock-provider";
+import { createReplayProvider } from "./recorded-provider";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ResponseFormat =
+  | {
+      type: "json_schema";
+      json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean };
+    }
+  | { type: "json_object" };
+
+export type CompletionRequest = {
+  model: string;
+  messages: ChatMessage[];
+  responseFormat: ResponseFormat;
+};
+
+export type CompletionResult = {
+  content: string | null;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number; // Part of inputTokens served from the prompt cache
+  reasoningTokens?: number; // Part of outputTokens spent on hidden reasoning
+};
+
+/**
+ * A chat model that returns JSON. Errors from the underlying API are
+ * rethrown unchanged so callers can decide whether to fall back.
+ */
+export interface ExtractionProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export const PROVIDER_NAMES = ["openai", "azure", "compatible", "mock", "replay"] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// Providers that answer from fixtures or recordings, so their calls cost nothing
+const OFFLINE_PROVIDER_NAMES: readonly string[] = ["mock", "replay"];
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Select the provider from LLM_PROVIDER (defaults to OpenAI)
+ */
+export function getExtractionProvider(): ExtractionProvider {
+  const name = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider("openai", getOpenAIClient());
+    case "azure":
+      return createOpenAIProvider("azure", getAzureOpenAIClient(), undefined, getAzureDeployments());
+    case "compatible":
+      return createOpenAIProvider("compatible", getCompatibleClient(), process.env.OPENAI_COMPATIBLE_MODEL);
+    case "mock":
+      return createMockProvider();
+    case "replay":
+      return createReplayProvider(process.env.RECORDINGS_DIR);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Whether `provider` makes no paid API calls, so there is no spend to check
+ * or record
+ */
+export function isOfflineProvider(provider: ExtractionProvider): boolean {
+  return OFFLINE_PROVIDER_NAMES.includes(provider.name);
+}
+
+/**
+ * Provider for anything speaking the OpenAI chat completions API. When
+ * `modelOverride` is set (e.g. the model a local server actually serves),
+ * it replaces whatever model the caller asked for. `deployments` maps a
+ * model to the name it is served under (Azure deployments). Results report
+ * the model the API says answered, so usage is priced by the real model.
+ */
+export function createOpenAIProvider(
+  name: ProviderName,
+  client: OpenAI,
+  modelOverride?: string,
+  deployments: Record<string, string> = {}
+): ExtractionProvider {
+  return {
+    name,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = modelOverride || request.model;
+
+      const response = await client.chat.completions.create({
+        model: deployments[model] || model,
+        messages: request.messages,
+        response_format: request.responseFormat,
+      });
+
+      return {
+        content: response.choices[0]?.message?.content ?? null,
+        model: response.model || model,
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: response.usage?.completion_tokens || 0,
+        cachedInputTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
+        reasoningTokens: response.usage?.completion_tokens_details?.reasoning_tokens || 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import path from "path";
+import type { CompletionRequest, CompletionResult, ExtractionProvider } from "./provider";
+import { readJSON, writeJSON } from "./store";
+
+export const DEFAULT_RECORDINGS_DIR = "fixtures/eval/recordings";
+
+/**
+ * One saved model response, keyed by a hash of the request that produced it
+ */
+type Recording = {
+  key: string;
+  model: string;
+  promptChars: number;
+  recordedAt: string;
+  result: CompletionResult;
+};
+
+/**
+ * Requests are identified by everything the model sees, so any prompt,
+ * schema or document change needs a new recording
+ */
+export function getRecordingKey(request: CompletionRequest): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ model: request.model, messages: request.messages, responseFormat: request.responseFormat }))
+    .digest("hex");
+}
+
+/**
+ * Pass requests to `inner` and save every response under `dir`
+ */
+export function createRecordingProvider(inner: ExtractionProvider, dir: string = DEFAULT_RECORDINGS_DIR): ExtractionProvider {
+  return {
+    name: `${inner.name}+record`,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const result = await inner.complete(request);
+      const key = getRecordingKey(request);
+      const recording: Recording = {
+        key,
+        model: request.model,
+        promptChars: request.messages.reduce((sum, m) => sum + m.content.length, 0),
+        recordedAt: new Date().toISOString(),
+        result,
+      };
+      await writeJSON(recordingPath(dir, key), recording);
+      return result;
+    },
+  };
+}
+
+/**
+ * Answer requests only from recordings under `dir`. A request without a
+ * recording throws, so the eval runner can report a stale recording set
+ * instead of scoring it as not_found.
+ */
+export function createReplayProvider(dir: string = DEFAULT_RECORDINGS_DIR): ExtractionProvider {
+  return {
+    name: "replay",
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const key = getRecordingKey(request);
+      const recording = await readJSON<Recording>(recordingPath(dir, key));
+      if (!recording) {
+        throw new Error(`No recorded response for request ${key.substring(0, 12)} in ${dir}; record one with a live provider first`);
+      }
+      return recording.result;
+    },
+  };
+}
+
+function recordingPath(dir: string, key: string): string {
+  return path.resolve(process.cwd(), dir, `${key}.json`);
+}
@@ -0,0 +1,256 @@
+import { Extraction, KeyTermField, QuoteRetrySummary, validateExtraction } from "./schema";
+import { extractFields, ExtractionRun } from "./extract";
+import { ExtractionProvider } from "./provider";
+import { PipelineEventHandler } from "./events";
+import { BudgetExceededError } from "./budget";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Limits on the retry pass: at most `maxFields` distinct fields are re-asked
+ * across at most `maxAttempts` extra model calls
+ */
+export type RetryBudget = {
+  maxFields: number;
+  maxAttempts: number;
+};
+
+export type CandidatePassage = {
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+};
+
+export type RetryRun = QuoteRetrySummary & {
+  extractions: Extraction[]; // The full list, with recovered fields replaced
+  spendLimitReached?: boolean; // Retries stopped because a spending limit was reached
+};
+
+// Longest passage offered as a candidate; longer paragraphs are windowed
+const PASSAGE_CHARS = 1200;
+const PASSAGE_OVERLAP = 200;
+
+// Candidate passages per field, and in total per retry prompt
+const PASSAGES_PER_FIELD = 3;
+const MAX_PROMPT_PASSAGE_CHARS = 12000;
+
+// A quote that only matched on the second try deserves a closer look
+const RETRY_CONFIDENCE_PENALTY = 0.1;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "any", "all", "are", "was", "were", "this", "that", "these", "those", "with", "from",
+  "shall", "will", "may", "must", "such", "each", "other", "than", "then", "into", "upon", "under", "within",
+  "its", "their", "there", "which", "who", "whom", "has", "have", "had", "been", "being", "not", "but", "per",
+  "agreement", "party", "parties", "hereof", "herein", "hereunder", "terms", "clause", "clauses", "section",
+]);
+
+// ============================================================================
+// RETRY PASS
+// ============================================================================
+
+/**
+ * Retry budget from QUOTE_RETRY_MAX_FIELDS (default 5) and
+ * QUOTE_RETRY_ATTEMPTS (default 1); either set to 0 disables retries
+ */
+export function getRetryBudget(): RetryBudget {
+  return {
+    maxFields: readCount(process.env.QUOTE_RETRY_MAX_FIELDS, 5),
+    maxAttempts: readCount(process.env.QUOTE_RETRY_ATTEMPTS, 1),
+  };
+}
+
+/**
+ * Re-prompt the model for fields whose quotes failed validation, telling it
+ * the previous quote was not verbatim and offering the passages of the
+ * document that best match it. Recovered quotes are validated against the
+ * full text like any other; fields that fail again keep their not_found
+ * result. Never throws: if a retry call fails, including on a spending
+ * limit, the first-pass results are kept.
+ */
+export async function retryFailedQuotes(
+  provider: ExtractionProvider,
+  model: string,
+  fields: KeyTermField[],
+  extractions: Extraction[],
+  fullText: string,
+  options: { budget?: RetryBudget; onEvent?: PipelineEventHandler } = {}
+): Promise<RetryRun> {
+  const { budget = getRetryBudget(), onEvent = () => {} } = options;
+  const run: RetryRun = { extractions, attempted: [], recovered: [], attempts: 0, inputTokens: 0, outputTokens: 0 };
+
+  while (run.attempts < budget.maxAttempts) {
+    // Later attempts only revisit fields the first one took on
+    const failed = run.extractions
+      .filter(e => isFailedQuote(e) && fields.some(f => f.name === e.field))
+      .filter(e => run.attempts === 0 || run.attempted.includes(e.field))
+      .slice(0, budget.maxFields);
+    if (failed.length === 0) break;
+
+    run.attempts++;
+    for (const extraction of failed) {
+      if (!run.attempted.includes(extraction.field)) run.attempted.push(extraction.field);
+    }
+
+    const passages = selectPassages(failed, fields, fullText);
+    if (passages.length === 0) {
+      console.log(`Retry: no candidate passages for ${failed.map(e => e.field).join(', ')}`);
+      break;
+    }
+
+    console.log(`Retry ${run.attempts}/${budget.maxAttempts}: re-asking for ${failed.map(e => e.field).join(', ')} with ${passages.length} passage(s)`);
+    onEvent({ type: "retry", fields: failed.map(e => e.field), attempt: run.attempts, passageCount: passages.length });
+
+    const retryFields = fields.filter(f => failed.some(e => e.field === f.name));
+    let result: ExtractionRun;
+    try {
+      result = await extractFields(provider, model, retryFields, formatPassages(passages), {
+        onEvent,
+        sectionNote: buildFeedbackNote(failed),
+      });
+    } catch (error) {
+      // The first pass is paid for; keep its results rather than fail the run
+      if (error instanceof BudgetExceededError) {
+        console.log(`Retry skipped: ${error.message}`);
+        run.spendLimitReached = true;
+      } else {
+        console.error("Retry failed:", error);
+      }
+      break;
+    }
+    run.inputTokens += result.inputTokens;
+    run.outputTokens += result.outputTokens;
+
+    run.extractions = run.extractions.map(extraction => {
+      const retried = result.extractions.find(e => e.field === extraction.field);
+      if (!retried || !isFailedQuote(extraction) || retried.status === "not_found") return extraction;
+
+      // Offsets from the retry describe the passage list, not the document
+      const validated = validateExtraction(
+        {
+          ...retried,
+          start: null,
+          end: null,
+          ...(retried.values ? { values: retried.values.map(v => ({ ...v, start: null, end: null })) } : {}),
+        },
+        fullText
+      );
+      if (validated.status === "not_found") {
+        return { ...extraction, validation: validated.validation };
+      }
+
+      run.recovered.push(extraction.field);
+      const confidence = Math.max(0, validated.confidence - RETRY_CONFIDENCE_PENALTY);
+      return {
+        ...validated,
+        confidence,
+        validation: validated.validation && {
+          ...validated.validation,
+          confidenceAdjustment: validated.validation.confidenceAdjustment + confidence - validated.confidence,
+          retried: true,
+        },
+      };
+    });
+  }
+
+  return run;
+}
+
+/**
+ * The passages of `fullText` that share the most distinctive words with
+ * `terms`, best first. Paragraphs are the unit; long ones are windowed.
+ */
+export function findCandidatePassages(fullText: string, terms: string, limit = PASSAGES_PER_FIELD): CandidatePassage[] {
+  const words = keywords(terms);
+  if (words.length === 0) return [];
+
+  const passages = splitPassages(fullText);
+  const lowered = passages.map(p => p.text.toLowerCase());
+  // Words found in fewer passages say more about where the quote came from
+  const weights = words.map(word => {
+    const frequency = lowered.filter(text => text.includes(word)).length;
+    return frequency === 0 ? 0 : Math.log(1 + passages.length / frequency);
+  });
+
+  return passages
+    .map((passage, i) => ({
+      ...passage,
+      score: words.reduce((sum, word, w) => sum + (lowered[i].includes(word) ? weights[w] : 0), 0),
+    }))
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isFailedQuote(extraction: Extraction): boolean {
+  return extraction.status === "not_found" && extraction.validation?.method === "failed";
+}
+
+function selectPassages(failed: Extraction[], fields: KeyTermField[], fullText: string): CandidatePassage[] {
+  const selected: CandidatePassage[] = [];
+  let totalChars = 0;
+
+  for (const extraction of failed) {
+    const field = fields.find(f => f.name === extraction.field);
+    const terms = `${extraction.validation?.originalQuote || ""} ${field?.name || extraction.field} ${field?.description || ""}`;
+
+    for (const passage of findCandidatePassages(fullText, terms)) {
+      const overlaps = selected.some(p => passage.start < p.end && p.start < passage.end);
+      if (overlaps || totalChars + passage.text.length > MAX_PROMPT_PASSAGE_CHARS) continue;
+      selected.push(passage);
+      totalChars += passage.text.length;
+    }
+  }
+
+  return selected.sort((a, b) => a.start - b.start);
+}
+
+function formatPassages(passages: CandidatePassage[]): string {
+  return passages
+    .map((passage, i) => `[Passage ${i + 1}, characters ${passage.start}–${passage.end}]\n${passage.text}`)
+    .join('\n\n');
+}
+
+function buildFeedbackNote(failed: Extraction[]): string {
+  const previous = failed
+    .map(e => `- "${e.field}": "${(e.validation?.originalQuote || "").substring(0, 500)}"`)
+    .join('\n');
+
+  return `NOTE: This is a second attempt. Your previous answer quoted text for these fields that does not appear verbatim in the document:
+${previous}
+
+Below are the passages of the document that best match those quotes, found by keyword search. Copy the quote character for character from a passage, without paraphrasing, shortening with "..." or fixing typos. If none of the passages contains the term, mark the field not_found.`;
+}
+
+function splitPassages(fullText: string): { start: number; end: number; text: string }[] {
+  const passages: { start: number; end: number; text: string }[] = [];
+  const paragraph = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+
+  for (const match of Array.from(fullText.matchAll(paragraph))) {
+    const start = match.index!;
+    const text = match[0].trimEnd();
+    for (let offset = 0; offset < text.length; offset += PASSAGE_CHARS - PASSAGE_OVERLAP) {
+      const windowText = text.substring(offset, offset + PASSAGE_CHARS);
+      passages.push({ start: start + offset, end: start + offset + windowText.length, text: windowText });
+      if (offset + PASSAGE_CHARS >= text.length) break;
+    }
+  }
+
+  return passages;
+}
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*[a-z0-9]/g) || [];
+  return Array.from(new Set(words.filter(word => word.length >= 3 && !STOPWORDS.has(word))));
+}
+
+function readCount(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  return isNaN(parsed) ? fallback : Math.max(0, parsed);
+}
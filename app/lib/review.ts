@@ -0,0 +1,137 @@
+import { assignPages, Extraction, ExtractionReview, validateExtraction } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReviewAction =
+  | { type: "accept" }
+  | { type: "reject" }
+  | { type: "edit"; quote: string }
+  | { type: "reset" };
+
+/**
+ * The source document an edited quote is checked against
+ */
+export type ReviewSource = {
+  text: string;
+  pages: number[] | null; // null when the format has no reliable pagination
+};
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Apply a reviewer's decision to an extraction. The model's output is kept
+ * in `review.original` the first time the extraction is reviewed, so edits
+ * and rejections can always be audited.
+ *
+ * Edited quotes must exist in the source text: they are re-validated with
+ * `validateExtraction` (which may snap them to the exact span) and an error
+ * is returned instead if they cannot be found.
+ */
+export function reviewExtraction(
+  extraction: Extraction,
+  action: ReviewAction,
+  reviewer: string | null,
+  source: ReviewSource | null
+): { extraction: Extraction; error?: undefined } | { extraction?: undefined; error: string } {
+  const original = extraction.review?.original ?? withoutReview(extraction);
+
+  if (action.type === "reset") {
+    return { extraction: { ...original, review: pendingReview() } };
+  }
+
+  const review: ExtractionReview = {
+    status: action.type === "accept" ? "accepted" : action.type === "reject" ? "rejected" : "edited",
+    reviewer: reviewer?.trim() || null,
+    reviewedAt: new Date().toISOString(),
+    original,
+  };
+
+  if (action.type !== "edit") {
+    return { extraction: { ...extraction, review } };
+  }
+
+  if (!source) {
+    return { error: "The source text is not available, so the edited quote cannot be verified" };
+  }
+  if (!action.quote.trim()) {
+    return { error: "Enter a quote, or reject the extraction instead" };
+  }
+
+  const validated = validateExtraction(
+    {
+      ...original,
+      status: "found",
+      quote: action.quote,
+      start: null,
+      end: null,
+      confidence: 1.0,
+      // The model's typed value described the original quote
+      normalizedValue: null,
+      values: undefined,
+      validation: undefined,
+    },
+    source.text
+  );
+
+  if (validated.status === "not_found") {
+    return { error: "The edited quote does not appear in the source document" };
+  }
+
+  // A multi-valued field is corrected to the single span the reviewer entered
+  const edited: Extraction = original.values
+    ? { ...validated, values: [{ quote: validated.quote, page: null, start: validated.start, end: validated.end, normalizedValue: null }] }
+    : validated;
+
+  const [located] = assignPages([edited], source.pages, source.text.length);
+  return { extraction: { ...located, review } };
+}
+
+/**
+ * The value exports should use: rejected extractions count as not found
+ */
+export function getReviewedQuote(extraction: Extraction): string {
+  return getReviewedQuotes(extraction).join("\n\n");
+}
+
+/**
+ * Every reviewed quote of an extraction, one per occurrence for multi-valued
+ * fields
+ */
+export function getReviewedQuotes(extraction: Extraction): string[] {
+  if (extraction.review?.status === "rejected" || extraction.status !== "found") return [];
+  return extraction.values && extraction.values.length > 0
+    ? extraction.values.map(v => v.quote)
+    : [extraction.quote];
+}
+
+export function getReviewStatus(extraction: Extraction): ExtractionReview["status"] {
+  return extraction.review?.status ?? "pending";
+}
+
+/**
+ * Count extractions in each review state
+ */
+export function summarizeReviews(extractions: Extraction[]): Record<ExtractionReview["status"], number> {
+  const counts = { pending: 0, accepted: 0, edited: 0, rejected: 0 };
+  for (const extraction of extractions) {
+    counts[getReviewStatus(extraction)]++;
+  }
+  return counts;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function pendingReview(): ExtractionReview {
+  return { status: "pending", reviewer: null, reviewedAt: null };
+}
+
+function withoutReview(extraction: Extraction): Extraction {
+  const { review: _review, ...rest } = extraction;
+  return rest;
+}
@@ -1,7 +1,38 @@
+import { pageForOffset } from "./chunk";
+import { adjustConfidence, alignQuote, AlignmentMethod } from "./align";
+import type { ContractType } from "./templates";
+import type { UsageStats } from "./cost";
+import type { ComplianceReport } from "./playbook";
+import type { KeyDates } from "./key-dates";
+
 // ============================================================================
 // TYPES & SCHEMA
 // ============================================================================
 
+export type FieldType = "text" | "date" | "currency" | "duration" | "percentage" | "enum" | "boolean" | "party";
+
+export const FIELD_TYPES: FieldType[] = ["text", "date", "currency", "duration", "percentage", "enum", "boolean", "party"];
+
+export type KeyTermField = {
+  name: string;
+  description: string;
+  type?: FieldType; // Defaults to free text
+  options?: string[]; // Allowed values for enum fields
+  multiple?: boolean; // Field can occur several times (e.g. payment milestones)
+};
+
+/**
+ * Typed value parsed from the model's `normalizedValue` for non-text fields
+ */
+export type NormalizedValue =
+  | { type: "date"; value: string } // YYYY-MM-DD
+  | { type: "currency"; amount: number; currency: string } // ISO 4217 code
+  | { type: "duration"; amount: number; unit: "days" | "weeks" | "months" | "years"; businessDays?: boolean }
+  | { type: "percentage"; value: number } // 15 means 15%
+  | { type: "enum"; value: string }
+  | { type: "boolean"; value: boolean }
+  | { type: "party"; value: string };
+
 export type Extraction = {
   field: string;
   status: "found" | "not_found" | "inferred";
@@ -11,20 +42,95 @@ export type Extraction = {
   start: number | null;
   end: number | null;
   confidence: number;
+  normalizedValue?: NormalizedValue | null;
+  values?: ExtractionValue[]; // Every occurrence of a multi-valued field; the first is mirrored above
+  validation?: QuoteValidation; // How the quote was verified; for multi-valued fields, the weakest value's
+  review?: ExtractionReview; // Set once a person has reviewed the extraction
+};
+
+/**
+ * How a quote was verified against the source text
+ */
+export type QuoteValidation = {
+  method: AlignmentMethod | "failed";
+  similarity: number | null; // null when the quote could not be found
+  originalQuote: string; // As returned by the model
+  correctedQuote: string | null; // The source span it was replaced with, if different
+  confidenceAdjustment: number; // Change applied to the model's confidence (0 or negative)
+  retried?: boolean; // Found by the retry pass after the first quote failed
+};
+
+/**
+ * One occurrence of a multi-valued field, validated and located on its own
+ */
+export type ExtractionValue = {
+  quote: string;
+  page: number | null;
+  start: number | null;
+  end: number | null;
+  normalizedValue?: NormalizedValue | null;
+  validation?: QuoteValidation;
+};
+
+export type ExtractionReview = {
+  status: "pending" | "accepted" | "edited" | "rejected";
+  reviewer: string | null;
+  reviewedAt: string | null;
+  original?: Extraction; // The model's output before any review, for audit
 };
 
 export type ApiResponse = {
+  id?: string; // History record id, once the run has been saved
   fileName: string;
   pageCount: number | null;
   model: string;
   extractions: Extraction[];
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    totalTokens: number;
-    estimatedUSD: number;
-  };
+  usage: UsageStats; // Summed over every model call the run made
   notes?: string[];
+  template?: TemplateRef; // Set when the fields came from a saved template
+  classification?: ContractClassification; // Detected contract type, unless classification was skipped or failed
+  retry?: QuoteRetrySummary; // Set when quotes that failed validation were re-asked; its tokens are included in usage
+  compliance?: ComplianceReport; // Findings against the playbook, unless it couldn't be read
+  keyDates?: KeyDates; // Dates and notice deadlines, unless skipped or the extraction failed
+};
+
+export type QuoteRetrySummary = {
+  attempted: string[];
+  recovered: string[];
+  attempts: number;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type ContractClassification = {
+  contractType: ContractType;
+  confidence: number; // 0..1 from model
+  rationale: string;
+};
+
+/**
+ * The template version a run's fields came from
+ */
+export type TemplateRef = {
+  id: string;
+  name: string;
+  version: number;
+};
+
+/**
+ * Parsed document text and the page offsets that extraction offsets refer to
+ */
+export type DocumentText = {
+  text: string;
+  pages: number[];
+  paginated: boolean; // false for DOCX, which has no reliable page breaks
+};
+
+export type BulkResult = {
+  fileName: string;
+  success: boolean;
+  result?: ApiResponse;
+  error?: string;
 };
 
 export const ContractSchema = {
@@ -52,9 +158,26 @@ export const ContractSchema = {
             page: { type: ["integer", "null"], minimum: 1 },
             start: { type: ["integer", "null"], minimum: 0 },
             end: { type: ["integer", "null"], minimum: 0 },
-            confidence: { type: "number", minimum: 0, maximum: 1 }
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            normalizedValue: {
+              type: ["string", "null"],
+              description: "For typed fields, the value in the requested canonical format; null for free text fields or when not found"
+            },
+            additionalValues: {
+              type: "array",
+              description: "For multi-valued fields, every further separate occurrence after the one in quote; empty otherwise",
+              items: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  quote: { type: "string", description: "The exact verbatim text of this occurrence" },
+                  normalizedValue: { type: ["string", "null"] }
+                },
+                required: ["quote", "normalizedValue"]
+              }
+            }
           },
-          required: ["field", "status", "quote", "reasoning", "page", "start", "end", "confidence"]
+          required: ["field", "status", "quote", "reasoning", "page", "start", "end", "confidence", "normalizedValue", "additionalValues"]
         }
       }
     },
@@ -80,50 +203,52 @@ export function validateExtraction(
     return extraction;
   }
 
+  if (extraction.values && extraction.values.length > 0) {
+    return validateValues(extraction, extraction.values, fullText);
+  }
+
   const quote = extraction.quote;
 
   // Try exact match first
   const exactIndex = fullText.indexOf(quote);
   if (exactIndex !== -1) {
-    // Quote exists exactly - update offsets if they're null
+    // Quote exists exactly - keep the reported offsets only if they point at it
+    const offsetsMatch = extraction.start !== null && extraction.end !== null &&
+      fullText.substring(extraction.start, extraction.end) === quote;
     return {
       ...extraction,
-      start: extraction.start ?? exactIndex,
-      end: extraction.end ?? (exactIndex + quote.length)
+      start: offsetsMatch ? extraction.start : exactIndex,
+      end: offsetsMatch ? extraction.end : exactIndex + quote.length,
+      // A quote corrected against a chunk is re-checked against the full
+      // text; keep the record of how the model's quote was corrected
+      validation: extraction.validation ?? {
+        method: "exact",
+        similarity: 1,
+        originalQuote: quote,
+        correctedQuote: null,
+        confidenceAdjustment: 0
+      }
     };
   }
 
-  // Try normalized match (handle whitespace differences)
-  const normalizedQuote = normalizeWhitespace(quote);
-  const normalizedText = normalizeWhitespace(fullText);
-  const normalizedIndex = normalizedText.indexOf(normalizedQuote);
-
-  if (normalizedIndex !== -1) {
-    // Found with normalized whitespace - find the original text span
-    const originalSpan = findOriginalSpan(fullText, normalizedIndex, quote.length);
-    if (originalSpan) {
-      return {
-        ...extraction,
-        quote: originalSpan.text,
-        start: originalSpan.start,
-        end: originalSpan.end,
-        confidence: Math.max(0, extraction.confidence - 0.1) // Reduce confidence slightly
-      };
-    }
-  }
-
-  // Try fuzzy match for small quotes (might be truncated)
-  if (quote.length < 200) {
-    const fuzzyResult = fuzzyFindQuote(quote, fullText);
-    if (fuzzyResult) {
-      return {
-        ...extraction,
-        quote: fuzzyResult.text,
-        start: fuzzyResult.start,
-        end: fuzzyResult.end,
-        confidence: Math.max(0, extraction.confidence - 0.2) // Reduce confidence more
-      };
-    }
+  // Fall back to normalized, fuzzy and ellipsis-aware alignment
+  const alignment = alignQuote(quote, fullText);
+  if (alignment) {
+    const confidence = adjustConfidence(extraction.confidence, alignment);
+    return {
+      ...extraction,
+      quote: alignment.text,
+      start: alignment.start,
+      end: alignment.end,
+      confidence,
+      validation: {
+        method: alignment.method,
+        similarity: alignment.similarity,
+        originalQuote: quote,
+        correctedQuote: alignment.text !== quote ? alignment.text : null,
+        confidenceAdjustment: confidence - extraction.confidence
+      }
+    };
   }
 
   // Quote not found in document - mark as invalid
@@ -136,10 +261,77 @@ export function validateExtraction(
     reasoning: extraction.reasoning || "Quote could not be verified in the source document",
     start: null,
     end: null,
-    confidence: 0
+    confidence: 0,
+    validation: {
+      method: "failed",
+      similarity: null,
+      originalQuote: quote,
+      correctedQuote: null,
+      confidenceAdjustment: -extraction.confidence
+    }
   };
 }
 
+/**
+ * Validate each occurrence of a multi-valued field on its own, dropping the
+ * ones that can't be found. The first surviving value becomes the primary
+ * quote; the field is not_found only if none survive.
+ */
+function validateValues(
+  extraction: Extraction,
+  values: ExtractionValue[],
+  fullText: string
+): Extraction {
+  const validated: ExtractionValue[] = [];
+  let confidence = extraction.confidence;
+
+  for (const value of values) {
+    const result = validateExtraction(
+      { ...extraction, values: undefined, quote: value.quote, start: value.start, end: value.end, validation: value.validation },
+      fullText
+    );
+    if (result.status === "not_found" || validated.some(v => v.start === result.start)) continue;
+
+    validated.push({
+      quote: result.quote,
+      page: value.page,
+      start: result.start,
+      end: result.end,
+      normalizedValue: value.normalizedValue,
+      validation: result.validation,
+    });
+    confidence = Math.min(confidence, result.confidence);
+  }
+
+  if (validated.length === 0) {
+    return validateExtraction({ ...extraction, values: undefined }, "");
+  }
+  if (validated.length < values.length) {
+    console.warn(`Dropped ${values.length - validated.length} unverifiable value(s) for field "${extraction.field}"`);
+  }
+
+  const [first] = validated;
+  return {
+    ...extraction,
+    quote: first.quote,
+    start: first.start,
+    end: first.end,
+    normalizedValue: first.normalizedValue,
+    confidence,
+    values: validated,
+    validation: weakestValidation(validated),
+  };
+}
+
+const METHOD_RANK: Record<QuoteValidation["method"], number> = { exact: 0, whitespace: 1, fuzzy: 2, failed: 3 };
+
+function weakestValidation(values: ExtractionValue[]): QuoteValidation | undefined {
+  return values
+    .map(v => v.validation)
+    .filter((v): v is QuoteValidation => v !== undefined)
+    .sort((a, b) => METHOD_RANK[b.method] - METHOD_RANK[a.method] || (a.similarity ?? 0) - (b.similarity ?? 0))[0];
+}
+
 /**
  * Validates all extractions in a result set
  */
@@ -150,6 +342,26 @@ export function validateExtractions(
   return extractions.map(extraction => validateExtraction(extraction, fullText));
 }
 
+/**
+ * Derive each extraction's page from its validated start offset, replacing
+ * whatever page the model reported. `pages` are the parsed document's page
+ * offsets, or null when the format has no reliable pagination (DOCX).
+ */
+export function assignPages(
+  extractions: Extraction[],
+  pages: number[] | null,
+  textLength: number
+): Extraction[] {
+  const pageOf = (start: number | null) =>
+    pages && start !== null ? pageForOffset(pages, start, textLength) : null;
+
+  return extractions.map(extraction => ({
+    ...extraction,
+    page: pageOf(extraction.start),
+    ...(extraction.values ? { values: extraction.values.map(v => ({ ...v, page: pageOf(v.start) })) } : {})
+  }));
+}
+
 /**
  * Generate a validation report showing which extractions passed/failed validation
  */
@@ -161,9 +373,11 @@ export function generateValidationReport(
   validCount: number;
   invalidCount: number;
   invalidFields: string[];
+  correctedFields: string[]; // Found, but with the quote replaced by the matching source text
 } {
   let invalidCount = 0;
   const invalidFields: string[] = [];
+  const correctedFields: string[] = [];
 
   for (let i = 0; i < originalExtractions.length; i++) {
     const original = originalExtractions[i];
@@ -173,6 +387,8 @@ export function generateValidationReport(
     if (original.status === "found" && validated.status === "not_found") {
       invalidCount++;
       invalidFields.push(original.field);
+    } else if (validated.validation?.correctedQuote) {
+      correctedFields.push(original.field);
     }
   }
 
@@ -180,91 +396,7 @@ export function generateValidationReport(
     totalExtractions: originalExtractions.length,
     validCount: originalExtractions.length - invalidCount,
     invalidCount,
-    invalidFields
-  };
-}
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Normalize whitespace for comparison (collapse multiple spaces, normalize newlines)
- */
-function normalizeWhitespace(text: string): string {
-  return text
-    .replace(/\s+/g, ' ')
-    .replace(/\n/g, ' ')
-    .trim();
-}
-
-/**
- * Find the original text span in the source document given a normalized position
- */
-function findOriginalSpan(
-  fullText: string,
-  normalizedIndex: number,
-  approximateLength: number
-): { text: string; start: number; end: number } | null {
-  // Count non-whitespace characters to map back to original position
-  let charCount = 0;
-  let originalStart = -1;
-
-  for (let i = 0; i < fullText.length; i++) {
-    if (fullText[i].trim() !== '') {
-      if (charCount === normalizedIndex) {
-        originalStart = i;
-        break;
-      }
-      charCount++;
-    }
-  }
-
-  if (originalStart === -1) return null;
-
-  // Find approximate end
-  let originalEnd = Math.min(originalStart + approximateLength * 2, fullText.length);
-
-  return {
-    text: fullText.substring(originalStart, originalEnd),
-    start: originalStart,
-    end: originalEnd
-  };
-}
-
-/**
- * Fuzzy find a quote in text - looks for the first 50 chars and last 50 chars
- */
-function fuzzyFindQuote(
-  quote: string,
-  fullText: string
-): { text: string; start: number; end: number } | null {
-  const minLength = Math.min(50, Math.floor(quote.length * 0.3));
-
-  if (quote.length < minLength * 2) {
-    return null; // Quote too short for fuzzy matching
-  }
-
-  const quoteStart = quote.substring(0, minLength);
-  const quoteEnd = quote.substring(quote.length - minLength);
-
-  // Try to find the start phrase
-  const startIndex = fullText.indexOf(quoteStart);
-  if (startIndex === -1) return null;
-
-  // Look for the end phrase within a reasonable distance
-  const searchEnd = Math.min(startIndex + quote.length * 2, fullText.length);
-  const endIndex = fullText.indexOf(quoteEnd, startIndex + minLength);
-
-  if (endIndex === -1 || endIndex > searchEnd) return null;
-
-  // Extract the actual text span
-  const actualEnd = endIndex + minLength;
-  const actualText = fullText.substring(startIndex, actualEnd);
-
-  return {
-    text: actualText,
-    start: startIndex,
-    end: actualEnd
+    invalidFields,
+    correctedFields
   };
 }
@@ -0,0 +1,60 @@
+import { PipelineEvent } from "./events";
+
+// ============================================================================
+// SERVER-SENT EVENTS
+// ============================================================================
+
+/**
+ * Serialize a pipeline event in the `text/event-stream` wire format
+ */
+export function formatServerSentEvent(event: PipelineEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a `text/event-stream` response body, calling `onEvent` for each
+ * complete event. Resolves once the server closes the stream.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: PipelineEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const event = parseServerSentEvent(buffer.substring(0, boundary));
+      buffer = buffer.substring(boundary + 2);
+      if (event) onEvent(event);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+export function parseServerSentEvent(block: string): PipelineEvent | null {
+  const data = block
+    .split("\n")
+    .filter(line => line.startsWith("data:"))
+    .map(line => line.substring(5).trimStart())
+    .join("\n");
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as PipelineEvent;
+  } catch {
+    return null;
+  }
+}
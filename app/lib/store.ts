@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// ============================================================================
+// LOCAL FILESYSTEM STORE
+// ============================================================================
+
+/**
+ * Root directory for everything the app persists locally (DATA_DIR,
+ * defaulting to .data in the working directory).
+ */
+export function getDataDir(): string {
+  return path.resolve(process.cwd(), process.env.DATA_DIR || ".data");
+}
+
+export function dataPath(...segments: string[]): string {
+  return path.join(getDataDir(), ...segments);
+}
+
+/**
+ * Read a JSON file, returning null if it doesn't exist
+ */
+export async function readJSON<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write JSON via a temp file and rename so readers never see a partial file
+ */
+export async function writeJSON(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * List entries of a directory, or an empty list if it doesn't exist yet
+ */
+export async function listDir(dirPath: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dirPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * IDs we generate are UUIDs; anything else must not reach a file path
+ */
+export function isValidId(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+}
@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import { KeyTermField, TemplateRef } from "./schema";
+import { dataPath, isValidId, listDir, readJSON, writeJSON } from "./store";
+import { checkFieldDefinitions } from "./normalize";
+import {
+  BUILT_IN_TEMPLATES,
+  CONTRACT_TYPES,
+  ContractType,
+  getLatestVersion,
+  parseTemplateRef,
+  Template,
+  TemplateSummary,
+  toTemplateSummary,
+} from "./templates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Body of POST /api/templates and PUT /api/templates/:id. Changing `fields`
+ * adds a new version; the other properties are edited in place.
+ */
+export type TemplateInput = {
+  name?: string;
+  description?: string;
+  contractType?: ContractType;
+  fields?: KeyTermField[];
+  note?: string; // What changed in this version
+};
+
+type TemplateResult = { template: Template; error?: undefined } | { template?: undefined; error: string };
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function templatePath(id: string): string {
+  return dataPath("templates", `${id}.json`);
+}
+
+function findBuiltIn(id: string): Template | undefined {
+  return BUILT_IN_TEMPLATES.find(t => t.id === id);
+}
+
+/**
+ * Built-in templates are served from code until they are first edited, after
+ * which the stored copy (with its extra versions) takes over
+ */
+export async function getTemplate(id: string): Promise<Template | null> {
+  const builtIn = findBuiltIn(id);
+  if (!builtIn && !isValidId(id)) return null;
+
+  const stored = await readJSON<Template>(templatePath(id));
+  return stored ?? (builtIn ? structuredClone(builtIn) : null);
+}
+
+export async function listTemplates(contractType?: ContractType): Promise<TemplateSummary[]> {
+  const customIds = (await listDir(dataPath("templates")))
+    .map(name => name.replace(/\.json$/, ""))
+    .filter(isValidId);
+
+  const templates = await Promise.all([
+    ...BUILT_IN_TEMPLATES.map(t => getTemplate(t.id)),
+    ...customIds.map(id => getTemplate(id)),
+  ]);
+
+  return templates
+    .filter((template): template is Template => template !== null)
+    .filter(template => !contractType || template.contractType === contractType)
+    .map(toTemplateSummary);
+}
+
+export async function createTemplate(input: TemplateInput): Promise<TemplateResult> {
+  const error = checkTemplateInput(input, true);
+  if (error) return { error };
+
+  const now = new Date().toISOString();
+  const template: Template = {
+    id: crypto.randomUUID(),
+    name: input.name!.trim(),
+    description: input.description?.trim() || "",
+    contractType: input.contractType || "other",
+    versions: [{ version: 1, fields: input.fields!, ...(input.note ? { note: input.note } : {}), createdAt: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeJSON(templatePath(template.id), template);
+  console.log(`Created template ${template.id} (${template.name})`);
+  return { template };
+}
+
+/**
+ * Edit a template. Returns null if it doesn't exist.
+ */
+export async function updateTemplate(id: string, input: TemplateInput): Promise<TemplateResult | null> {
+  const template = await getTemplate(id);
+  if (!template) return null;
+
+  const error = checkTemplateInput(input, false);
+  if (error) return { error };
+
+  const now = new Date().toISOString();
+  const latest = getLatestVersion(template);
+  const versions = input.fields && JSON.stringify(input.fields) !== JSON.stringify(latest.fields)
+    ? [...template.versions, { version: latest.version + 1, fields: input.fields, ...(input.note ? { note: input.note } : {}), createdAt: now }]
+    : template.versions;
+
+  const updated: Template = {
+    ...template,
+    name: input.name?.trim() || template.name,
+    description: input.description !== undefined ? input.description.trim() : template.description,
+    contractType: input.contractType || template.contractType,
+    versions,
+    updatedAt: now,
+  };
+
+  await writeJSON(templatePath(id), updated);
+  return { template: updated };
+}
+
+/**
+ * Delete a custom template. Returns false if it doesn't exist.
+ */
+export async function deleteTemplate(id: string): Promise<{ deleted: boolean; error?: string }> {
+  if (findBuiltIn(id)) {
+    return { deleted: false, error: "Built-in templates cannot be deleted" };
+  }
+  if (!isValidId(id)) return { deleted: false };
+
+  try {
+    await fs.unlink(templatePath(id));
+    return { deleted: true };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { deleted: false };
+    throw error;
+  }
+}
+
+/**
+ * The template to use for a detected contract type: the most recently edited
+ * custom template of that type, else the built-in one
+ */
+export async function findTemplateForType(contractType: ContractType): Promise<TemplateSummary | null> {
+  const candidates = await listTemplates(contractType);
+  const custom = candidates
+    .filter(t => !t.builtIn)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return custom[0] ?? candidates[0] ?? null;
+}
+
+/**
+ * Look up the fields for a "templateId@version" reference
+ */
+export async function resolveTemplate(
+  ref: string
+): Promise<{ fields: KeyTermField[]; template: TemplateRef; error?: undefined } | { fields?: undefined; template?: undefined; error: string }> {
+  const parsed = parseTemplateRef(ref);
+  const template = parsed ? await getTemplate(parsed.id) : null;
+  if (!parsed || !template) {
+    return { error: `Unknown template "${ref}"` };
+  }
+
+  const version = parsed.version === null
+    ? getLatestVersion(template)
+    : template.versions.find(v => v.version === parsed.version);
+  if (!version) {
+    return { error: `Template "${template.name}" has no version ${parsed.version} (latest is ${getLatestVersion(template).version})` };
+  }
+
+  return { fields: version.fields, template: { id: template.id, name: template.name, version: version.version } };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function checkTemplateInput(input: TemplateInput, isNew: boolean): string | null {
+  if (!input || typeof input !== "object") {
+    return "Body must be a JSON object";
+  }
+  if (isNew || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) return "Template name is required";
+  }
+  if (input.contractType !== undefined && !CONTRACT_TYPES.includes(input.contractType)) {
+    return `Unknown contract type "${input.contractType}". Expected one of: ${CONTRACT_TYPES.join(', ')}`;
+  }
+  if (isNew || input.fields !== undefined) {
+    if (!Array.isArray(input.fields) || input.fields.length === 0) return "A template needs at least one field";
+    const names = input.fields.map(f => f?.name?.trim().toLowerCase());
+    if (new Set(names).size !== names.length) return "Field names must be unique";
+    return checkFieldDefinitions(input.fields);
+  }
+  return null;
+}
@@ -0,0 +1,177 @@
+import { KeyTermField, TemplateRef } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ContractType = "nda" | "msa" | "sow" | "order_form" | "lease" | "other";
+
+export const CONTRACT_TYPES: ContractType[] = ["nda", "msa", "sow", "order_form", "lease", "other"];
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  nda: "NDA",
+  msa: "MSA",
+  sow: "SOW",
+  order_form: "Order form",
+  lease: "Lease",
+  other: "Other",
+};
+
+// `template` value that picks the template from the detected contract type
+export const AUTO_TEMPLATE = "auto";
+
+/**
+ * One immutable revision of a template's fields. Editing the fields always
+ * adds a version so earlier runs can still be traced to what they used.
+ */
+export type TemplateVersion = {
+  version: number; // 1-based
+  fields: KeyTermField[];
+  note?: string;
+  createdAt: string;
+};
+
+/**
+ * A named field set ("playbook") for a type of contract
+ */
+export type Template = {
+  id: string;
+  name: string;
+  description: string;
+  contractType: ContractType;
+  builtIn?: boolean; // Shipped with the app; can get new versions but not be deleted
+  versions: TemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * List entry for GET /api/templates, with the latest version's fields
+ */
+export type TemplateSummary = {
+  id: string;
+  name: string;
+  description: string;
+  contractType: ContractType;
+  builtIn: boolean;
+  latestVersion: number;
+  fields: KeyTermField[];
+  updatedAt: string;
+};
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+export const DEFAULT_TEMPLATE_ID = "default";
+
+export const DEFAULT_FIELDS: KeyTermField[] = [
+  { name: "Sales tax", description: "Any clauses about tax responsibilities, exemptions, or obligations" },
+  { name: "Shipping", description: "Delivery terms, shipping responsibilities, freight costs" },
+  { name: "Cancellation policy", description: "Termination clauses, cancellation procedures, notice periods" },
+  { name: "Renewal terms", description: "Auto-renewal clauses, renewal processes, term extensions" },
+  { name: "Discounts", description: "Price reductions, promotional terms, volume discounts" },
+  { name: "Ramp up", description: "Implementation schedules, onboarding timelines, phase-in periods" },
+  { name: "Payment", description: "Payment terms, schedules, amounts, invoicing procedures" }
+];
+
+const BUILT_IN_CREATED_AT = "2025-01-01T00:00:00.000Z";
+
+function builtIn(
+  id: string,
+  name: string,
+  description: string,
+  contractType: ContractType,
+  fields: KeyTermField[]
+): Template {
+  return {
+    id,
+    name,
+    description,
+    contractType,
+    builtIn: true,
+    versions: [{ version: 1, fields, createdAt: BUILT_IN_CREATED_AT }],
+    createdAt: BUILT_IN_CREATED_AT,
+    updatedAt: BUILT_IN_CREATED_AT,
+  };
+}
+
+export const BUILT_IN_TEMPLATES: Template[] = [
+  builtIn(DEFAULT_TEMPLATE_ID, "Commercial terms", "The original seven commercial key terms", "other", DEFAULT_FIELDS),
+  builtIn("nda", "Non-disclosure agreement", "Mutual or one-way confidentiality agreements", "nda", [
+    { name: "Parties", description: "The disclosing and receiving parties", type: "party", multiple: true },
+    { name: "Effective date", description: "Date the agreement takes effect", type: "date" },
+    { name: "Term", description: "How long the agreement remains in force", type: "duration" },
+    { name: "Confidentiality period", description: "How long obligations survive after termination or disclosure", type: "duration" },
+    { name: "Confidential information", description: "Definition of what information is protected" },
+    { name: "Exclusions", description: "Information excluded from confidentiality (public, independently developed, etc.)" },
+    { name: "Return or destruction", description: "Obligations to return or destroy confidential information" },
+    { name: "Governing law", description: "Governing law and jurisdiction" },
+  ]),
+  builtIn("msa", "Master services agreement", "Framework agreements that later SOWs and orders refer to", "msa", [
+    { name: "Parties", description: "The contracting parties", type: "party", multiple: true },
+    { name: "Effective date", description: "Date the agreement takes effect", type: "date" },
+    { name: "Initial term", description: "Length of the initial term", type: "duration" },
+    { name: "Renewal terms", description: "Auto-renewal clauses, renewal processes, term extensions", type: "duration" },
+    { name: "Termination for convenience", description: "Notice required to terminate without cause", type: "duration" },
+    { name: "Payment", description: "Days until invoices are due", type: "duration" },
+    { name: "Limitation of liability", description: "Liability cap amount or formula", type: "currency" },
+    { name: "Indemnification", description: "Indemnification obligations of each party" },
+    { name: "Governing law", description: "Governing law and jurisdiction" },
+  ]),
+  builtIn("sow", "Statement of work", "Project scope, deliverables and milestones under an MSA", "sow", [
+    { name: "Governing agreement", description: "The master agreement this SOW is issued under" },
+    { name: "Scope of services", description: "Services the provider will perform" },
+    { name: "Deliverables", description: "Each deliverable the provider must hand over", multiple: true },
+    { name: "Milestones", description: "Each milestone or due date", type: "date", multiple: true },
+    { name: "Fees", description: "Total fees or fee estimate", type: "currency" },
+    { name: "Payment", description: "Days until invoices are due", type: "duration" },
+    { name: "Acceptance criteria", description: "How deliverables are reviewed and accepted" },
+    { name: "Change control", description: "Process for changing scope, schedule or fees" },
+  ]),
+  builtIn("order-form", "Order form", "Subscription or purchase orders", "order_form", [
+    { name: "Customer", description: "The purchasing customer", type: "party" },
+    { name: "Order date", description: "Date of the order", type: "date" },
+    { name: "Subscription term", description: "Length of the subscription", type: "duration" },
+    { name: "Fees", description: "Total order value", type: "currency" },
+    { name: "Discounts", description: "Price reductions, promotional terms, volume discounts", type: "percentage" },
+    { name: "Payment", description: "Days until invoices are due", type: "duration" },
+    { name: "Renewal terms", description: "Auto-renewal clauses, renewal processes, term extensions" },
+    { name: "Sales tax", description: "Any clauses about tax responsibilities, exemptions, or obligations" },
+  ]),
+];
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+/**
+ * Parse "id" or "id@version". Without a version the latest one is used.
+ */
+export function parseTemplateRef(ref: string): { id: string; version: number | null } | null {
+  const match = ref.trim().match(/^([A-Za-z0-9-]+)(?:@(\d+))?$/);
+  if (!match) return null;
+  return { id: match[1], version: match[2] ? parseInt(match[2], 10) : null };
+}
+
+export function formatTemplateRef(ref: Pick<TemplateRef, "id" | "version">): string {
+  return `${ref.id}@${ref.version}`;
+}
+
+export function getLatestVersion(template: Template): TemplateVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+export function toTemplateSummary(template: Template): TemplateSummary {
+  const latest = getLatestVersion(template);
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    contractType: template.contractType,
+    builtIn: Boolean(template.builtIn),
+    latestVersion: latest.version,
+    fields: latest.fields,
+    updatedAt: template.updatedAt,
+  };
+}
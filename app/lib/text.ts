@@ -0,0 +1,20 @@
+import { ParsedDocument } from "./pdf";
+
+export function parseText(buffer: Buffer): ParsedDocument {
+  const fullText = buffer.toString('utf-8');
+
+  // Plain text has no pages unless form feeds mark them
+  const pages = [0];
+  for (let i = 0; i < fullText.length; i++) {
+    if (fullText[i] === '\f') {
+      pages.push(i + 1);
+    }
+  }
+  pages.push(fullText.length);
+
+  return {
+    pages,
+    text: fullText,
+    pageCount: pages.length - 1,
+  };
+}
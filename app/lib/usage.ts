@@ -0,0 +1,54 @@
+import type { CompletionRequest, CompletionResult, ExtractionProvider } from "./provider";
+import { calculateCost, ModelUsage, summarizeUsage, UsageStats } from "./cost";
+
+/**
+ * A provider that counts every call made through it, so a run's usage covers
+ * classification, each chunk, fallbacks and retries without threading token
+ * counts through every stage
+ */
+export type UsageMeter = {
+  provider: ExtractionProvider;
+  usage(): UsageStats;
+};
+
+/**
+ * Wrap `provider` so each completed call is priced at the rates of the
+ * model that actually answered it (the API's model, which may be more
+ * specific than the one requested). Failed calls return no usage and are
+ * not counted.
+ */
+export function createUsageMeter(provider: ExtractionProvider): UsageMeter {
+  const byModel = new Map<string, ModelUsage>();
+
+  const record = (result: CompletionResult) => {
+    const usage = byModel.get(result.model) || {
+      model: result.model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedInputTokens: 0,
+      reasoningTokens: 0,
+      estimatedUSD: 0,
+    };
+
+    usage.calls++;
+    usage.inputTokens += result.inputTokens;
+    usage.outputTokens += result.outputTokens;
+    usage.cachedInputTokens += result.cachedInputTokens || 0;
+    usage.reasoningTokens += result.reasoningTokens || 0;
+    usage.estimatedUSD += calculateCost(result.model, result.inputTokens, result.outputTokens, result);
+    byModel.set(result.model, usage);
+  };
+
+  return {
+    provider: {
+      name: provider.name,
+      async complete(request: CompletionRequest): Promise<CompletionResult> {
+        const result = await provider.complete(request);
+        record(result);
+        return result;
+      },
+    },
+    usage: () => summarizeUsage(Array.from(byModel.values()).map(usage => ({ ...usage }))),
+  };
+}
@@ -1,43 +1,86 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import UploadCard from "./components/UploadCard";
 import FieldCard from "./components/FieldCard";
-import { ApiResponse, Extraction } from "./lib/schema";
-import * as XLSX from 'xlsx';
-
-type KeyTermField = {
-  name: string;
-  description: string;
-};
-
-type BulkResult = {
-  fileName: string;
-  success: boolean;
-  result?: ApiResponse;
-  error?: string;
-};
+import DocumentViewer from "./components/DocumentViewer";
+import HistoryPanel from "./components/HistoryPanel";
+import SpendPanel from "./components/SpendPanel";
+import PortfolioPanel from "./components/PortfolioPanel";
+import RiskSummary from "./components/RiskSummary";
+import KeyDatesPanel from "./components/KeyDatesPanel";
+import ComparisonView from "./components/ComparisonView";
+import { ApiResponse, BulkResult, DocumentText, Extraction, KeyTermField } from "./lib/schema";
+import type { JobView } from "./lib/jobs";
+import type { ExtractionRecord, ExtractionRecordView } from "./lib/history";
+import type { ContractComparison } from "./lib/compare";
+import { describeEvent } from "./lib/events";
+import { readServerSentEvents } from "./lib/sse";
+import { getFieldColors } from "./lib/highlight";
+import { reviewExtraction, ReviewAction, summarizeReviews } from "./lib/review";
+import { CONTRACT_TYPE_LABELS } from "./lib/templates";
+import { resultsToCSV, writeExportWorkbook } from "./lib/export";
+
+// Remember the running batch so a reload picks up where it left off
+const ACTIVE_JOB_KEY = "activeBulkJobId";
+const REVIEWER_KEY = "reviewerName";
+const JOB_POLL_INTERVAL_MS = 3000;
+
+async function fetchJob(jobId: string): Promise<JobView> {
+  const response = await fetch(`/api/jobs/${jobId}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load job");
+  }
+  return response.json();
+}
 
 export default function Home() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ApiResponse | null>(null);
+  const [comparison, setComparison] = useState<ContractComparison | null>(null);
   const [bulkResults, setBulkResults] = useState<BulkResult[]>([]);
   const [logs, setLogs] = useState<string[]>([]);
   const [showJSON, setShowJSON] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isBulkMode, setIsBulkMode] = useState(false);
+  const [bulkJobId, setBulkJobId] = useState<string | null>(null);
+  const [documentText, setDocumentText] = useState<DocumentText | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSpend, setShowSpend] = useState(false);
+  const [showPortfolio, setShowPortfolio] = useState(false);
+
+  const fieldColors = useMemo(() => getFieldColors(result?.extractions ?? []), [result]);
 
   const addLog = (message: string) => {
     setLogs((prev) => [...prev, `${new Date().toLocaleTimeString()}: ${message}`]);
   };
 
-  const handleExtract = async (file: File, model: string, customFields?: KeyTermField[]) => {
+  // Drop the previous document from the viewer and release its object URL
+  const resetDocument = (file?: File) => {
+    setDocumentText(null);
+    setActiveField(null);
+    setPdfUrl(prev => {
+      if (prev) URL.revokeObjectURL(prev);
+      return file && file.name.toLowerCase().endsWith(".pdf") ? URL.createObjectURL(file) : null;
+    });
+  };
+
+  const handleExtract = async (file: File, model: string, customFields?: KeyTermField[], force = false, templateRef?: string) => {
     setIsProcessing(true);
     setError(null);
     setLogs([]);
     setResult(null);
+    setComparison(null);
     setBulkResults([]);
     setIsBulkMode(false);
+    setShowHistory(false);
+    setShowSpend(false);
+    setShowPortfolio(false);
+    resetDocument(file);
 
     addLog("Starting extraction...");
 
@@ -47,15 +90,19 @@ export default function Home() {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("model", model);
+      if (force) formData.append("force", "true");
       
-      if (customFields && customFields.length > 0) {
+      if (templateRef) {
+        formData.append("template", templateRef);
+        addLog(`Extracting with template ${templateRef}`);
+      } else if (customFields && customFields.length > 0) {
         formData.append("fields", JSON.stringify(customFields));
         addLog(`Extracting ${customFields.length} custom key terms`);
       }
 
       addLog(`Sending to API with model ${model}...`);
 
-      const response = await fetch("/api/extract", {
+      const response = await fetch("/api/extract/stream", {
         method: "POST",
         body: formData,
       });
@@ -65,11 +112,36 @@ export default function Home() {
         throw new Error(errorData.error || "Extraction failed");
       }
 
-      addLog("Processing response...");
-      const data: ApiResponse = await response.json();
+      // Render server-side progress as it streams in. Declared loosely because
+      // they're assigned inside the callback and would otherwise narrow to null.
+      let data = null as ApiResponse | null;
+      let streamError = null as string | null;
+
+      await readServerSentEvents(response, (event) => {
+        if (event.type === "result") {
+          data = event.result;
+          return;
+        }
+        if (event.type === "error") {
+          streamError = event.error;
+          return;
+        }
+        if (event.type === "document") {
+          setDocumentText({ text: event.text, pages: event.pages, paginated: event.paginated });
+          return;
+        }
+        const message = describeEvent(event);
+        if (message) addLog(message);
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      if (!data) {
+        throw new Error("Connection closed before extraction finished");
+      }
 
       addLog(`✓ Extracted ${data.extractions.filter(e => e.status === "found").length} of ${data.extractions.length} terms`);
-      addLog(`✓ Used ${data.usage.totalTokens.toLocaleString()} tokens`);
 
       setResult(data);
     } catch (err) {
@@ -81,186 +153,299 @@ export default function Home() {
     }
   };
 
-  const handleBulkExtract = async (files: File[], model: string, customFields?: KeyTermField[]) => {
+  const pollJob = async (jobId: string) => {
+    const reported = new Set<string>();
+
+    try {
+      while (true) {
+        const job = await fetchJob(jobId);
+
+        job.files.forEach(file => {
+          if (reported.has(`${file.index}`)) return;
+          if (file.status === "completed" && file.result) {
+            reported.add(`${file.index}`);
+            addLog(`✓ ${file.fileName}: Extracted ${file.result.extractions.filter(e => e.status === "found").length} of ${file.result.extractions.length} terms`);
+          } else if (file.status === "failed") {
+            reported.add(`${file.index}`);
+            addLog(`✗ ${file.fileName}: ${file.error}`);
+          }
+        });
+
+        setBulkResults(job.results);
+
+        if (job.status === "completed" || job.status === "completed_with_errors") {
+          const { total, completed } = job.progress;
+          addLog(`\n✓ Completed: ${completed}/${total} files processed successfully`);
+          if (completed < total) {
+            setError(`${total - completed} file(s) failed to process`);
+          }
+          localStorage.removeItem(ACTIVE_JOB_KEY);
+          break;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      setError(message);
+      addLog(`✗ Error: ${message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  useEffect(() => {
+    setReviewer(localStorage.getItem(REVIEWER_KEY) || "");
+  }, []);
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_KEY, name);
+  };
+
+  // Apply a review decision to one field; edits are checked against the parsed text
+  const handleReview = (field: string, action: ReviewAction): string | null => {
+    if (!result) return null;
+    const extraction = result.extractions.find(e => e.field === field);
+    if (!extraction) return null;
+
+    const source = documentText
+      ? { text: documentText.text, pages: documentText.paginated ? documentText.pages : null }
+      : null;
+    const reviewed = reviewExtraction(extraction, action, reviewer, source);
+    if (!reviewed.extraction) return reviewed.error;
+
+    setResult({
+      ...result,
+      extractions: result.extractions.map(e => e.field === field ? reviewed.extraction : e),
+    });
+
+    // Saved runs keep their review state
+    if (result.id) {
+      fetch(`/api/extractions/${result.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ field, action, reviewer }),
+      })
+        .then(async response => {
+          const record = await response.json();
+          if (!response.ok) throw new Error(record.error || "Failed to save review");
+          // The server re-validates the review against the stored document and rechecks the playbook
+          const saved = (record as ExtractionRecord).extractions.find(e => e.field === field);
+          setResult(current => current && current.id === record.id
+            ? { ...current, extractions: current.extractions.map(e => e.field === field && saved ? saved : e), compliance: record.compliance }
+            : current);
+        })
+        .catch(err => addLog(`✗ Error: ${err instanceof Error ? err.message : "Failed to save review"}`));
+    }
+    return null;
+  };
+
+  // Reopen a saved run from the history library
+  const handleOpenExtraction = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/extractions/${id}`);
+      const record: ExtractionRecordView = await response.json();
+      if (!response.ok) {
+        throw new Error((record as unknown as { error?: string }).error || "Failed to load extraction");
+      }
+
+      resetDocument();
+      setBulkResults([]);
+      setComparison(null);
+      setIsBulkMode(false);
+      setShowHistory(false);
+      setShowSpend(false);
+      setShowPortfolio(false);
+      setDocumentText(record.document);
+      setResult({
+        id: record.id,
+        fileName: record.fileName,
+        pageCount: record.pageCount,
+        model: record.model,
+        extractions: record.extractions,
+        usage: record.usage,
+        notes: record.notes,
+        template: record.template,
+        classification: record.classification,
+        compliance: record.compliance,
+        keyDates: record.keyDates,
+      });
+      setLogs([`${new Date().toLocaleTimeString()}: Opened saved extraction of ${record.fileName} from ${new Date(record.createdAt).toLocaleString()}`]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load extraction");
+    }
+  };
+
+  // Resume watching a batch that was still running when the page was closed
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId) return;
+
+    setIsProcessing(true);
+    setIsBulkMode(true);
+    setBulkJobId(jobId);
+    addLog(`Resuming bulk job ${jobId}...`);
+    pollJob(jobId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Extract the same fields from an original and a revised draft and diff them
+  const handleCompare = async (before: File, after: File, model: string, customFields?: KeyTermField[], force = false, templateRef?: string) => {
     setIsProcessing(true);
     setError(null);
     setLogs([]);
     setResult(null);
+    setComparison(null);
     setBulkResults([]);
-    setIsBulkMode(true);
+    setIsBulkMode(false);
+    setShowHistory(false);
+    setShowSpend(false);
+    setShowPortfolio(false);
+    resetDocument();
 
-    addLog(`Starting bulk extraction for ${files.length} files...`);
+    addLog(`Comparing ${before.name} (original) with ${after.name} (revised)...`);
 
-    const results: BulkResult[] = [];
+    try {
+      const formData = new FormData();
+      formData.append("before", before);
+      formData.append("after", after);
+      formData.append("model", model);
+      if (force) formData.append("force", "true");
+      if (templateRef) {
+        formData.append("template", templateRef);
+      } else if (customFields && customFields.length > 0) {
+        formData.append("fields", JSON.stringify(customFields));
+      }
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      addLog(`\n[${i + 1}/${files.length}] Processing ${file.name}...`);
+      const response = await fetch("/api/compare", { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Comparison failed");
+      }
 
-      try {
-        const formData = new FormData();
-        formData.append("file", file);
-        formData.append("model", model);
-        
-        if (customFields && customFields.length > 0) {
-          formData.append("fields", JSON.stringify(customFields));
-        }
+      const compared: ContractComparison = data;
+      addLog(`✓ ${compared.summary.changed} changed, ${compared.summary.added} added, ${compared.summary.removed} removed, ${compared.summary.unchanged} unchanged`);
+      setComparison(compared);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      setError(message);
+      addLog(`✗ Error: ${message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-        const response = await fetch("/api/extract", {
-          method: "POST",
-          body: formData,
-        });
+  const handleBulkExtract = async (files: File[], model: string, customFields?: KeyTermField[], force = false, templateRef?: string) => {
+    setIsProcessing(true);
+    setError(null);
+    setLogs([]);
+    setResult(null);
+    setComparison(null);
+    setBulkResults([]);
+    setIsBulkMode(true);
+    setShowHistory(false);
+    setShowSpend(false);
+    setShowPortfolio(false);
+    resetDocument();
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Extraction failed");
-        }
+    addLog(`Starting bulk extraction for ${files.length} files...`);
 
-        const data: ApiResponse = await response.json();
-        
-        results.push({
-          fileName: file.name,
-          success: true,
-          result: data
-        });
+    let jobId: string;
 
-        addLog(`✓ ${file.name}: Extracted ${data.extractions.filter(e => e.status === "found").length} of ${data.extractions.length} terms`);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : "Unknown error occurred";
-        results.push({
-          fileName: file.name,
-          success: false,
-          error: message
-        });
-        addLog(`✗ ${file.name}: ${message}`);
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      formData.append("model", model);
+      if (force) formData.append("force", "true");
+
+      if (templateRef) {
+        formData.append("template", templateRef);
+      } else if (customFields && customFields.length > 0) {
+        formData.append("fields", JSON.stringify(customFields));
       }
-    }
 
-    setBulkResults(results);
-    
-    const successCount = results.filter(r => r.success).length;
-    addLog(`\n✓ Completed: ${successCount}/${files.length} files processed successfully`);
-    
-    if (successCount < files.length) {
-      setError(`${files.length - successCount} file(s) failed to process`);
+      const response = await fetch("/api/jobs", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to start bulk job");
+      }
+
+      jobId = (await response.json()).id;
+      localStorage.setItem(ACTIVE_JOB_KEY, jobId);
+      setBulkJobId(jobId);
+      addLog(`Queued job ${jobId} - processing continues on the server if you close this tab`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error occurred";
+      setError(message);
+      addLog(`✗ Error: ${message}`);
+      setIsProcessing(false);
+      return;
     }
 
-    setIsProcessing(false);
+    await pollJob(jobId);
   };
 
   const handleClear = () => {
     setResult(null);
+    setComparison(null);
     setBulkResults([]);
+    setBulkJobId(null);
+    localStorage.removeItem(ACTIVE_JOB_KEY);
     setLogs([]);
     setError(null);
     setShowJSON(false);
     setIsBulkMode(false);
+    resetDocument();
   };
 
-  const handleDownloadJSON = () => {
-    if (!result) return;
-
-    const blob = new Blob([JSON.stringify(result, null, 2)], {
-      type: "application/json",
-    });
+  const downloadFile = (data: BlobPart, type: string, fileName: string) => {
+    const blob = new Blob([data], { type });
     const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
+    const a = document.createElement('a');
     a.href = url;
-    a.download = `${result.fileName.replace(/\.[^/.]+$/, "")}-extraction.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const exportToCSV = () => {
-    if (bulkResults.length === 0) return;
-
-    // Get all unique field names across all contracts
-    const allFields = new Set<string>();
-    bulkResults.forEach(result => {
-      if (result.success && result.result) {
-        result.result.extractions.forEach(ext => allFields.add(ext.field));
-      }
-    });
-
-    const fieldNames = Array.from(allFields);
-
-    // Build CSV
-    let csv = '"Contract",' + fieldNames.map(f => `"${f}"`).join(',') + '\n';
+  const handleDownloadJSON = () => {
+    if (!result) return;
 
-    bulkResults.forEach(result => {
-      if (result.success && result.result) {
-        const row = [result.fileName];
-        
-        fieldNames.forEach(fieldName => {
-          const extraction = result.result!.extractions.find(e => e.field === fieldName);
-          const quote = extraction?.status === 'found' ? extraction.quote : '';
-          // Escape quotes in CSV
-          row.push(`"${quote.replace(/"/g, '""')}"`);
-        });
-        
-        csv += row.join(',') + '\n';
-      }
-    });
+    downloadFile(JSON.stringify(result, null, 2), "application/json", `${result.fileName.replace(/\.[^/.]+$/, "")}-extraction.json`);
+  };
 
-    // Download
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `contract-extractions-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // Exporters read the stored job so they always reflect the server's results
+  const loadBulkResults = async (): Promise<BulkResult[]> => {
+    if (!bulkJobId) return bulkResults;
+    return (await fetchJob(bulkJobId)).results;
   };
 
-  const exportToExcel = () => {
+  const exportToCSV = async () => {
+    const bulkResults = await loadBulkResults();
     if (bulkResults.length === 0) return;
 
-    // Get all unique field names
-    const allFields = new Set<string>();
-    bulkResults.forEach(result => {
-      if (result.success && result.result) {
-        result.result.extractions.forEach(ext => allFields.add(ext.field));
-      }
-    });
-
-    const fieldNames = Array.from(allFields);
-
-    // Build data array
-    const data = [
-      ['Contract', ...fieldNames] // Header row
-    ];
-
-    bulkResults.forEach(result => {
-      if (result.success && result.result) {
-        const row = [result.fileName];
-        
-        fieldNames.forEach(fieldName => {
-          const extraction = result.result!.extractions.find(e => e.field === fieldName);
-          const quote = extraction?.status === 'found' ? extraction.quote : '';
-          row.push(quote);
-        });
-        
-        data.push(row);
-      }
-    });
-
-    // Create workbook
-    const wb = XLSX.utils.book_new();
-    const ws = XLSX.utils.aoa_to_sheet(data);
-
-    // Set column widths
-    const colWidths = [{ wch: 30 }]; // First column (contract name)
-    fieldNames.forEach(() => colWidths.push({ wch: 50 })); // Field columns
-    ws['!cols'] = colWidths;
-
-    XLSX.utils.book_append_sheet(wb, ws, 'Extractions');
+    downloadFile(resultsToCSV(bulkResults), 'text/csv', `contract-extractions-${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
-    // Download
-    XLSX.writeFile(wb, `contract-extractions-${new Date().toISOString().split('T')[0]}.xlsx`);
+  // Single runs use the same workbook as bulk results, with one contract
+  const exportToExcel = async () => {
+    const exportResults: BulkResult[] = isBulkMode
+      ? await loadBulkResults()
+      : result ? [{ fileName: result.fileName, success: true, result }] : [];
+    if (exportResults.length === 0) return;
+
+    const fileName = isBulkMode || !result
+      ? `contract-extractions-${new Date().toISOString().split('T')[0]}.xlsx`
+      : `${result.fileName.replace(/\.[^/.]+$/, "")}-extraction.xlsx`;
+    downloadFile(writeExportWorkbook(exportResults), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', fileName);
   };
 
   return (
@@ -277,14 +462,34 @@ export default function Home() {
                 Extract verbatim quotes with page numbers and offsets
               </p>
             </div>
-            {result && (
+            <div className="flex gap-2">
               <button
-                onClick={handleClear}
+                onClick={() => { setShowHistory(!showHistory); setShowSpend(false); setShowPortfolio(false); }}
                 className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md transition-colors"
               >
-                Clear
+                {showHistory ? "Hide History" : "History"}
               </button>
-            )}
+              <button
+                onClick={() => { setShowPortfolio(!showPortfolio); setShowHistory(false); setShowSpend(false); }}
+                className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md transition-colors"
+              >
+                {showPortfolio ? "Hide Portfolio" : "Portfolio"}
+              </button>
+              <button
+                onClick={() => { setShowSpend(!showSpend); setShowHistory(false); setShowPortfolio(false); }}
+                className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md transition-colors"
+              >
+                {showSpend ? "Hide Spend" : "Spend"}
+              </button>
+              {result && (
+                <button
+                  onClick={handleClear}
+                  className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -311,17 +516,42 @@ export default function Home() {
             <UploadCard
               onExtract={handleExtract}
               onBulkExtract={handleBulkExtract}
+              onCompare={handleCompare}
               isProcessing={isProcessing}
               fileName={result?.fileName}
               pageCount={result?.pageCount}
               usage={result?.usage}
               logs={logs}
             />
+
+            {/* Document viewer with highlighted quote spans */}
+            {result && documentText && !isBulkMode && (
+              <div className="mt-8 lg:sticky lg:top-4">
+                <DocumentViewer
+                  text={documentText.text}
+                  pages={documentText.pages}
+                  paginated={documentText.paginated}
+                  extractions={result.extractions}
+                  fieldColors={fieldColors}
+                  activeField={activeField}
+                  onSelectField={setActiveField}
+                  pdfUrl={pdfUrl}
+                />
+              </div>
+            )}
           </div>
 
           {/* Right Column - Results */}
           <div>
-            {isBulkMode && bulkResults.length > 0 ? (
+            {showSpend ? (
+              <SpendPanel />
+            ) : showPortfolio ? (
+              <PortfolioPanel onOpen={handleOpenExtraction} />
+            ) : showHistory ? (
+              <HistoryPanel onOpen={handleOpenExtraction} />
+            ) : comparison ? (
+              <ComparisonView comparison={comparison} />
+            ) : isBulkMode && bulkResults.length > 0 ? (
               <div className="space-y-4">
                 {/* Bulk Export Options */}
                 <div className="flex items-center justify-between">
@@ -371,6 +601,8 @@ export default function Home() {
                           {result.success && result.result && (
                             <p className="text-sm text-gray-600 mt-1">
                               Extracted {result.result.extractions.filter(e => e.status === "found").length} of {result.result.extractions.length} terms
+                              {result.result.classification && ` · ${CONTRACT_TYPE_LABELS[result.result.classification.contractType]}`}
+                              {result.result.template && ` · ${result.result.template.name} v${result.result.template.version}`}
                             </p>
                           )}
                           {!result.success && result.error && (
@@ -386,9 +618,27 @@ export default function Home() {
               <div className="space-y-4">
                 {/* Toggle JSON View */}
                 <div className="flex items-center justify-between">
-                  <h2 className="text-lg font-semibold text-gray-900">
-                    Extracted Terms
-                  </h2>
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      Extracted Terms
+                    </h2>
+                    {result.classification && (
+                      <p className="text-xs text-gray-500" title={result.classification.rationale}>
+                        Contract type: {CONTRACT_TYPE_LABELS[result.classification.contractType]} ({Math.round(result.classification.confidence * 100)}% confident)
+                      </p>
+                    )}
+                    {result.template && (
+                      <p className="text-xs text-gray-500">
+                        Template: {result.template.name} v{result.template.version}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {(() => {
+                        const counts = summarizeReviews(result.extractions);
+                        return `${counts.accepted} accepted · ${counts.edited} edited · ${counts.rejected} rejected · ${counts.pending} pending review`;
+                      })()}
+                    </p>
+                  </div>
                   <div className="flex gap-2">
                     <button
                       onClick={() => setShowJSON(!showJSON)}
@@ -396,6 +646,12 @@ export default function Home() {
                     >
                       {showJSON ? "Show Cards" : "Show JSON"}
                     </button>
+                    <button
+                      onClick={exportToExcel}
+                      className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-md transition-colors"
+                    >
+                      Excel
+                    </button>
                     {showJSON && (
                       <button
                         onClick={handleDownloadJSON}
@@ -407,6 +663,26 @@ export default function Home() {
                   </div>
                 </div>
 
+                {result.compliance && (
+                  <RiskSummary report={result.compliance} onSelectField={documentText ? setActiveField : undefined} />
+                )}
+
+                {result.keyDates && (
+                  <KeyDatesPanel keyDates={result.keyDates} extractionId={result.id} />
+                )}
+
+                <div className="flex items-center gap-2">
+                  <label htmlFor="reviewer" className="text-sm text-gray-600">Reviewer</label>
+                  <input
+                    id="reviewer"
+                    type="text"
+                    value={reviewer}
+                    onChange={e => handleReviewerChange(e.target.value)}
+                    placeholder="Your name"
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
                 {showJSON ? (
                   <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
                     <pre className="text-xs text-gray-100 font-mono">
@@ -416,7 +692,14 @@ export default function Home() {
                 ) : (
                   <div className="grid gap-4">
                     {result.extractions.map((extraction) => (
-                      <FieldCard key={extraction.field} extraction={extraction} />
+                      <FieldCard
+                        key={extraction.field}
+                        extraction={extraction}
+                        color={documentText ? fieldColors.get(extraction.field) : undefined}
+                        isActive={extraction.field === activeField}
+                        onSelect={documentText ? setActiveField : undefined}
+                        onReview={action => handleReview(extraction.field, action)}
+                      />
                     ))}
                   </div>
                 )}